@@ -5,6 +5,8 @@ import type { StateEngine } from '../modules/state-engine/state-engine.service.j
 import type { ExecutionEngine } from '../modules/execution-engine/execution-engine.service.js';
 import type { RiskEngine } from '../modules/risk-engine/risk-engine.service.js';
 import type { PumpFunService } from '../modules/pumpfun/pumpfun.service.js';
+import type { HaltService } from '../modules/halt/halt.service.js';
+import type { AlertService } from '../modules/alerts/alert.service.js';
 import { Agent } from './base-agent.js';
 import type { AgentConfig, AgentMessage, ExecutionPlan } from './types.js';
 
@@ -13,6 +15,8 @@ export interface ExecutorDeps {
   executionEngine: ExecutionEngine;
   riskEngine: RiskEngine;
   pumpfun: PumpFunService;
+  halts: HaltService;
+  alerts: AlertService;
 }
 
 interface QueuedExecution {
@@ -24,6 +28,7 @@ export class ExecutorAgent extends Agent {
   private readonly deps: ExecutorDeps;
   private readonly queue: QueuedExecution[] = [];
   private processing = false;
+  private walletId: string | undefined;
 
   constructor(container: Container, eventBus: EventBus, config: AgentConfig, deps: ExecutorDeps) {
     super(container, eventBus, config);
@@ -130,6 +135,13 @@ export class ExecutorAgent extends Agent {
         'Executor plan failed',
       );
 
+      void this.deps.alerts.executionFailed({
+        action: plan.action,
+        error: err instanceof Error ? err.message : String(err),
+        positionId: plan.positionId,
+        mintAddress: plan.mintAddress,
+      });
+
       // Report failure to memory
       this.sendMessage('memory', 'execution-result', {
         planId: plan.id,
@@ -148,6 +160,18 @@ export class ExecutorAgent extends Agent {
       return;
     }
 
+    const halt = this.deps.halts.findBlockingHalt({
+      mintAddress: plan.mintAddress,
+      walletId: await this.resolveWalletId(),
+    });
+    if (halt) {
+      this.container.logger.warn(
+        { planId: plan.id, mint: plan.mintAddress, haltId: halt.id, scope: halt.scope },
+        'Executor: entry blocked by trading halt',
+      );
+      return;
+    }
+
     const mint = new PublicKey(plan.mintAddress);
     const { connection, keypair } = this.container.solana;
 
@@ -208,6 +232,11 @@ export class ExecutorAgent extends Agent {
         { err: sim.value.err, mint: plan.mintAddress },
         'Executor: buy simulation failed',
       );
+      void this.deps.alerts.executionFailed({
+        action: 'enter',
+        error: `Simulation failed: ${JSON.stringify(sim.value.err)}`,
+        mintAddress: plan.mintAddress,
+      });
       return;
     }
 
@@ -235,6 +264,17 @@ export class ExecutorAgent extends Agent {
     });
   }
 
+  /** Wallet record for the trading keypair, so wallet-level halts apply to agent entries. */
+  private async resolveWalletId(): Promise<string | undefined> {
+    if (this.walletId) return this.walletId;
+
+    const wallet = await this.container.db.wallet.findUnique({
+      where: { address: this.container.solana.keypair.publicKey.toBase58() },
+    });
+    this.walletId = wallet?.id;
+    return this.walletId;
+  }
+
   private async executeExit(plan: ExecutionPlan): Promise<void> {
     if (!plan.positionId) {
       this.container.logger.warn({ planId: plan.id }, 'Executor: no positionId for exit');
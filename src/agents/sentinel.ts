@@ -5,6 +5,7 @@ import type { IntelBus } from '../intelligence/intel-bus.js';
 import type { WalletGraph } from '../intelligence/wallet-graph.js';
 import type { StateEngine } from '../modules/state-engine/state-engine.service.js';
 import type { PumpFunService } from '../modules/pumpfun/pumpfun.service.js';
+import type { AlertService } from '../modules/alerts/alert.service.js';
 import type { LLMClient } from './llm.js';
 import { Agent } from './base-agent.js';
 import type { AgentConfig, ThreatSignal } from './types.js';
@@ -15,6 +16,7 @@ export interface SentinelDeps {
   walletGraph: WalletGraph;
   intelBus: IntelBus;
   pumpfun: PumpFunService;
+  alerts: AlertService;
 }
 
 const THREAT_SYSTEM_PROMPT = `You are a threat assessment agent monitoring Solana token positions. You receive threat signals and must decide whether they warrant action.
@@ -154,6 +156,10 @@ export class SentinelAgent extends Agent {
 
     if (threats.length === 0) return;
 
+    for (const threat of threats) {
+      void this.deps.alerts.threatDetected(threat);
+    }
+
     // Publish threats to intelligence network
     for (const threat of threats) {
       if (threat.severity === 'high' || threat.severity === 'critical') {
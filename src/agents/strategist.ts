@@ -2,6 +2,7 @@ import type { Container } from '../infra/container.js';
 import type { EventBus } from '../services/event-bus.js';
 import type { StateEngine } from '../modules/state-engine/state-engine.service.js';
 import type { PatternDatabase } from '../intelligence/pattern-db.js';
+import type { HaltService } from '../modules/halt/halt.service.js';
 import type { LLMClient } from './llm.js';
 import { Agent } from './base-agent.js';
 import type { AgentConfig, AgentMessage, ExecutionPlan, TokenAnalysis } from './types.js';
@@ -11,6 +12,7 @@ export interface StrategistDeps {
   llm: LLMClient;
   stateEngine: StateEngine;
   patternDb: PatternDatabase;
+  halts: HaltService;
 }
 
 const SYSTEM_PROMPT = `You are a portfolio strategist for an autonomous Solana trading agent. You receive token analyses from the Analyst and must decide whether to enter a position, considering the full portfolio context.
@@ -67,7 +69,8 @@ export class StrategistAgent extends Agent {
   }
 
   protected async tick(): Promise<void> {
-    if (this.analysisQueue.length === 0) return;
+    // Paused while globally halted; analyses stay queued until the halt is lifted
+    if (this.analysisQueue.length === 0 || this.deps.halts.isGloballyHalted()) return;
 
     const analysis = this.analysisQueue.shift();
     if (analysis) {
@@ -93,6 +96,15 @@ export class StrategistAgent extends Agent {
       return;
     }
 
+    const halt = this.deps.halts.findBlockingHalt({ mintAddress: analysis.mintAddress });
+    if (halt) {
+      this.container.logger.info(
+        { mint: analysis.mintAddress, haltId: halt.id },
+        'Strategist skipping — token halted',
+      );
+      return;
+    }
+
     // Portfolio context
     const openPositions = this.deps.stateEngine.getOpenPositions();
     const positionCount = openPositions.length;
@@ -18,6 +18,7 @@ export async function executionRoutes(app: FastifyInstance, container: Container
       include: {
         position: { select: { mintAddress: true, status: true } },
         policy: { select: { name: true, trigger: true } },
+        policyVersion: { select: { version: true } },
       },
       orderBy: { createdAt: 'desc' },
       take: limit ? parseInt(limit, 10) : 50,
@@ -34,6 +35,8 @@ export async function executionRoutes(app: FastifyInstance, container: Container
       include: {
         position: true,
         policy: true,
+        // The policy exactly as it stood when it fired
+        policyVersion: true,
       },
     });
 
@@ -0,0 +1,66 @@
+import type { FastifyInstance } from 'fastify';
+import type { Container } from '../../infra/container.js';
+import type { HaltService } from '../../modules/halt/halt.service.js';
+import { createHaltSchema, liftHaltSchema } from '../schemas.js';
+
+export async function haltRoutes(
+  app: FastifyInstance,
+  container: Container,
+  halts: HaltService,
+): Promise<void> {
+  app.get('/halts', async (request, reply) => {
+    const { active } = request.query as { active?: string };
+
+    if (active === 'true') {
+      return reply.send(halts.getActiveHalts());
+    }
+
+    // Full history, including lift audit fields
+    const records = await container.db.tradingHalt.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+    return reply.send(records);
+  });
+
+  app.post('/halts', async (request, reply) => {
+    const parsed = createHaltSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const input = parsed.data;
+
+    if (input.walletId) {
+      const wallet = await container.db.wallet.findUnique({ where: { id: input.walletId } });
+      if (!wallet) {
+        return reply.status(404).send({ error: 'Wallet not found' });
+      }
+    }
+
+    const halt = await halts.halt(input);
+    return reply.status(201).send(halt);
+  });
+
+  app.post('/halts/:id/lift', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const parsed = liftHaltSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const lifted = await halts.lift(id, parsed.data.liftedBy, parsed.data.reason);
+    if (!lifted) {
+      return reply.status(404).send({ error: 'Active halt not found' });
+    }
+
+    return reply.send(lifted);
+  });
+}
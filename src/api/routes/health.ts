@@ -1,7 +1,12 @@
 import type { FastifyInstance } from 'fastify';
 import type { Container } from '../../infra/container.js';
+import type { EventIngestionService } from '../../modules/event-ingestion/event-ingestion.service.js';
 
-export async function healthRoutes(app: FastifyInstance, container: Container): Promise<void> {
+export async function healthRoutes(
+  app: FastifyInstance,
+  container: Container,
+  eventIngestion: EventIngestionService,
+): Promise<void> {
   app.get('/health', async (_request, reply) => {
     try {
       // Check database
@@ -13,13 +18,18 @@ export async function healthRoutes(app: FastifyInstance, container: Container):
       // Check Solana RPC
       const slot = await container.solana.connection.getSlot();
 
+      // A source that stopped delivering degrades the node without making it unreachable
+      const eventSources = eventIngestion.health();
+      const sourcesUp = eventSources.every((source) => source.status === 'up');
+
       return reply.send({
-        status: 'healthy',
+        status: sourcesUp ? 'healthy' : 'degraded',
         timestamp: new Date().toISOString(),
         checks: {
           database: 'ok',
           redis: redisPing === 'PONG' ? 'ok' : 'degraded',
           solanaRpc: { status: 'ok', slot },
+          eventSources,
         },
       });
     } catch (err) {
@@ -0,0 +1,47 @@
+import type { FastifyInstance } from 'fastify';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { Container } from '../../infra/container.js';
+import type { EventIngestionService } from '../../modules/event-ingestion/event-ingestion.service.js';
+import { WebhookEventSource } from '../../modules/event-ingestion/webhook-source.js';
+import { ingestWebhookSchema } from '../schemas.js';
+
+export async function ingestRoutes(
+  app: FastifyInstance,
+  container: Container,
+  eventIngestion: EventIngestionService,
+  webhookToken: string | undefined,
+): Promise<void> {
+  // Enhanced transactions pushed by an indexer; the token is sent verbatim as the Authorization header
+  app.post('/ingest/webhook', async (request, reply) => {
+    const source = eventIngestion.getSource('webhook');
+    if (!(source instanceof WebhookEventSource)) {
+      return reply.status(404).send({ error: 'Webhook ingestion is not enabled' });
+    }
+
+    if (!webhookToken || !sameToken(request.headers.authorization, webhookToken)) {
+      return reply.status(401).send({ error: 'Unauthorized' });
+    }
+
+    const parsed = ingestWebhookSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const emitted = await source.receive(parsed.data);
+    container.logger.debug(
+      { transactions: parsed.data.length, events: emitted },
+      'Webhook batch ingested',
+    );
+
+    return reply.send({ received: parsed.data.length, events: emitted });
+  });
+}
+
+function sameToken(header: string | undefined, token: string): boolean {
+  // Hashing first gives equal-length buffers, as timingSafeEqual requires
+  const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+  return header !== undefined && timingSafeEqual(digest(header), digest(token));
+}
@@ -3,6 +3,8 @@ import type { Container } from '../../infra/container.js';
 import type { DeployerScoreEngine } from '../../intelligence/deployer-scores.js';
 import type { PatternDatabase } from '../../intelligence/pattern-db.js';
 import type { Swarm } from '../../agents/swarm.js';
+import type { EventBus } from '../../services/event-bus.js';
+import type { EventPipeline } from '../../services/event-pipeline.js';
 
 export interface MetricsDeps {
   deployerScores: DeployerScoreEngine | null;
@@ -13,8 +15,19 @@ export interface MetricsDeps {
 export async function metricsRoutes(
   app: FastifyInstance,
   container: Container,
+  eventBus: EventBus,
+  eventPipeline: EventPipeline,
   deps: MetricsDeps,
 ): Promise<void> {
+  // Ingestion dedup/ordering counters and delivery counters per bus handler
+  app.get('/metrics/events', async (_request, reply) => {
+    return reply.send({
+      timestamp: new Date().toISOString(),
+      pipeline: eventPipeline.metrics(),
+      handlers: eventBus.handlerMetrics(),
+    });
+  });
+
   app.get('/metrics/network', async (_request, reply) => {
     const { redis } = container;
     const { deployerScores, patternDb, swarm } = deps;
@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import type { Policy } from '@prisma/client';
+import { policyRoutes } from './policies.js';
+import { toPolicyDefinition } from '../../modules/policy-engine/index.js';
+import type { Container } from '../../infra/container.js';
+import type { PolicyEngine } from '../../modules/policy-engine/policy-engine.service.js';
+import type { DryRunService } from '../../modules/dry-run/dry-run.service.js';
+import type { PolicyPackEntry } from '../../types/policy.js';
+
+const devSell: PolicyPackEntry = {
+  name: 'Dev sell exit',
+  trigger: 'DEV_SELL_PERCENTAGE',
+  threshold: 30,
+  windowSeconds: 600,
+  action: 'EXIT_POSITION',
+  priority: 10,
+};
+
+const lpPull: PolicyPackEntry = {
+  name: 'LP pull exit',
+  trigger: 'LP_REMOVAL_PERCENTAGE',
+  threshold: 10,
+  action: 'EXIT_POSITION',
+  priority: 20,
+};
+
+function record(id: string, entry: PolicyPackEntry, overrides: Partial<Policy> = {}): Policy {
+  return {
+    id,
+    name: entry.name,
+    trigger: entry.trigger,
+    threshold: entry.threshold ?? 1,
+    windowBlocks: entry.windowBlocks ?? null,
+    windowSeconds: entry.windowSeconds ?? null,
+    action: entry.action,
+    actionParams: null,
+    priority: entry.priority ?? 0,
+    isActive: true,
+    trackedTokenId: null,
+    walletId: null,
+    conditions: null,
+    cooldownSeconds: null,
+    rearmBelow: null,
+    mintAddress: null,
+    version: 1,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function createMockContainer(stored: Policy[]) {
+  const tx = {
+    policy: {
+      create: vi.fn(async ({ data }: { data: PolicyPackEntry }) =>
+        record(`new-${data.name}`, data),
+      ),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: PolicyPackEntry }) => {
+        const current = stored.find((p) => p.id === where.id)!;
+        return record(where.id, data, { isActive: true, version: current.version + 1 });
+      }),
+    },
+    policyVersion: { create: vi.fn().mockResolvedValue({}) },
+  };
+
+  const container = {
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Container['logger'],
+    db: {
+      policy: {
+        findMany: vi.fn().mockResolvedValue(stored),
+        create: vi.fn(),
+        update: vi.fn(),
+      },
+      trackedToken: { findUnique: vi.fn().mockResolvedValue(null) },
+      wallet: { findUnique: vi.fn().mockResolvedValue(null) },
+      $transaction: vi.fn(async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+    } as unknown as Container['db'],
+    redis: {} as Container['redis'],
+    solana: {} as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+
+  return { container, tx };
+}
+
+describe('policy pack routes', () => {
+  let app: FastifyInstance;
+  let container: Container;
+  let tx: ReturnType<typeof createMockContainer>['tx'];
+  let policyEngine: {
+    supportsTrigger: ReturnType<typeof vi.fn>;
+    reloadPolicy: ReturnType<typeof vi.fn>;
+    getPolicies: ReturnType<typeof vi.fn>;
+  };
+
+  async function build(stored: Policy[]): Promise<void> {
+    ({ container, tx } = createMockContainer(stored));
+    policyEngine = {
+      supportsTrigger: vi.fn().mockReturnValue(true),
+      reloadPolicy: vi.fn().mockResolvedValue(undefined),
+      getPolicies: vi.fn().mockReturnValue(stored.map((p) => toPolicyDefinition(p))),
+    };
+    app = Fastify();
+    await policyRoutes(
+      app,
+      container,
+      policyEngine as unknown as PolicyEngine,
+      {} as DryRunService,
+    );
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('POST /policies/import', () => {
+    it('creates new names and updates existing ones in one transaction', async () => {
+      await build([record('p1', devSell)]);
+
+      const res = await app.inject({
+        method: 'POST',
+        url: '/policies/import',
+        payload: {
+          name: 'default',
+          policies: [{ ...devSell, threshold: 20 }, lpPull],
+          changedBy: 'ops',
+        },
+      });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.json()).toEqual({
+        pack: 'default',
+        created: ['LP pull exit'],
+        updated: ['Dev sell exit'],
+        unchanged: [],
+      });
+      expect(container.db.$transaction).toHaveBeenCalledTimes(1);
+      expect(container.db.policy.create).not.toHaveBeenCalled();
+      expect(container.db.policy.update).not.toHaveBeenCalled();
+      expect(tx.policy.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'LP pull exit' }),
+      });
+      expect(tx.policy.update).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: expect.objectContaining({ threshold: 20, version: { increment: 1 } }),
+      });
+      expect(tx.policyVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          policyId: 'p1',
+          version: 2,
+          changeType: 'UPDATED',
+          changedBy: 'ops',
+          changeReason: 'Imported policy pack "default"',
+        }),
+      });
+      expect(policyEngine.reloadPolicy).toHaveBeenCalledWith('p1');
+      expect(policyEngine.reloadPolicy).toHaveBeenCalledWith('new-LP pull exit');
+    });
+
+    it('leaves identical policies alone', async () => {
+      await build([record('p1', devSell)]);
+
+      const res = await app.inject({
+        method: 'POST',
+        url: '/policies/import',
+        payload: { name: 'default', policies: [devSell], changedBy: 'ops' },
+      });
+
+      expect(res.json()).toMatchObject({ updated: [], unchanged: ['Dev sell exit'] });
+      expect(tx.policy.update).not.toHaveBeenCalled();
+      expect(policyEngine.reloadPolicy).not.toHaveBeenCalled();
+    });
+
+    it('re-activates a deactivated policy the pack names', async () => {
+      await build([record('p1', devSell, { isActive: false })]);
+
+      const res = await app.inject({
+        method: 'POST',
+        url: '/policies/import',
+        payload: { name: 'default', policies: [devSell], changedBy: 'ops' },
+      });
+
+      expect(res.json()).toMatchObject({ updated: ['Dev sell exit'], unchanged: [] });
+      expect(tx.policy.update).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: expect.objectContaining({ isActive: true }),
+      });
+      expect(policyEngine.reloadPolicy).toHaveBeenCalledWith('p1');
+    });
+
+    it('applies nothing and reloads nothing when a write fails', async () => {
+      await build([record('p1', devSell)]);
+      tx.policy.create.mockRejectedValueOnce(new Error('unique violation'));
+
+      const res = await app.inject({
+        method: 'POST',
+        url: '/policies/import',
+        payload: { name: 'default', policies: [{ ...devSell, threshold: 20 }, lpPull] },
+      });
+
+      expect(res.statusCode).toBe(500);
+      expect(policyEngine.reloadPolicy).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when a pack name matches more than one stored policy', async () => {
+      await build([record('p1', devSell), record('p2', devSell)]);
+
+      const res = await app.inject({
+        method: 'POST',
+        url: '/policies/import',
+        payload: { name: 'default', policies: [devSell] },
+      });
+
+      expect(res.statusCode).toBe(409);
+      expect(res.json()).toEqual({
+        error: 'Policy name "Dev sell exit" matches more than one policy',
+      });
+      expect(container.db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects a pack that names the same policy twice', async () => {
+      await build([]);
+
+      const res = await app.inject({
+        method: 'POST',
+        url: '/policies/import',
+        payload: { name: 'default', policies: [devSell, { ...devSell, threshold: 5 }] },
+      });
+
+      expect(res.statusCode).toBe(400);
+      expect(JSON.stringify(res.json())).toContain('Policy names must be unique within a pack');
+      expect(container.db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects the whole pack when one trigger is not implemented', async () => {
+      await build([]);
+      policyEngine.supportsTrigger.mockImplementation(
+        (trigger: string) => trigger !== 'LP_REMOVAL_PERCENTAGE',
+      );
+
+      const res = await app.inject({
+        method: 'POST',
+        url: '/policies/import',
+        payload: { name: 'default', policies: [devSell, lpPull] },
+      });
+
+      expect(res.statusCode).toBe(400);
+      expect(res.json()).toMatchObject({ details: { policy: 'LP pull exit' } });
+      expect(container.db.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /policies/export', () => {
+    it('exports a pack that imports back unchanged', async () => {
+      const stored = [record('p1', lpPull), record('p2', devSell)];
+      await build(stored);
+
+      const exported = await app.inject({ method: 'GET', url: '/policies/export?name=prod' });
+
+      expect(exported.statusCode).toBe(200);
+      expect(container.db.policy.findMany).toHaveBeenCalledWith({
+        where: { isActive: true },
+        orderBy: [{ priority: 'desc' }, { name: 'asc' }],
+      });
+      const pack = exported.json<{ name: string; policies: PolicyPackEntry[] }>();
+      expect(pack.name).toBe('prod');
+      expect(pack.policies.map((p) => p.name)).toEqual(['LP pull exit', 'Dev sell exit']);
+
+      const imported = await app.inject({
+        method: 'POST',
+        url: '/policies/import',
+        payload: pack,
+      });
+
+      expect(imported.json()).toEqual({
+        pack: 'prod',
+        created: [],
+        updated: [],
+        unchanged: ['LP pull exit', 'Dev sell exit'],
+      });
+    });
+
+    it('includes inactive policies when asked', async () => {
+      await build([]);
+
+      await app.inject({ method: 'GET', url: '/policies/export?includeInactive=true' });
+
+      expect(container.db.policy.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: {} }),
+      );
+    });
+  });
+
+  describe('POST /policies/diff', () => {
+    it('compares the pack with the policies loaded in the engine', async () => {
+      const loaded = [
+        record('p1', devSell),
+        record('p2', lpPull),
+        record('p3', { ...devSell, name: 'Old' }),
+      ];
+      await build(loaded);
+
+      const res = await app.inject({
+        method: 'POST',
+        url: '/policies/diff',
+        payload: {
+          name: 'default',
+          policies: [
+            { ...devSell, threshold: 20 },
+            lpPull,
+            { ...lpPull, name: 'New', threshold: 5 },
+          ],
+        },
+      });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.json()).toEqual({
+        pack: 'default',
+        added: ['New'],
+        changed: [
+          {
+            name: 'Dev sell exit',
+            policyId: 'p1',
+            changes: [{ field: 'threshold', from: 30, to: 20 }],
+          },
+        ],
+        unchanged: ['LP pull exit'],
+        notInPack: ['Old'],
+      });
+      expect(container.db.policy.findMany).not.toHaveBeenCalled();
+      expect(container.db.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
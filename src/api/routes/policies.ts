@@ -1,15 +1,232 @@
 import type { FastifyInstance } from 'fastify';
+import { Prisma, type Policy } from '@prisma/client';
 import type { Container } from '../../infra/container.js';
 import type { PolicyEngine } from '../../modules/policy-engine/policy-engine.service.js';
-import { createPolicySchema } from '../schemas.js';
+import type { DryRunService } from '../../modules/dry-run/dry-run.service.js';
+import type {
+  PolicyChange,
+  PolicyDefinition,
+  PolicyPack,
+  PolicyPackDiff,
+  PolicyPackEntry,
+  PolicyPackImportResult,
+} from '../../types/policy.js';
+import {
+  diffPolicies,
+  recordPolicyVersion,
+  toPolicyDefinition,
+} from '../../modules/policy-engine/index.js';
+import {
+  createPolicySchema,
+  dryRunPolicySchema,
+  importPolicyPackSchema,
+  policyChangeSchema,
+  policyPackSchema,
+  updatePolicySchema,
+  type CreatePolicyInput,
+} from '../schemas.js';
 
 export async function policyRoutes(
   app: FastifyInstance,
   container: Container,
   policyEngine: PolicyEngine,
+  dryRun: DryRunService,
 ): Promise<void> {
+  // Scope targets must exist; returns the error reply body, or null when they do
+  async function checkScope(input: CreatePolicyInput): Promise<{ error: string } | null> {
+    if (input.trackedTokenId) {
+      const token = await container.db.trackedToken.findUnique({
+        where: { id: input.trackedTokenId },
+      });
+      if (!token) return { error: 'Tracked token not found' };
+    }
+
+    if (input.walletId) {
+      const wallet = await container.db.wallet.findUnique({ where: { id: input.walletId } });
+      if (!wallet) return { error: 'Wallet not found' };
+    }
+
+    return null;
+  }
+
+  async function setActive(
+    id: string,
+    isActive: boolean,
+    change: PolicyChange,
+  ): Promise<Policy | null> {
+    const record = await container.db.policy.findUnique({ where: { id } });
+    if (!record || record.isActive === isActive) return record;
+
+    const before = toPolicyDefinition(record);
+    const policy = await container.db.$transaction(async (tx) => {
+      const updated = await tx.policy.update({
+        where: { id },
+        data: { isActive, version: { increment: 1 } },
+      });
+      await recordPolicyVersion(tx, updated, before, change);
+      return updated;
+    });
+
+    await policyEngine.reloadPolicy(id);
+
+    container.logger.info(
+      { policyId: id, version: policy.version, isActive, changedBy: change.changedBy },
+      isActive ? 'Policy activated via API' : 'Policy deactivated via API',
+    );
+
+    return policy;
+  }
+
   app.post('/policies', async (request, reply) => {
-    const parsed = createPolicySchema.safeParse(request.body);
+    const parsed = createPolicySchema.and(policyChangeSchema).safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const { changedBy, changeReason, ...input } = parsed.data;
+
+    if (!policyEngine.supportsTrigger(input.trigger)) {
+      return reply.status(400).send({
+        error: `Trigger ${input.trigger} is not implemented`,
+      });
+    }
+
+    const scopeError = await checkScope(input);
+    if (scopeError) {
+      return reply.status(404).send(scopeError);
+    }
+
+    const policy = await container.db.$transaction(async (tx) => {
+      const created = await tx.policy.create({ data: toPolicyData(input) });
+      await recordPolicyVersion(tx, created, null, {
+        changeType: 'CREATED',
+        changedBy,
+        changeReason,
+      });
+      return created;
+    });
+
+    await policyEngine.reloadPolicy(policy.id);
+
+    container.logger.info({ policyId: policy.id }, 'Policy created via API');
+
+    return reply.status(201).send(policy);
+  });
+
+  app.patch('/policies/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const parsed = updatePolicySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const record = await container.db.policy.findUnique({ where: { id } });
+    if (!record) {
+      return reply.status(404).send({ error: 'Policy not found' });
+    }
+
+    // Validate the policy as it would stand after the patch, not the patch alone
+    const { changedBy, changeReason, ...patch } = parsed.data;
+    const before = toPolicyDefinition(record);
+    const merged = { ...before };
+    for (const [field, value] of Object.entries(patch)) {
+      if (value !== undefined) Object.assign(merged, { [field]: value ?? undefined });
+    }
+
+    const validated = createPolicySchema.safeParse(merged);
+    if (!validated.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validated.error.format(),
+      });
+    }
+
+    const input = validated.data;
+
+    if (!policyEngine.supportsTrigger(input.trigger)) {
+      return reply.status(400).send({
+        error: `Trigger ${input.trigger} is not implemented`,
+      });
+    }
+
+    const after = { ...toDraftPolicy(input), id, isActive: record.isActive };
+    if (diffPolicies(before, after).length === 0) {
+      return reply.send(record);
+    }
+
+    const scopeError = await checkScope(input);
+    if (scopeError) {
+      return reply.status(404).send(scopeError);
+    }
+
+    const policy = await container.db.$transaction(async (tx) => {
+      const updated = await tx.policy.update({
+        where: { id },
+        data: { ...toPolicyData(input), version: { increment: 1 } },
+      });
+      await recordPolicyVersion(tx, updated, before, {
+        changeType: 'UPDATED',
+        changedBy,
+        changeReason,
+      });
+      return updated;
+    });
+
+    await policyEngine.reloadPolicy(id);
+
+    container.logger.info(
+      { policyId: id, version: policy.version, changedBy },
+      'Policy updated via API',
+    );
+
+    return reply.send(policy);
+  });
+
+  app.post('/policies/:id/activate', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const parsed = policyChangeSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const policy = await setActive(id, true, { changeType: 'ACTIVATED', ...parsed.data });
+    if (!policy) {
+      return reply.status(404).send({ error: 'Policy not found' });
+    }
+
+    return reply.send(policy);
+  });
+
+  app.post('/policies/:id/deactivate', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const parsed = policyChangeSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const policy = await setActive(id, false, { changeType: 'DEACTIVATED', ...parsed.data });
+    if (!policy) {
+      return reply.status(404).send({ error: 'Policy not found' });
+    }
+
+    return reply.send(policy);
+  });
+
+  // Upserts a pack by policy name in one transaction: every entry applies, or none do
+  app.post('/policies/import', async (request, reply) => {
+    const parsed = importPolicyPackSchema.safeParse(request.body);
     if (!parsed.success) {
       return reply.status(400).send({
         error: 'Validation failed',
@@ -18,58 +235,288 @@ export async function policyRoutes(
     }
 
     const { db } = container;
-    const input = parsed.data;
+    const { name: pack, policies, changedBy } = parsed.data;
+    const changeReason = parsed.data.changeReason ?? `Imported policy pack "${pack}"`;
+
+    for (const input of policies) {
+      if (!policyEngine.supportsTrigger(input.trigger)) {
+        return reply.status(400).send({
+          error: `Trigger ${input.trigger} is not implemented`,
+          details: { policy: input.name },
+        });
+      }
+
+      const scopeError = await checkScope(input);
+      if (scopeError) {
+        return reply.status(404).send({ ...scopeError, details: { policy: input.name } });
+      }
+    }
+
+    const existing = await db.policy.findMany({
+      where: { name: { in: policies.map((p) => p.name) } },
+    });
+    const byName = new Map<string, Policy>();
+    for (const record of existing) {
+      if (byName.has(record.name)) {
+        return reply.status(409).send({
+          error: `Policy name "${record.name}" matches more than one policy`,
+        });
+      }
+      byName.set(record.name, record);
+    }
+
+    const result: PolicyPackImportResult = { pack, created: [], updated: [], unchanged: [] };
+    const changed: string[] = [];
+
+    await db.$transaction(
+      async (tx) => {
+        for (const input of policies) {
+          const record = byName.get(input.name);
 
-    const policy = await db.policy.create({
-      data: {
-        name: input.name,
-        trigger: input.trigger,
-        threshold: input.threshold,
-        windowBlocks: input.windowBlocks ?? null,
-        windowSeconds: input.windowSeconds ?? null,
-        action: input.action,
-        actionParams: input.actionParams ?? undefined,
-        priority: input.priority,
-        trackedTokenId: input.trackedTokenId ?? null,
+          if (!record) {
+            const created = await tx.policy.create({ data: toPolicyData(input) });
+            await recordPolicyVersion(tx, created, null, {
+              changeType: 'CREATED',
+              changedBy,
+              changeReason,
+            });
+            result.created.push(input.name);
+            changed.push(created.id);
+            continue;
+          }
+
+          // Importing a pack also re-activates the policies it names
+          const before = toPolicyDefinition(record);
+          if (diffPolicies(before, { ...toDraftPolicy(input), id: record.id }).length === 0) {
+            result.unchanged.push(input.name);
+            continue;
+          }
+
+          const updated = await tx.policy.update({
+            where: { id: record.id },
+            data: { ...toPolicyData(input), isActive: true, version: { increment: 1 } },
+          });
+          await recordPolicyVersion(tx, updated, before, {
+            changeType: 'UPDATED',
+            changedBy,
+            changeReason,
+          });
+          result.updated.push(input.name);
+          changed.push(record.id);
+        }
+      },
+      { timeout: 30_000 },
+    );
+
+    for (const id of changed) {
+      await policyEngine.reloadPolicy(id);
+    }
+
+    container.logger.info(
+      {
+        pack,
+        created: result.created.length,
+        updated: result.updated.length,
+        unchanged: result.unchanged.length,
+        changedBy,
       },
+      'Policy pack imported via API',
+    );
+
+    return reply.send(result);
+  });
+
+  app.get('/policies/export', async (request, reply) => {
+    const { name, includeInactive } = request.query as {
+      name?: string;
+      includeInactive?: string;
+    };
+
+    const records = await container.db.policy.findMany({
+      where: includeInactive === 'true' ? {} : { isActive: true },
+      orderBy: [{ priority: 'desc' }, { name: 'asc' }],
     });
 
-    await policyEngine.addPolicy({
-      id: policy.id,
-      name: policy.name,
-      trigger: policy.trigger as typeof input.trigger,
-      threshold: policy.threshold,
-      windowBlocks: policy.windowBlocks ?? undefined,
-      windowSeconds: policy.windowSeconds ?? undefined,
-      action: policy.action as typeof input.action,
-      actionParams: (policy.actionParams as typeof input.actionParams) ?? undefined,
-      priority: policy.priority,
-      isActive: policy.isActive,
-      trackedTokenId: policy.trackedTokenId ?? undefined,
+    const pack: PolicyPack = {
+      name: name ?? 'export',
+      policies: records.map(toPackEntry),
+    };
+
+    return reply.send(pack);
+  });
+
+  // What importing the pack would change in the running engine, without applying it
+  app.post('/policies/diff', async (request, reply) => {
+    const parsed = policyPackSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const { name: pack, policies } = parsed.data;
+    const loaded = new Map(policyEngine.getPolicies().map((p) => [p.name, p]));
+    const diff: PolicyPackDiff = { pack, added: [], changed: [], unchanged: [], notInPack: [] };
+
+    for (const input of policies) {
+      const current = loaded.get(input.name);
+      if (!current) {
+        diff.added.push(input.name);
+        continue;
+      }
+
+      const changes = diffPolicies(current, { ...toDraftPolicy(input), id: current.id });
+      if (changes.length === 0) {
+        diff.unchanged.push(input.name);
+      } else {
+        diff.changed.push({ name: input.name, policyId: current.id, changes });
+      }
+    }
+
+    const packNames = new Set(policies.map((p) => p.name));
+    diff.notInPack = [...loaded.keys()].filter((name) => !packNames.has(name));
+
+    return reply.send(diff);
+  });
+
+  app.get('/policies/:id/history', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const policy = await container.db.policy.findUnique({ where: { id } });
+    if (!policy) {
+      return reply.status(404).send({ error: 'Policy not found' });
+    }
+
+    const versions = await container.db.policyVersion.findMany({
+      where: { policyId: id },
+      orderBy: { version: 'desc' },
+      include: { _count: { select: { executions: true } } },
     });
 
-    container.logger.info({ policyId: policy.id }, 'Policy created via API');
+    return reply.send({ policyId: id, currentVersion: policy.version, versions });
+  });
 
-    return reply.status(201).send(policy);
+  // Replays the event log through a stored or draft policy without executing anything
+  app.post('/policies/dry-run', async (request, reply) => {
+    const parsed = dryRunPolicySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const input = parsed.data;
+    let policy: PolicyDefinition;
+
+    if (input.policyId) {
+      const record = await container.db.policy.findUnique({ where: { id: input.policyId } });
+      if (!record) {
+        return reply.status(404).send({ error: 'Policy not found' });
+      }
+      policy = toPolicyDefinition(record);
+    } else {
+      policy = toDraftPolicy(input.policy!);
+    }
+
+    if (!policyEngine.supportsTrigger(policy.trigger)) {
+      return reply.status(400).send({
+        error: `Trigger ${policy.trigger} is not implemented`,
+      });
+    }
+
+    const report = await dryRun.run(policy, {
+      from: input.from,
+      to: input.to ?? new Date(),
+      mintAddress: input.mintAddress,
+    });
+
+    return reply.send(report);
   });
 
   app.get('/policies', async (_request, reply) => {
+    // Firing state shows when each policy last fired for a position, and why
     const policies = await container.db.policy.findMany({
       orderBy: { priority: 'desc' },
+      include: { firingStates: { orderBy: { lastFiredAt: 'desc' } } },
     });
     return reply.send(policies);
   });
 
+  // Soft delete: the policy and its history stay for the executions that reference them
   app.delete('/policies/:id', async (request, reply) => {
     const { id } = request.params as { id: string };
 
-    await container.db.policy.update({
-      where: { id },
-      data: { isActive: false },
-    });
-
-    await policyEngine.removePolicy(id);
+    const policy = await setActive(id, false, { changeType: 'DEACTIVATED', changedBy: 'api' });
+    if (!policy) {
+      return reply.status(404).send({ error: 'Policy not found' });
+    }
 
     return reply.status(204).send();
   });
 }
+
+/** A policy that has not been saved, with the same defaults POST /policies applies. */
+export function toDraftPolicy(input: CreatePolicyInput): PolicyDefinition {
+  return {
+    id: 'draft',
+    name: input.name,
+    trigger: input.trigger,
+    threshold: input.threshold ?? 1,
+    windowBlocks: input.windowBlocks,
+    windowSeconds: input.windowSeconds,
+    action: input.action,
+    actionParams: input.actionParams,
+    priority: input.priority,
+    isActive: true,
+    trackedTokenId: input.trackedTokenId,
+    walletId: input.walletId,
+    conditions: input.conditions,
+    cooldownSeconds: input.cooldownSeconds,
+    rearmBelow: input.rearmBelow,
+    mintAddress: input.mintAddress,
+  };
+}
+
+/** Column values for a validated policy; absent optional fields are stored as null. */
+function toPolicyData(input: CreatePolicyInput): Prisma.PolicyUncheckedCreateInput {
+  return {
+    name: input.name,
+    trigger: input.trigger,
+    // COMPOSITE and ladder policies carry thresholds in their conditions / rungs
+    threshold: input.threshold ?? 1,
+    windowBlocks: input.windowBlocks ?? null,
+    windowSeconds: input.windowSeconds ?? null,
+    action: input.action,
+    actionParams: input.actionParams ?? Prisma.DbNull,
+    priority: input.priority,
+    trackedTokenId: input.trackedTokenId ?? null,
+    walletId: input.walletId ?? null,
+    conditions: (input.conditions as Prisma.InputJsonValue | undefined) ?? Prisma.DbNull,
+    cooldownSeconds: input.cooldownSeconds ?? null,
+    rearmBelow: input.rearmBelow ?? null,
+    mintAddress: input.mintAddress ?? null,
+  };
+}
+
+/** A stored policy in the shape POST /policies and policy packs accept. */
+function toPackEntry(record: Policy): PolicyPackEntry {
+  const policy = toPolicyDefinition(record);
+  return {
+    name: policy.name,
+    trigger: policy.trigger,
+    threshold: policy.threshold,
+    windowBlocks: policy.windowBlocks,
+    windowSeconds: policy.windowSeconds,
+    action: policy.action,
+    actionParams: policy.actionParams,
+    priority: policy.priority,
+    trackedTokenId: policy.trackedTokenId,
+    walletId: policy.walletId,
+    conditions: policy.conditions,
+    cooldownSeconds: policy.cooldownSeconds,
+    rearmBelow: policy.rearmBelow,
+    mintAddress: policy.mintAddress,
+  };
+}
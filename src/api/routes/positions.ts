@@ -8,6 +8,9 @@ import type { FastifyInstance } from 'fastify';
 import type { Container } from '../../infra/container.js';
 import type { PumpFunService } from '../../modules/pumpfun/pumpfun.service.js';
 import type { StateEngine } from '../../modules/state-engine/state-engine.service.js';
+import type { PolicyEngine } from '../../modules/policy-engine/policy-engine.service.js';
+import type { HaltService } from '../../modules/halt/halt.service.js';
+import { toPositionState } from '../../modules/state-engine/index.js';
 import { createPositionSchema } from '../schemas.js';
 
 export async function positionRoutes(
@@ -15,6 +18,8 @@ export async function positionRoutes(
   container: Container,
   pumpfun: PumpFunService,
   stateEngine: StateEngine,
+  policyEngine: PolicyEngine,
+  halts: HaltService,
 ): Promise<void> {
   app.post('/positions', async (request, reply) => {
     const parsed = createPositionSchema.safeParse(request.body);
@@ -36,6 +41,14 @@ export async function positionRoutes(
       return reply.status(404).send({ error: 'Wallet not found' });
     }
 
+    const halt = halts.findBlockingHalt({
+      mintAddress: input.mintAddress,
+      walletId: input.walletId,
+    });
+    if (halt) {
+      return reply.status(409).send({ error: 'Trading halted', halt });
+    }
+
     // Find or create tracked token
     let trackedToken = await db.trackedToken.findFirst({
       where: { mintAddress: input.mintAddress, walletId: input.walletId },
@@ -217,6 +230,7 @@ export async function positionRoutes(
         trackedToken: true,
         wallet: true,
         executions: { orderBy: { createdAt: 'desc' } },
+        adjustments: { orderBy: { createdAt: 'desc' } },
       },
     });
 
@@ -224,6 +238,29 @@ export async function positionRoutes(
       return reply.status(404).send({ error: 'Position not found' });
     }
 
-    return reply.send(position);
+    return reply.send({
+      ...position,
+      adjustments: position.adjustments.map((a) => ({ ...a, slot: a.slot?.toString() ?? null })),
+    });
+  });
+
+  app.get('/positions/:id/policies', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    let position = stateEngine.getPosition(id);
+    if (!position) {
+      const record = await container.db.position.findUnique({ where: { id } });
+      if (!record) {
+        return reply.status(404).send({ error: 'Position not found' });
+      }
+      position = toPositionState(record);
+    }
+
+    const applicable = policyEngine.getApplicablePolicies(position);
+
+    return reply.send({
+      positionId: position.id,
+      policies: applicable.map(({ policy, scope }) => ({ ...policy, scope })),
+    });
   });
 }
@@ -0,0 +1,65 @@
+import type { FastifyInstance } from 'fastify';
+import type { Container } from '../../infra/container.js';
+import type { PolicyEngine } from '../../modules/policy-engine/policy-engine.service.js';
+import type { ReplayEngine } from '../../modules/replay-engine/replay-engine.service.js';
+import { toPolicyDefinition } from '../../modules/policy-engine/index.js';
+import type { PolicyDefinition } from '../../types/policy.js';
+import { MAX_PACED_REPLAY_MS, replaySchema } from '../schemas.js';
+import { toDraftPolicy } from './policies.js';
+
+export async function replayRoutes(
+  app: FastifyInstance,
+  container: Container,
+  replay: ReplayEngine,
+  policyEngine: PolicyEngine,
+): Promise<void> {
+  // Replays a time or slot range of the event log against the active policies,
+  // chosen stored policies, or drafts; nothing is executed or persisted
+  app.post('/replay', async (request, reply) => {
+    const parsed = replaySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parsed.error.format(),
+      });
+    }
+
+    const input = parsed.data;
+    let policies: PolicyDefinition[] | undefined;
+
+    if (input.policyIds) {
+      const records = await container.db.policy.findMany({
+        where: { id: { in: input.policyIds } },
+      });
+      const missing = input.policyIds.filter((id) => !records.some((r) => r.id === id));
+      if (missing.length > 0) {
+        return reply.status(404).send({ error: 'Policy not found', details: { missing } });
+      }
+      policies = records.map((record) => toPolicyDefinition(record));
+    } else if (input.policies) {
+      // Distinct ids keep the drafts' firing state apart
+      policies = input.policies.map((p, i) => ({ ...toDraftPolicy(p), id: `draft-${i + 1}` }));
+    }
+
+    const unsupported = policies?.find((p) => !policyEngine.supportsTrigger(p.trigger));
+    if (unsupported) {
+      return reply.status(400).send({
+        error: `Trigger ${unsupported.trigger} is not implemented`,
+      });
+    }
+
+    const report = await replay.run({
+      from: input.from,
+      to: input.from ? (input.to ?? new Date()) : undefined,
+      fromSlot: input.fromSlot,
+      toSlot: input.toSlot,
+      mintAddress: input.mintAddress,
+      policies,
+      speed: input.speed,
+      maxPacedMs: MAX_PACED_REPLAY_MS,
+      tickIntervalMs: input.tickIntervalMs,
+    });
+
+    return reply.send(report);
+  });
+}
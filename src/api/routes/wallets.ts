@@ -73,6 +73,8 @@ export async function walletRoutes(
       },
     });
 
+    void eventIngestion.trackMint(token.mintAddress);
+
     container.logger.info(
       { tokenId: token.id, mint: token.mintAddress },
       'Token tracking registered',
@@ -1,17 +1,67 @@
 import { z } from 'zod';
+import type { PolicyCondition } from '../types/policy.js';
 
-export const createPolicySchema = z.object({
-  name: z.string().min(1).max(255),
-  trigger: z.enum([
-    'DEV_SELL_PERCENTAGE',
-    'DEV_SELL_COUNT',
-    'LP_REMOVAL_PERCENTAGE',
-    'LP_REMOVAL_TOTAL',
-    'SUPPLY_INCREASE',
-    'PRICE_DROP_PERCENTAGE',
-    'WALLET_OUTFLOW',
+const mintAddressSchema = z
+  .string()
+  .min(32)
+  .max(44)
+  .regex(/^[1-9A-HJ-NP-Za-km-z]+$/, 'Invalid base58 address');
+
+const primitiveTriggerSchema = z.enum([
+  'DEV_SELL_PERCENTAGE',
+  'DEV_SELL_COUNT',
+  'LP_REMOVAL_PERCENTAGE',
+  'LP_REMOVAL_TOTAL',
+  'SUPPLY_INCREASE',
+  'PRICE_DROP_PERCENTAGE',
+  'WALLET_OUTFLOW',
+]);
+
+export const policyConditionSchema: z.ZodType<PolicyCondition> = z.lazy(() =>
+  z.union([
+    z
+      .object({
+        trigger: primitiveTriggerSchema,
+        threshold: z.number().positive(),
+        windowBlocks: z.number().int().positive().optional(),
+        windowSeconds: z.number().int().positive().optional(),
+        mintAddress: mintAddressSchema.optional(),
+      })
+      .strict()
+      .refine((c) => c.mintAddress === undefined || c.trigger === 'WALLET_OUTFLOW', {
+        message: 'mintAddress is only allowed on WALLET_OUTFLOW',
+        path: ['mintAddress'],
+      }),
+    z.object({ all: z.array(policyConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(policyConditionSchema).min(1) }).strict(),
+    z.object({ not: policyConditionSchema }).strict(),
   ]),
-  threshold: z.number().positive(),
+);
+
+const positionTriggerSchema = z.enum([
+  'TRAILING_STOP',
+  'TAKE_PROFIT',
+  'TAKE_PROFIT_LADDER',
+  'MAX_HOLD_TIME',
+  'TIME_STOP',
+]);
+
+// Thresholds of COMPOSITE and TAKE_PROFIT_LADDER live in their conditions and rungs
+const THRESHOLDLESS_TRIGGERS = ['COMPOSITE', 'TAKE_PROFIT_LADDER'];
+
+// Paced replays run inside the request, so they must finish well before clients time out
+export const MAX_PACED_REPLAY_MS = 300_000;
+const APPROX_SLOT_MS = 400;
+
+const ladderRungSchema = z.object({
+  multiple: z.number().gt(1),
+  sellPercentage: z.number().min(1).max(100),
+});
+
+const policyFieldsSchema = z.object({
+  name: z.string().min(1).max(255),
+  trigger: z.union([primitiveTriggerSchema, positionTriggerSchema, z.literal('COMPOSITE')]),
+  threshold: z.number().nonnegative().optional(),
   windowBlocks: z.number().int().positive().optional(),
   windowSeconds: z.number().int().positive().optional(),
   action: z.enum(['EXIT_POSITION', 'PARTIAL_SELL', 'HALT_STRATEGY', 'ALERT_ONLY']),
@@ -20,12 +70,125 @@ export const createPolicySchema = z.object({
       sellPercentage: z.number().min(1).max(100).optional(),
       maxSlippageBps: z.number().int().min(1).max(10000).optional(),
       priorityFeeLamports: z.number().int().min(0).optional(),
+      haltScope: z.enum(['TOKEN', 'WALLET', 'GLOBAL']).optional(),
+      alertSeverity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+      ladder: z
+        .array(ladderRungSchema)
+        .min(1)
+        .refine((rungs) => rungs.every((r, i) => i === 0 || r.multiple > rungs[i - 1]!.multiple), {
+          message: 'Ladder rungs must be in ascending order of multiple',
+        })
+        .refine((rungs) => rungs.reduce((sum, r) => sum + r.sellPercentage, 0) <= 100, {
+          message: 'Ladder rungs cannot sell more than 100% of the position',
+        })
+        .optional(),
     })
     .optional(),
   priority: z.number().int().default(0),
   trackedTokenId: z.string().uuid().optional(),
+  walletId: z.string().uuid().optional(),
+  conditions: policyConditionSchema.optional(),
+  cooldownSeconds: z.number().int().positive().optional(),
+  rearmBelow: z.number().nonnegative().optional(),
+  mintAddress: mintAddressSchema.optional(),
+});
+
+export const createPolicySchema = policyFieldsSchema
+  .refine((p) => !(p.trackedTokenId && p.walletId), {
+    message: 'Scope a policy to either trackedTokenId or walletId, not both',
+    path: ['walletId'],
+  })
+  .refine((p) => p.trigger !== 'COMPOSITE' || p.conditions !== undefined, {
+    message: 'COMPOSITE policies require conditions',
+    path: ['conditions'],
+  })
+  .refine((p) => p.trigger === 'COMPOSITE' || p.conditions === undefined, {
+    message: 'conditions are only allowed on COMPOSITE policies',
+    path: ['conditions'],
+  })
+  .refine((p) => THRESHOLDLESS_TRIGGERS.includes(p.trigger) || p.threshold !== undefined, {
+    message: 'threshold is required',
+    path: ['threshold'],
+  })
+  // A TIME_STOP threshold of 0 means "exit unless the position is up at all"
+  .refine((p) => p.trigger === 'TIME_STOP' || p.threshold === undefined || p.threshold > 0, {
+    message: 'threshold must be positive',
+    path: ['threshold'],
+  })
+  .refine((p) => p.trigger !== 'TIME_STOP' || p.windowSeconds !== undefined, {
+    message: 'TIME_STOP policies require windowSeconds (the hold deadline)',
+    path: ['windowSeconds'],
+  })
+  .refine((p) => (p.trigger === 'TAKE_PROFIT_LADDER') === (p.actionParams?.ladder !== undefined), {
+    message: 'actionParams.ladder is required for TAKE_PROFIT_LADDER and only allowed there',
+    path: ['actionParams', 'ladder'],
+  })
+  .refine((p) => p.trigger !== 'TAKE_PROFIT_LADDER' || p.action === 'PARTIAL_SELL', {
+    message: 'TAKE_PROFIT_LADDER policies sell through PARTIAL_SELL',
+    path: ['action'],
+  })
+  // Position exits already fire once per position
+  .refine(
+    (p) =>
+      !positionTriggerSchema.safeParse(p.trigger).success ||
+      (p.cooldownSeconds === undefined && p.rearmBelow === undefined),
+    {
+      message: 'cooldownSeconds and rearmBelow do not apply to position exit triggers',
+      path: ['cooldownSeconds'],
+    },
+  )
+  .refine(
+    (p) => p.rearmBelow === undefined || primitiveTriggerSchema.safeParse(p.trigger).success,
+    {
+      message: 'rearmBelow is only supported on single-metric triggers',
+      path: ['rearmBelow'],
+    },
+  )
+  .refine((p) => p.rearmBelow === undefined || p.rearmBelow < (p.threshold ?? 0), {
+    message: 'rearmBelow must be below threshold',
+    path: ['rearmBelow'],
+  })
+  .refine((p) => p.mintAddress === undefined || p.trigger === 'WALLET_OUTFLOW', {
+    message: 'mintAddress is only allowed on WALLET_OUTFLOW',
+    path: ['mintAddress'],
+  });
+
+// Who made a policy change and why; recorded on every version
+export const policyChangeSchema = z.object({
+  changedBy: z.string().min(1).max(255).default('api'),
+  changeReason: z.string().min(1).max(500).optional(),
+});
+
+// Fields sent as null are cleared; omitted fields keep their current value
+export const updatePolicySchema = policyFieldsSchema
+  .extend({
+    windowBlocks: policyFieldsSchema.shape.windowBlocks.unwrap().nullable(),
+    windowSeconds: policyFieldsSchema.shape.windowSeconds.unwrap().nullable(),
+    actionParams: policyFieldsSchema.shape.actionParams.unwrap().nullable(),
+    trackedTokenId: policyFieldsSchema.shape.trackedTokenId.unwrap().nullable(),
+    walletId: policyFieldsSchema.shape.walletId.unwrap().nullable(),
+    conditions: policyConditionSchema.nullable(),
+    cooldownSeconds: policyFieldsSchema.shape.cooldownSeconds.unwrap().nullable(),
+    rearmBelow: policyFieldsSchema.shape.rearmBelow.unwrap().nullable(),
+    mintAddress: policyFieldsSchema.shape.mintAddress.unwrap().nullable(),
+  })
+  .partial()
+  .merge(policyChangeSchema);
+
+// Policies are matched by name, so names must be unique within a pack
+export const policyPackSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  policies: z
+    .array(createPolicySchema)
+    .min(1)
+    .refine((policies) => new Set(policies.map((p) => p.name)).size === policies.length, {
+      message: 'Policy names must be unique within a pack',
+    }),
 });
 
+export const importPolicyPackSchema = policyPackSchema.merge(policyChangeSchema);
+
 export const createWalletSchema = z.object({
   address: z
     .string()
@@ -52,6 +215,38 @@ export const addTrackedTokenSchema = z.object({
     .optional(),
 });
 
+// Indexers send many more fields; only these are read, the rest are stripped
+const enhancedTransactionSchema = z.object({
+  signature: z.string().min(1),
+  slot: z.number().int().nonnegative(),
+  timestamp: z.number().int().optional(),
+  type: z.string().optional(),
+  fee: z.number().int().nonnegative().optional(),
+  feePayer: z.string().optional(),
+  transactionError: z.unknown().optional(),
+  accountData: z
+    .array(
+      z.object({
+        account: z.string(),
+        nativeBalanceChange: z.number().int().optional(),
+        tokenBalanceChanges: z
+          .array(
+            z.object({
+              userAccount: z.string(),
+              mint: z.string(),
+              rawTokenAmount: z.object({ tokenAmount: z.string().regex(/^-?\d+$/) }),
+            }),
+          )
+          .optional(),
+      }),
+    )
+    .optional(),
+});
+
+export const ingestWebhookSchema = z
+  .union([enhancedTransactionSchema, z.array(enhancedTransactionSchema).max(1000)])
+  .transform((payload) => (Array.isArray(payload) ? payload : [payload]));
+
 export const createPositionSchema = z.object({
   walletId: z.string().uuid(),
   mintAddress: z
@@ -64,7 +259,119 @@ export const createPositionSchema = z.object({
   priorityFeeLamports: z.number().int().min(0).default(50000),
 });
 
+export const createHaltSchema = z
+  .object({
+    scope: z.enum(['TOKEN', 'WALLET', 'GLOBAL']),
+    mintAddress: z
+      .string()
+      .min(32)
+      .max(44)
+      .regex(/^[1-9A-HJ-NP-Za-km-z]+$/, 'Invalid base58 address')
+      .optional(),
+    walletId: z.string().uuid().optional(),
+    reason: z.string().min(1).max(500),
+    createdBy: z.string().min(1).max(255),
+  })
+  .refine((h) => h.scope !== 'TOKEN' || h.mintAddress !== undefined, {
+    message: 'TOKEN halts require mintAddress',
+    path: ['mintAddress'],
+  })
+  .refine((h) => h.scope !== 'WALLET' || h.walletId !== undefined, {
+    message: 'WALLET halts require walletId',
+    path: ['walletId'],
+  });
+
+export const liftHaltSchema = z.object({
+  liftedBy: z.string().min(1).max(255),
+  reason: z.string().min(1).max(500),
+});
+
+export const dryRunPolicySchema = z
+  .object({
+    policyId: z.string().uuid().optional(),
+    policy: createPolicySchema.optional(),
+    from: z.coerce.date(),
+    to: z.coerce.date().optional(),
+    mintAddress: z
+      .string()
+      .min(32)
+      .max(44)
+      .regex(/^[1-9A-HJ-NP-Za-km-z]+$/, 'Invalid base58 address')
+      .optional(),
+  })
+  .refine((r) => (r.policyId === undefined) !== (r.policy === undefined), {
+    message: 'Provide either policyId or policy',
+    path: ['policyId'],
+  })
+  .refine((r) => r.from < (r.to ?? new Date()), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export const replaySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    fromSlot: z.number().int().nonnegative().optional(),
+    toSlot: z.number().int().nonnegative().optional(),
+    mintAddress: z
+      .string()
+      .min(32)
+      .max(44)
+      .regex(/^[1-9A-HJ-NP-Za-km-z]+$/, 'Invalid base58 address')
+      .optional(),
+    policyIds: z.array(z.string().uuid()).min(1).optional(),
+    policies: z.array(createPolicySchema).min(1).optional(),
+    speed: z.number().min(0).max(1000).default(0),
+    tickIntervalMs: z.number().int().min(1000).optional(),
+  })
+  .refine(
+    (r) =>
+      r.from !== undefined
+        ? r.fromSlot === undefined && r.toSlot === undefined
+        : r.fromSlot !== undefined && r.to === undefined,
+    { message: 'Give the range as from/to or as fromSlot/toSlot', path: ['from'] },
+  )
+  .refine((r) => r.from === undefined || r.from < (r.to ?? new Date()), {
+    message: 'from must be before to',
+    path: ['from'],
+  })
+  .refine((r) => r.toSlot === undefined || r.fromSlot! <= r.toSlot, {
+    message: 'fromSlot must not be after toSlot',
+    path: ['fromSlot'],
+  })
+  .refine((r) => r.policyIds === undefined || r.policies === undefined, {
+    message: 'Provide policyIds or policies, not both',
+    path: ['policies'],
+  })
+  .refine((r) => r.speed === 0 || pacedReplayMs(r) <= MAX_PACED_REPLAY_MS, {
+    message: `A paced replay may take at most ${MAX_PACED_REPLAY_MS / 60_000} minutes; raise speed or shorten the range`,
+    path: ['speed'],
+  });
+
+/** Wall-clock length of a replay at its speed; slot ranges are estimated, open ones unbounded. */
+function pacedReplayMs(r: {
+  from?: Date;
+  to?: Date;
+  fromSlot?: number;
+  toSlot?: number;
+  speed: number;
+}): number {
+  if (r.from) return ((r.to ?? new Date()).getTime() - r.from.getTime()) / r.speed;
+  if (r.toSlot === undefined) return Infinity;
+  return ((r.toSlot - r.fromSlot!) * APPROX_SLOT_MS) / r.speed;
+}
+
 export type CreatePolicyInput = z.infer<typeof createPolicySchema>;
+export type UpdatePolicyInput = z.infer<typeof updatePolicySchema>;
+export type PolicyChangeInput = z.infer<typeof policyChangeSchema>;
+export type PolicyPackInput = z.infer<typeof policyPackSchema>;
+export type ImportPolicyPackInput = z.infer<typeof importPolicyPackSchema>;
 export type CreateWalletInput = z.infer<typeof createWalletSchema>;
 export type AddTrackedTokenInput = z.infer<typeof addTrackedTokenSchema>;
 export type CreatePositionInput = z.infer<typeof createPositionSchema>;
+export type CreateHaltInput = z.infer<typeof createHaltSchema>;
+export type LiftHaltInput = z.infer<typeof liftHaltSchema>;
+export type DryRunPolicyInput = z.infer<typeof dryRunPolicySchema>;
+export type IngestWebhookInput = z.infer<typeof ingestWebhookSchema>;
+export type ReplayInput = z.infer<typeof replaySchema>;
@@ -5,12 +5,20 @@ import type { PolicyEngine } from '../modules/policy-engine/policy-engine.servic
 import type { EventIngestionService } from '../modules/event-ingestion/event-ingestion.service.js';
 import type { PumpFunService } from '../modules/pumpfun/pumpfun.service.js';
 import type { StateEngine } from '../modules/state-engine/state-engine.service.js';
+import type { HaltService } from '../modules/halt/halt.service.js';
+import type { DryRunService } from '../modules/dry-run/dry-run.service.js';
+import type { ReplayEngine } from '../modules/replay-engine/replay-engine.service.js';
+import type { EventBus } from '../services/event-bus.js';
+import type { EventPipeline } from '../services/event-pipeline.js';
 import { healthRoutes } from './routes/health.js';
 import { policyRoutes } from './routes/policies.js';
 import { positionRoutes } from './routes/positions.js';
 import { executionRoutes } from './routes/executions.js';
 import { walletRoutes } from './routes/wallets.js';
+import { haltRoutes } from './routes/halts.js';
 import { metricsRoutes } from './routes/metrics.js';
+import { ingestRoutes } from './routes/ingest.js';
+import { replayRoutes } from './routes/replay.js';
 import type { MetricsDeps } from './routes/metrics.js';
 
 export interface ServerDeps {
@@ -19,11 +27,17 @@ export interface ServerDeps {
   eventIngestion: EventIngestionService;
   pumpfun: PumpFunService;
   stateEngine: StateEngine;
+  halts: HaltService;
+  dryRun: DryRunService;
+  replay: ReplayEngine;
+  eventBus: EventBus;
+  eventPipeline: EventPipeline;
+  ingestWebhookToken?: string;
   metrics?: MetricsDeps;
 }
 
 export async function createServer(deps: ServerDeps): Promise<FastifyInstance> {
-  const { container, policyEngine, eventIngestion, pumpfun, stateEngine } = deps;
+  const { container, policyEngine, eventIngestion, pumpfun, stateEngine, halts, dryRun } = deps;
 
   const app = Fastify({
     logger: false, // We use our own Pino instance
@@ -68,14 +82,17 @@ export async function createServer(deps: ServerDeps): Promise<FastifyInstance> {
   });
 
   // Register routes
-  await healthRoutes(app, container);
-  await policyRoutes(app, container, policyEngine);
-  await positionRoutes(app, container, pumpfun, stateEngine);
+  await healthRoutes(app, container, eventIngestion);
+  await policyRoutes(app, container, policyEngine, dryRun);
+  await positionRoutes(app, container, pumpfun, stateEngine, policyEngine, halts);
   await executionRoutes(app, container);
   await walletRoutes(app, container, eventIngestion);
+  await haltRoutes(app, container, halts);
+  await ingestRoutes(app, container, eventIngestion, deps.ingestWebhookToken);
+  await replayRoutes(app, container, deps.replay, policyEngine);
 
-  // Metrics (intelligence layer — optional deps)
-  await metricsRoutes(app, container, deps.metrics ?? {
+  // Metrics (event delivery; intelligence layer — optional deps)
+  await metricsRoutes(app, container, deps.eventBus, deps.eventPipeline, deps.metrics ?? {
     deployerScores: null,
     patternDb: null,
     swarm: null,
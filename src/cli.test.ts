@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli } from './cli.js';
+
+const API = 'http://api.test';
+const policy = {
+  name: 'Dev sell exit',
+  trigger: 'DEV_SELL_PERCENTAGE',
+  threshold: 30,
+  action: 'EXIT_POSITION',
+};
+
+describe('policies CLI', () => {
+  let dir: string;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let stdout: ReturnType<typeof vi.spyOn>;
+
+  function respond(status: number, body: unknown): void {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(body), { status }));
+  }
+
+  function sentBody(): unknown {
+    const init = fetchMock.mock.calls[0]![1] as RequestInit;
+    return JSON.parse(init.body as string);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'policies-cli-'));
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    stdout.mockRestore();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('imports a bare array of policies as a pack named after the file', async () => {
+    const file = join(dir, 'rug-guards.json');
+    await writeFile(file, JSON.stringify([policy]));
+    respond(200, { pack: 'rug-guards', created: ['Dev sell exit'], updated: [], unchanged: [] });
+
+    await runCli([
+      'import',
+      file,
+      '--api',
+      `${API}/`,
+      '--changed-by',
+      'ops',
+      '--reason',
+      'Tighten',
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${API}/policies/import`,
+      expect.objectContaining({ method: 'POST' }),
+    );
+    expect(sentBody()).toEqual({
+      name: 'rug-guards',
+      policies: [policy],
+      changedBy: 'ops',
+      changeReason: 'Tighten',
+    });
+    expect(stdout).toHaveBeenCalledWith(
+      expect.stringContaining('"created": [\n    "Dev sell exit"'),
+    );
+  });
+
+  it('diffs a pack object, renaming it when --name is given', async () => {
+    const file = join(dir, 'pack.json');
+    await writeFile(file, JSON.stringify({ name: 'default', policies: [policy] }));
+    respond(200, { pack: 'staging', added: [], changed: [], unchanged: [], notInPack: [] });
+
+    await runCli(['diff', file, '--api', API, '--name', 'staging']);
+
+    expect(fetchMock.mock.calls[0]![0]).toBe(`${API}/policies/diff`);
+    expect(sentBody()).toEqual({ name: 'staging', policies: [policy] });
+  });
+
+  it('writes an export to the given file', async () => {
+    const file = join(dir, 'backup.json');
+    const pack = { name: 'prod', policies: [policy] };
+    respond(200, pack);
+
+    await runCli(['export', file, '--api', API, '--name', 'prod', '--include-inactive']);
+
+    expect(fetchMock.mock.calls[0]![0]).toBe(
+      `${API}/policies/export?name=prod&includeInactive=true`,
+    );
+    expect(JSON.parse(await readFile(file, 'utf8'))).toEqual(pack);
+    expect(stdout).not.toHaveBeenCalled();
+  });
+
+  it('fails with the status and body of a rejected request', async () => {
+    const file = join(dir, 'pack.json');
+    await writeFile(file, JSON.stringify([policy]));
+    respond(409, { error: 'Policy name "Dev sell exit" matches more than one policy' });
+
+    await expect(runCli(['import', file, '--api', API])).rejects.toThrow(
+      /failed with 409: .*matches more than one policy/s,
+    );
+  });
+
+  it('rejects a missing pack file and unknown commands', async () => {
+    await expect(runCli(['import', '--api', API])).rejects.toThrow('A pack file is required');
+    await expect(runCli(['sync', '--api', API])).rejects.toThrow('Unknown command "sync"');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+
+const USAGE = `Usage: npm run policies -- <command> [options]
+
+Commands:
+  import <file>   Upsert every policy in the pack by name, atomically
+  diff <file>     Show what importing the pack would change
+  export [file]   Write the active policies as a pack (stdout if no file)
+
+Options:
+  --api <url>          API base URL (default: $API_URL or http://localhost:3100)
+  --name <name>        Pack name for export, or for a pack file that is a bare array
+  --changed-by <who>   Recorded on every policy version the import creates
+  --reason <text>      Change reason recorded on those versions
+  --include-inactive   Export inactive policies too`;
+
+/** Runs one CLI command; `args` are the arguments after the script name. */
+export async function runCli(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      api: { type: 'string', default: process.env['API_URL'] ?? 'http://localhost:3100' },
+      name: { type: 'string' },
+      'changed-by': { type: 'string', default: process.env['USER'] ?? 'cli' },
+      reason: { type: 'string' },
+      'include-inactive': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, file] = positionals;
+  const api = values.api.replace(/\/+$/, '');
+
+  if (values.help || !command) {
+    write(USAGE);
+    return;
+  }
+
+  switch (command) {
+    case 'import': {
+      const pack = await readPack(requireFile(file), values.name);
+      const result = await request(`${api}/policies/import`, 'POST', {
+        ...pack,
+        changedBy: values['changed-by'],
+        changeReason: values.reason,
+      });
+      write(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    case 'diff': {
+      const pack = await readPack(requireFile(file), values.name);
+      const result = await request(`${api}/policies/diff`, 'POST', pack);
+      write(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    case 'export': {
+      const query = new URLSearchParams({ name: values.name ?? 'export' });
+      if (values['include-inactive']) query.set('includeInactive', 'true');
+
+      const pack = await request(`${api}/policies/export?${query.toString()}`, 'GET');
+      const json = JSON.stringify(pack, null, 2);
+      if (file) {
+        await writeFile(file, `${json}\n`);
+      } else {
+        write(json);
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+function requireFile(file: string | undefined): string {
+  if (!file) throw new Error(`A pack file is required\n\n${USAGE}`);
+  return file;
+}
+
+/** Packs in git may be a bare array of policies; those are named after the file. */
+async function readPack(file: string, name: string | undefined): Promise<object> {
+  const content = JSON.parse(await readFile(file, 'utf8')) as object;
+  if (Array.isArray(content)) {
+    return { name: name ?? basename(file, extname(file)), policies: content };
+  }
+  return name ? { ...content, name } : content;
+}
+
+async function request(url: string, method: 'GET' | 'POST', body?: unknown): Promise<unknown> {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(30_000),
+  });
+
+  const payload: unknown = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(
+      `${method} ${url} failed with ${res.status}: ${JSON.stringify(payload, null, 2)}`,
+    );
+  }
+  return payload;
+}
+
+function write(text: string): void {
+  process.stdout.write(`${text}\n`);
+}
+
+// Only when run as a script, so tests can import runCli
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli(process.argv.slice(2)).catch((err: unknown) => {
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+    process.exit(1);
+  });
+}
@@ -3,6 +3,8 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+const alertSeverity = z.enum(['low', 'medium', 'high', 'critical']);
+
 const envSchema = z.object({
   SOLANA_RPC_URL: z.string().url(),
   SOLANA_WS_URL: z.string().startsWith('wss://').or(z.string().startsWith('ws://')),
@@ -21,6 +23,40 @@ const envSchema = z.object({
   MAX_PRIORITY_FEE_LAMPORTS: z.coerce.number().int().min(0).default(100000),
   EXECUTION_COOLDOWN_MS: z.coerce.number().int().min(0).default(5000),
 
+  // Price feed
+  PRICE_POLL_INTERVAL_MS: z.coerce.number().int().min(500).default(5000),
+  POLICY_TICK_INTERVAL_MS: z.coerce.number().int().min(1000).default(15000),
+  RECONCILE_INTERVAL_MS: z.coerce.number().int().min(10000).default(60000),
+
+  // Ingestion
+  EVENT_SOURCES: z
+    .string()
+    .default('websocket')
+    .transform((value) => value.split(',').map((name) => name.trim()))
+    .pipe(z.array(z.enum(['websocket', 'webhook', 'file'])).min(1)),
+  EVENT_SOURCE_FILE: z.string().optional(),
+  INGEST_WEBHOOK_TOKEN: z.string().optional(),
+  POOL_DISCOVERY_INTERVAL_MS: z.coerce.number().int().min(10000).default(60000),
+  WS_STALE_TIMEOUT_MS: z.coerce.number().int().min(5000).default(30000),
+  SLOT_GAP_THRESHOLD: z.coerce.number().int().min(1).default(150),
+  EVENT_DEDUP_WINDOW_MS: z.coerce.number().int().min(1000).default(600000),
+  EVENT_REORDER_WINDOW_MS: z.coerce.number().int().min(0).max(10000).default(500),
+  EVENT_HANDLER_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(10).default(3),
+  ORCHESTRATOR_QUEUE_SHARDS: z.coerce.number().int().min(1).max(64).default(8),
+
+  // Alerts
+  ALERT_WEBHOOK_URL: z.string().url().optional(),
+  ALERT_WEBHOOK_MIN_SEVERITY: alertSeverity.default('medium'),
+  ALERT_SLACK_WEBHOOK_URL: z.string().url().optional(),
+  ALERT_SLACK_MIN_SEVERITY: alertSeverity.default('medium'),
+  ALERT_TELEGRAM_BOT_TOKEN: z.string().optional(),
+  ALERT_TELEGRAM_CHAT_ID: z.string().optional(),
+  ALERT_TELEGRAM_MIN_SEVERITY: alertSeverity.default('high'),
+  ALERT_FILE_PATH: z.string().optional(),
+  ALERT_FILE_MIN_SEVERITY: alertSeverity.default('low'),
+  ALERT_DEDUP_WINDOW_MS: z.coerce.number().int().min(0).default(300000),
+  ALERT_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().min(1).default(20),
+
   // LLM
   LLM_PROVIDER: z.enum(['anthropic', 'openai']).default('anthropic'),
   LLM_API_KEY: z.string().optional(),
@@ -56,6 +92,14 @@ function validateEnv(): z.infer<typeof envSchema> {
     throw new Error('Either WALLET_PRIVATE_KEY or WALLET_KEYPAIR_PATH must be set');
   }
 
+  if (result.data.EVENT_SOURCES.includes('file') && !result.data.EVENT_SOURCE_FILE) {
+    throw new Error('EVENT_SOURCE_FILE must be set when EVENT_SOURCES includes file');
+  }
+
+  if (result.data.EVENT_SOURCES.includes('webhook') && !result.data.INGEST_WEBHOOK_TOKEN) {
+    throw new Error('INGEST_WEBHOOK_TOKEN must be set when EVENT_SOURCES includes webhook');
+  }
+
   return result.data;
 }
 
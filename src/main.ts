@@ -8,13 +8,27 @@ import {
 } from './infra/index.js';
 import type { Container } from './infra/container.js';
 import { EventBus } from './services/event-bus.js';
-import { EventIngestionService } from './modules/event-ingestion/index.js';
+import { EventPipeline } from './services/event-pipeline.js';
+import {
+  EventIngestionService,
+  FileEventSource,
+  WebhookEventSource,
+  WebsocketEventSource,
+  type EventSource,
+} from './modules/event-ingestion/index.js';
 import { StateEngine } from './modules/state-engine/index.js';
 import { PolicyEngine } from './modules/policy-engine/index.js';
 import { RiskEngine } from './modules/risk-engine/index.js';
 import { ExecutionEngine } from './modules/execution-engine/index.js';
 import { Orchestrator } from './modules/orchestrator/index.js';
 import { PumpFunService } from './modules/pumpfun/index.js';
+import { PriceFeedService } from './modules/price-feed/index.js';
+import { PositionReconciler } from './modules/reconciler/index.js';
+import { Scheduler } from './modules/scheduler/index.js';
+import { HaltService } from './modules/halt/index.js';
+import { AlertService, createAlertSinks } from './modules/alerts/index.js';
+import { DryRunService } from './modules/dry-run/index.js';
+import { ReplayEngine } from './modules/replay-engine/index.js';
 import { createServer } from './api/server.js';
 
 // Agent swarm
@@ -62,26 +76,82 @@ async function main(): Promise<void> {
   };
 
   // Core services
-  const eventBus = new EventBus(logger);
+  const eventBus = new EventBus(logger, {
+    maxAttempts: env.EVENT_HANDLER_MAX_ATTEMPTS,
+    retryDelayMs: 250,
+  });
   const stateEngine = new StateEngine(container, eventBus);
-  const policyEngine = new PolicyEngine(container, stateEngine, eventBus);
+  const policyEngine = new PolicyEngine(container, stateEngine);
   const pumpfun = new PumpFunService(container);
+  const halts = new HaltService(container);
+  const alertSinks = createAlertSinks({
+    webhookUrl: env.ALERT_WEBHOOK_URL,
+    webhookMinSeverity: env.ALERT_WEBHOOK_MIN_SEVERITY,
+    slackWebhookUrl: env.ALERT_SLACK_WEBHOOK_URL,
+    slackMinSeverity: env.ALERT_SLACK_MIN_SEVERITY,
+    telegramBotToken: env.ALERT_TELEGRAM_BOT_TOKEN,
+    telegramChatId: env.ALERT_TELEGRAM_CHAT_ID,
+    telegramMinSeverity: env.ALERT_TELEGRAM_MIN_SEVERITY,
+    filePath: env.ALERT_FILE_PATH,
+    fileMinSeverity: env.ALERT_FILE_MIN_SEVERITY,
+  });
+  const alerts = new AlertService(container, alertSinks, {
+    dedupWindowMs: env.ALERT_DEDUP_WINDOW_MS,
+    rateLimitPerMinute: env.ALERT_RATE_LIMIT_PER_MINUTE,
+  });
   const riskEngine = new RiskEngine(container, stateEngine);
-  const executionEngine = new ExecutionEngine(container, stateEngine, riskEngine, pumpfun);
-  const eventIngestion = new EventIngestionService(container, eventBus);
+  const executionEngine = new ExecutionEngine(container, stateEngine, riskEngine, pumpfun, alerts);
+  const eventSources: EventSource[] = env.EVENT_SOURCES.map((name) => {
+    switch (name) {
+      case 'websocket':
+        return new WebsocketEventSource(container, alerts, {
+          poolDiscoveryIntervalMs: env.POOL_DISCOVERY_INTERVAL_MS,
+          wsStaleTimeoutMs: env.WS_STALE_TIMEOUT_MS,
+          slotGapThreshold: env.SLOT_GAP_THRESHOLD,
+        });
+      case 'webhook':
+        return new WebhookEventSource(container);
+      case 'file':
+        return new FileEventSource(container, { path: env.EVENT_SOURCE_FILE! });
+    }
+  });
+  const eventPipeline = new EventPipeline(logger, eventBus, {
+    dedupWindowMs: env.EVENT_DEDUP_WINDOW_MS,
+    reorderWindowMs: env.EVENT_REORDER_WINDOW_MS,
+  });
+  const eventIngestion = new EventIngestionService(container, eventPipeline, eventSources);
+  const priceFeed = new PriceFeedService(container, eventBus, stateEngine, pumpfun, {
+    pollIntervalMs: env.PRICE_POLL_INTERVAL_MS,
+  });
+  const scheduler = new Scheduler(container, eventBus, stateEngine, {
+    tickIntervalMs: env.POLICY_TICK_INTERVAL_MS,
+  });
+  const reconciler = new PositionReconciler(container, stateEngine, {
+    intervalMs: env.RECONCILE_INTERVAL_MS,
+  });
   const orchestrator = new Orchestrator(
     container,
     eventBus,
     stateEngine,
     policyEngine,
     executionEngine,
+    halts,
+    alerts,
+    { queueShards: env.ORCHESTRATOR_QUEUE_SHARDS },
   );
 
   // Start core services
   await stateEngine.start();
+  await halts.start();
+  await alerts.start();
   await policyEngine.start();
-  await eventIngestion.start();
+  // Sources can emit while starting (the file source replays all of its events), so
+  // the orchestrator must already be subscribed to the bus
   await orchestrator.start();
+  await eventIngestion.start();
+  await priceFeed.start();
+  await scheduler.start();
+  await reconciler.start();
 
   // --- Agent Swarm ---
   let swarm: Swarm | null = null;
@@ -130,21 +200,21 @@ async function main(): Promise<void> {
       container,
       eventBus,
       { role: 'sentinel', tickIntervalMs: 5000, enabled: true },
-      { llm, stateEngine, walletGraph, intelBus, pumpfun },
+      { llm, stateEngine, walletGraph, intelBus, pumpfun, alerts },
     );
 
     const strategist = new StrategistAgent(
       container,
       eventBus,
       { role: 'strategist', tickIntervalMs: 2000, enabled: true },
-      { llm, stateEngine, patternDb },
+      { llm, stateEngine, patternDb, halts },
     );
 
     const executor = new ExecutorAgent(
       container,
       eventBus,
       { role: 'executor', tickIntervalMs: 1000, enabled: true },
-      { stateEngine, executionEngine, riskEngine, pumpfun },
+      { stateEngine, executionEngine, riskEngine, pumpfun, halts, alerts },
     );
 
     const memory = new MemoryAgent(
@@ -176,8 +246,13 @@ async function main(): Promise<void> {
   }
 
   // API server
+  const replay = new ReplayEngine(container);
   const server = await createServer({
-    container, policyEngine, eventIngestion, pumpfun, stateEngine,
+    container, policyEngine, eventIngestion, pumpfun, stateEngine, halts,
+    eventBus, eventPipeline,
+    dryRun: new DryRunService(container, replay),
+    replay,
+    ingestWebhookToken: env.INGEST_WEBHOOK_TOKEN,
     metrics: { deployerScores, patternDb, swarm },
   });
   await server.listen({ host: env.API_HOST, port: env.API_PORT });
@@ -193,12 +268,18 @@ async function main(): Promise<void> {
       await swarm.stop();
     }
 
-    await orchestrator.stop();
+    await reconciler.stop();
+    await scheduler.stop();
+    await priceFeed.stop();
     await eventIngestion.stop();
+    await eventPipeline.stop();
+    await orchestrator.stop();
     await policyEngine.stop();
     await stateEngine.stop();
+    await halts.stop();
     await riskEngine.stop();
     await executionEngine.stop();
+    await alerts.stop();
 
     redis.disconnect();
     await db.$disconnect();
@@ -0,0 +1,148 @@
+import { appendFile } from 'node:fs/promises';
+import type { Alert, AlertSeverity } from '../../types/alert.js';
+
+const SEND_TIMEOUT_MS = 10_000;
+
+export const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+export interface AlertSink {
+  readonly name: string;
+  /** Alerts below this severity are not sent to the sink. */
+  readonly minSeverity: AlertSeverity;
+  send(alert: Alert): Promise<void>;
+}
+
+export interface AlertSinksConfig {
+  webhookUrl?: string;
+  webhookMinSeverity: AlertSeverity;
+  slackWebhookUrl?: string;
+  slackMinSeverity: AlertSeverity;
+  telegramBotToken?: string;
+  telegramChatId?: string;
+  telegramMinSeverity: AlertSeverity;
+  /** File to append JSON lines to, or '-' for stdout. */
+  filePath?: string;
+  fileMinSeverity: AlertSeverity;
+}
+
+/** Posts the raw alert as JSON. */
+export class WebhookSink implements AlertSink {
+  readonly name = 'webhook';
+  readonly minSeverity: AlertSeverity;
+  private readonly url: string;
+
+  constructor(url: string, minSeverity: AlertSeverity) {
+    this.url = url;
+    this.minSeverity = minSeverity;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await postJson(this.name, this.url, alert);
+  }
+}
+
+/** Slack incoming webhook (or anything accepting Slack's `{ text }` payload). */
+export class SlackSink implements AlertSink {
+  readonly name = 'slack';
+  readonly minSeverity: AlertSeverity;
+  private readonly url: string;
+
+  constructor(url: string, minSeverity: AlertSeverity) {
+    this.url = url;
+    this.minSeverity = minSeverity;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await postJson(this.name, this.url, { text: formatAlertText(alert) });
+  }
+}
+
+/** Telegram Bot API sendMessage. */
+export class TelegramSink implements AlertSink {
+  readonly name = 'telegram';
+  readonly minSeverity: AlertSeverity;
+  private readonly botToken: string;
+  private readonly chatId: string;
+
+  constructor(botToken: string, chatId: string, minSeverity: AlertSeverity) {
+    this.botToken = botToken;
+    this.chatId = chatId;
+    this.minSeverity = minSeverity;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await postJson(this.name, `https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: formatAlertText(alert),
+      disable_web_page_preview: true,
+    });
+  }
+}
+
+/** Appends one JSON line per alert to a file, or writes to stdout when the path is '-'. */
+export class FileSink implements AlertSink {
+  readonly name = 'file';
+  readonly minSeverity: AlertSeverity;
+  private readonly path: string;
+
+  constructor(path: string, minSeverity: AlertSeverity) {
+    this.path = path;
+    this.minSeverity = minSeverity;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const line = `${JSON.stringify(alert)}\n`;
+    if (this.path === '-') {
+      process.stdout.write(line);
+      return;
+    }
+    await appendFile(this.path, line);
+  }
+}
+
+export function createAlertSinks(config: AlertSinksConfig): AlertSink[] {
+  const sinks: AlertSink[] = [];
+
+  if (config.webhookUrl) {
+    sinks.push(new WebhookSink(config.webhookUrl, config.webhookMinSeverity));
+  }
+  if (config.slackWebhookUrl) {
+    sinks.push(new SlackSink(config.slackWebhookUrl, config.slackMinSeverity));
+  }
+  if (config.telegramBotToken && config.telegramChatId) {
+    sinks.push(
+      new TelegramSink(config.telegramBotToken, config.telegramChatId, config.telegramMinSeverity),
+    );
+  }
+  if (config.filePath) {
+    sinks.push(new FileSink(config.filePath, config.fileMinSeverity));
+  }
+
+  return sinks;
+}
+
+export function formatAlertText(alert: Alert): string {
+  const lines = [`[${alert.severity.toUpperCase()}] ${alert.title}`, alert.message];
+  if (alert.mintAddress) lines.push(`Mint: ${alert.mintAddress}`);
+  if (alert.positionId) lines.push(`Position: ${alert.positionId}`);
+  return lines.join('\n');
+}
+
+// The URL is left out of errors: Telegram's carries the bot token
+async function postJson(sink: string, url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${sink} sink responded with HTTP ${response.status}`);
+  }
+}
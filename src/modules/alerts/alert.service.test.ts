@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AlertService } from './alert.service.js';
+import type { AlertSink } from './alert-sinks.js';
+import type { Container } from '../../infra/container.js';
+import type { Alert, AlertSeverity } from '../../types/alert.js';
+
+function createMockContainer(): Container {
+  return {
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Container['logger'],
+    db: {} as Container['db'],
+    redis: {} as Container['redis'],
+    solana: {} as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+}
+
+function createSink(
+  name: string,
+  minSeverity: AlertSeverity,
+): AlertSink & { send: ReturnType<typeof vi.fn> } {
+  return { name, minSeverity, send: vi.fn().mockResolvedValue(undefined) };
+}
+
+function makeAlert(overrides: Partial<Alert> = {}): Alert {
+  return {
+    source: 'POLICY',
+    severity: 'medium',
+    title: 'Policy triggered: ALERT_ONLY',
+    message: 'Dev sold 40%',
+    timestamp: 1_000_000,
+    dedupKey: 'policy:p1:mint1',
+    ...overrides,
+  };
+}
+
+describe('AlertService', () => {
+  let mockContainer: Container;
+
+  beforeEach(() => {
+    mockContainer = createMockContainer();
+  });
+
+  it('only delivers to sinks whose minimum severity is met', async () => {
+    const all = createSink('file', 'low');
+    const urgent = createSink('telegram', 'high');
+    const service = new AlertService(mockContainer, [all, urgent], {
+      dedupWindowMs: 60_000,
+      rateLimitPerMinute: 10,
+    });
+
+    await service.notify(makeAlert({ severity: 'medium' }));
+    await service.notify(makeAlert({ severity: 'critical', dedupKey: 'other' }));
+
+    expect(all.send).toHaveBeenCalledTimes(2);
+    expect(urgent.send).toHaveBeenCalledTimes(1);
+    expect(urgent.send.mock.calls[0]![0].severity).toBe('critical');
+  });
+
+  it('suppresses duplicates within the dedup window', async () => {
+    const sink = createSink('webhook', 'low');
+    const service = new AlertService(mockContainer, [sink], {
+      dedupWindowMs: 60_000,
+      rateLimitPerMinute: 10,
+    });
+
+    await service.notify(makeAlert({ timestamp: 1_000_000 }));
+    await service.notify(makeAlert({ timestamp: 1_030_000 }));
+    await service.notify(makeAlert({ timestamp: 1_061_000 }));
+
+    expect(sink.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('rate limits each sink independently', async () => {
+    const sink = createSink('slack', 'low');
+    const service = new AlertService(mockContainer, [sink], {
+      dedupWindowMs: 0,
+      rateLimitPerMinute: 2,
+    });
+
+    for (let i = 0; i < 4; i++) {
+      await service.notify(makeAlert({ dedupKey: `k${i}`, timestamp: 1_000_000 + i }));
+    }
+    await service.notify(makeAlert({ dedupKey: 'later', timestamp: 1_070_000 }));
+
+    expect(sink.send).toHaveBeenCalledTimes(3);
+    expect(mockContainer.logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps delivering to other sinks when one fails', async () => {
+    const broken = createSink('webhook', 'low');
+    broken.send.mockRejectedValue(new Error('HTTP 500'));
+    const healthy = createSink('file', 'low');
+    const service = new AlertService(mockContainer, [broken, healthy], {
+      dedupWindowMs: 60_000,
+      rateLimitPerMinute: 10,
+    });
+
+    await expect(service.notify(makeAlert())).resolves.toBeUndefined();
+
+    expect(healthy.send).toHaveBeenCalledTimes(1);
+    expect(mockContainer.logger.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the policy alertSeverity override', async () => {
+    const sink = createSink('file', 'critical');
+    const service = new AlertService(mockContainer, [sink], {
+      dedupWindowMs: 60_000,
+      rateLimitPerMinute: 10,
+    });
+
+    await service.policyTriggered(
+      {
+        policyId: 'p1',
+        triggered: true,
+        action: 'ALERT_ONLY',
+        actionParams: { alertSeverity: 'critical' },
+        triggerValue: 40,
+        threshold: 30,
+        reason: 'Dev sold 40%',
+      },
+      'mint1',
+    );
+
+    expect(sink.send).toHaveBeenCalledTimes(1);
+    expect(sink.send.mock.calls[0]![0]).toMatchObject({
+      source: 'POLICY',
+      mintAddress: 'mint1',
+      dedupKey: 'policy:p1:mint1',
+    });
+  });
+});
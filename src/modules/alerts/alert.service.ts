@@ -0,0 +1,183 @@
+import type { Container } from '../../infra/container.js';
+import type { ThreatSignal } from '../../agents/types.js';
+import type {
+  Alert,
+  AlertSeverity,
+  ExecutionFailure,
+  MintAuthorityFlag,
+} from '../../types/alert.js';
+import type { PolicyAction, PolicyEvaluationResult } from '../../types/policy.js';
+import type { ExecutionRequest } from '../../types/execution.js';
+import type { RiskViolation } from '../../types/risk.js';
+import { SEVERITY_RANK, type AlertSink } from './alert-sinks.js';
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+export interface AlertServiceConfig {
+  dedupWindowMs: number;
+  /** Per sink; alerts past the limit are dropped, not queued. */
+  rateLimitPerMinute: number;
+}
+
+const POLICY_SEVERITY: Record<PolicyAction, AlertSeverity> = {
+  ALERT_ONLY: 'medium',
+  PARTIAL_SELL: 'medium',
+  EXIT_POSITION: 'high',
+  HALT_STRATEGY: 'critical',
+};
+
+/**
+ * Fans alerts out to the configured sinks. Delivery is best-effort and never
+ * throws, so callers on the execution path fire and forget; a failing sink is
+ * logged and does not affect the other sinks.
+ */
+export class AlertService {
+  private readonly container: Container;
+  private readonly sinks: AlertSink[];
+  private readonly config: AlertServiceConfig;
+  private readonly lastSent = new Map<string, number>();
+  private readonly sinkSends = new Map<string, number[]>();
+
+  constructor(container: Container, sinks: AlertSink[], config: AlertServiceConfig) {
+    this.container = container;
+    this.sinks = sinks;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    this.container.logger.info(
+      { sinks: this.sinks.map((s) => `${s.name}>=${s.minSeverity}`) },
+      'Alert service started',
+    );
+  }
+
+  async notify(alert: Alert): Promise<void> {
+    const now = alert.timestamp;
+    this.pruneDedup(now);
+
+    const last = this.lastSent.get(alert.dedupKey);
+    if (last !== undefined && now - last < this.config.dedupWindowMs) {
+      this.container.logger.debug({ dedupKey: alert.dedupKey }, 'Duplicate alert suppressed');
+      return;
+    }
+    this.lastSent.set(alert.dedupKey, now);
+
+    const sinks = this.sinks.filter(
+      (s) => SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[s.minSeverity],
+    );
+    await Promise.all(sinks.map((sink) => this.deliver(sink, alert, now)));
+  }
+
+  async policyTriggered(result: PolicyEvaluationResult, mintAddress: string | null): Promise<void> {
+    await this.notify({
+      source: 'POLICY',
+      severity: result.actionParams?.alertSeverity ?? POLICY_SEVERITY[result.action],
+      title: `Policy triggered: ${result.action}`,
+      message: result.reason,
+      mintAddress: mintAddress ?? undefined,
+      positionId: result.positionId,
+      policyId: result.policyId,
+      details: { triggerValue: result.triggerValue, threshold: result.threshold },
+      timestamp: Date.now(),
+      dedupKey: `policy:${result.policyId}:${result.positionId ?? mintAddress ?? 'global'}`,
+    });
+  }
+
+  async threatDetected(threat: ThreatSignal): Promise<void> {
+    await this.notify({
+      source: 'THREAT',
+      severity: threat.severity,
+      title: `Threat detected: ${threat.threatType}`,
+      message: `Sentinel flagged ${threat.threatType} (${threat.severity})`,
+      mintAddress: threat.mintAddress,
+      positionId: threat.positionId,
+      details: threat.details,
+      timestamp: threat.timestamp,
+      // Keyed by severity too, so an escalation is not swallowed by the earlier alert
+      dedupKey: `threat:${threat.positionId}:${threat.threatType}:${threat.severity}`,
+    });
+  }
+
+  async mintAuthorityFlagged(flag: MintAuthorityFlag): Promise<void> {
+    const authorities = `mint authority ${flag.mintAuthority ?? 'revoked'}, freeze authority ${flag.freezeAuthority ?? 'revoked'}`;
+    await this.notify({
+      source: 'THREAT',
+      // The dev can still mint or freeze; a change while we hold the token is worse
+      severity: flag.previous ? 'high' : 'medium',
+      title: flag.previous ? 'Mint authority changed' : 'Mint authority still set',
+      message: `Mint ${flag.mintAddress}: ${authorities}`,
+      mintAddress: flag.mintAddress,
+      details: { ...flag },
+      timestamp: Date.now(),
+      dedupKey: `authority:${flag.mintAddress}:${flag.mintAuthority}:${flag.freezeAuthority}`,
+    });
+  }
+
+  async executionFailed(failure: ExecutionFailure): Promise<void> {
+    await this.notify({
+      source: 'EXECUTION',
+      severity: 'high',
+      title: `Execution failed: ${failure.action}`,
+      message: failure.error,
+      mintAddress: failure.mintAddress,
+      positionId: failure.positionId,
+      policyId: failure.policyId,
+      timestamp: Date.now(),
+      dedupKey: `execution:${failure.action}:${failure.positionId ?? failure.mintAddress ?? 'unknown'}:${failure.error}`,
+    });
+  }
+
+  async riskRejected(request: ExecutionRequest, violations: RiskViolation[]): Promise<void> {
+    await this.notify({
+      source: 'RISK',
+      severity: 'high',
+      title: `Execution rejected by risk engine: ${request.action}`,
+      message: violations.map((v) => v.message).join('; '),
+      positionId: request.positionId,
+      policyId: request.policyId,
+      details: { rules: violations.map((v) => v.rule) },
+      timestamp: Date.now(),
+      dedupKey: `risk:${request.positionId}:${violations.map((v) => v.rule).join(',')}`,
+    });
+  }
+
+  private async deliver(sink: AlertSink, alert: Alert, now: number): Promise<void> {
+    const { logger } = this.container;
+
+    if (!this.takeSendSlot(sink.name, now)) {
+      logger.warn(
+        { sink: sink.name, dedupKey: alert.dedupKey },
+        'Alert rate limit reached, dropping',
+      );
+      return;
+    }
+
+    try {
+      await sink.send(alert);
+    } catch (err) {
+      logger.error({ err, sink: sink.name, dedupKey: alert.dedupKey }, 'Alert delivery failed');
+    }
+  }
+
+  private takeSendSlot(sinkName: string, now: number): boolean {
+    const recent = (this.sinkSends.get(sinkName) ?? []).filter(
+      (t) => now - t < RATE_LIMIT_WINDOW_MS,
+    );
+    const allowed = recent.length < this.config.rateLimitPerMinute;
+    if (allowed) recent.push(now);
+    this.sinkSends.set(sinkName, recent);
+    return allowed;
+  }
+
+  private pruneDedup(now: number): void {
+    for (const [key, sentAt] of this.lastSent) {
+      if (now - sentAt >= this.config.dedupWindowMs) this.lastSent.delete(key);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.lastSent.clear();
+    this.sinkSends.clear();
+    this.container.logger.info('Alert service stopped');
+  }
+}
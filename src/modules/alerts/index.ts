@@ -0,0 +1,4 @@
+export { AlertService } from './alert.service.js';
+export type { AlertServiceConfig } from './alert.service.js';
+export { createAlertSinks, WebhookSink, SlackSink, TelegramSink, FileSink } from './alert-sinks.js';
+export type { AlertSink, AlertSinksConfig } from './alert-sinks.js';
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DryRunService } from './dry-run.service.js';
+import { ReplayEngine } from '../replay-engine/index.js';
+import type { Container } from '../../infra/container.js';
+import type { DevWalletEvent } from '../../types/events.js';
+import type { PolicyDefinition } from '../../types/policy.js';
+
+const T0 = Date.parse('2026-03-01T12:00:00Z');
+
+function devSell(minute: number, pct: number): { payload: DevWalletEvent; processedAt: Date } {
+  const timestamp = T0 + minute * 60_000;
+  return {
+    payload: {
+      id: `sell-${minute}`,
+      type: 'DEV_WALLET_SELL',
+      timestamp,
+      slot: 1000 + minute,
+      signature: `sig-${minute}`,
+      devWallet: 'dev1',
+      mintAddress: 'mint1',
+      amount: '1000',
+      percentageOfHoldings: pct,
+    },
+    processedAt: new Date(timestamp),
+  };
+}
+
+function createMockContainer(): Container {
+  const logger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(),
+  };
+  logger.child.mockReturnValue(logger);
+
+  return {
+    logger: logger as unknown as Container['logger'],
+    db: {
+      eventLog: { findMany: vi.fn().mockResolvedValue([]) },
+      position: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            id: 'pos1',
+            walletId: 'w1',
+            trackedTokenId: 't1',
+            mintAddress: 'mint1',
+            entryAmountSol: 1,
+            tokenBalance: '1000000',
+            entryPrice: 0.01,
+            status: 'CLOSED',
+            openedAt: new Date(T0 - 60 * 60_000),
+            closedAt: null,
+            updatedAt: new Date(),
+          },
+        ]),
+      },
+      wallet: { findUnique: vi.fn().mockResolvedValue(null) },
+      policyFiringState: { upsert: vi.fn() },
+      policyRungFill: { createMany: vi.fn() },
+    } as unknown as Container['db'],
+    redis: {} as Container['redis'],
+    solana: {} as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+}
+
+describe('DryRunService', () => {
+  let mockContainer: Container;
+  let service: DryRunService;
+
+  const policy: PolicyDefinition = {
+    id: 'draft',
+    name: 'Dev dump',
+    trigger: 'DEV_SELL_PERCENTAGE',
+    threshold: 30,
+    windowSeconds: 600,
+    action: 'EXIT_POSITION',
+    priority: 0,
+    isActive: false,
+  };
+
+  beforeEach(() => {
+    mockContainer = createMockContainer();
+    service = new DryRunService(mockContainer, new ReplayEngine(mockContainer));
+  });
+
+  it('reports where the policy would have fired and what it would have sold', async () => {
+    vi.mocked(mockContainer.db.eventLog.findMany).mockResolvedValue([
+      devSell(1, 10),
+      devSell(2, 25),
+      devSell(3, 10),
+    ] as never);
+
+    const report = await service.run(policy, {
+      from: new Date(T0),
+      to: new Date(T0 + 10 * 60_000),
+    });
+
+    expect(report.eventsReplayed).toBe(3);
+    expect(report.triggers).toHaveLength(1);
+    expect(report.triggers[0]).toMatchObject({
+      eventId: 'sell-2',
+      action: 'EXIT_POSITION',
+      triggerValue: 35,
+      positions: [{ positionId: 'pos1', execution: { action: 'FULL_EXIT', sellPercentage: 100 } }],
+    });
+
+    // Simulated only: nothing is persisted
+    expect(mockContainer.db.policyFiringState.upsert).not.toHaveBeenCalled();
+  });
+
+  it('uses events before the range as warm-up only', async () => {
+    vi.mocked(mockContainer.db.eventLog.findMany).mockResolvedValue([
+      devSell(-5, 35),
+      devSell(1, 1),
+    ] as never);
+
+    const report = await service.run(policy, {
+      from: new Date(T0),
+      to: new Date(T0 + 10 * 60_000),
+    });
+
+    expect(report.eventsReplayed).toBe(2);
+    // The 35% sell before the range still counts toward the window
+    expect(report.triggers.map((t) => t.eventId)).toEqual(['sell-1']);
+  });
+});
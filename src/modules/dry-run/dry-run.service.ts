@@ -0,0 +1,52 @@
+import type { Container } from '../../infra/container.js';
+import type { ReplayEngine } from '../replay-engine/replay-engine.service.js';
+import { longestWindowMs } from '../policy-engine/policy-conditions.js';
+import type { PolicyDefinition } from '../../types/policy.js';
+import type { DryRunOptions, DryRunReport } from '../../types/dry-run.js';
+
+const MAX_EVENTS = 50_000;
+const DEFAULT_WARMUP_MS = 3_600_000;
+
+/**
+ * Replays stored events against a single policy to show what it would have
+ * done. Events from one window before the range warm up its state; only
+ * events inside the range are evaluated.
+ */
+export class DryRunService {
+  private readonly container: Container;
+  private readonly replay: ReplayEngine;
+
+  constructor(container: Container, replay: ReplayEngine) {
+    this.container = container;
+    this.replay = replay;
+  }
+
+  async run(policy: PolicyDefinition, options: DryRunOptions): Promise<DryRunReport> {
+    const report = await this.replay.run({
+      from: new Date(options.from.getTime() - longestWindowMs(policy, DEFAULT_WARMUP_MS)),
+      to: options.to,
+      evaluateFrom: options.from,
+      mintAddress: options.mintAddress,
+      policies: [policy],
+      maxEvents: MAX_EVENTS,
+    });
+
+    this.container.logger.info(
+      {
+        policyId: policy.id,
+        eventsReplayed: report.eventsReplayed,
+        triggerCount: report.triggers.length,
+      },
+      'Dry run complete',
+    );
+
+    return {
+      policyId: policy.id,
+      from: options.from,
+      to: options.to,
+      eventsReplayed: report.eventsReplayed,
+      truncated: report.truncated,
+      triggers: report.triggers,
+    };
+  }
+}
@@ -0,0 +1 @@
+export { DryRunService } from './dry-run.service.js';
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { EventIngestionService } from './event-ingestion.service.js';
+import { FileEventSource } from './file-source.js';
+import type { Container } from '../../infra/container.js';
+import { EventPipeline } from '../../services/event-pipeline.js';
+import type { EventBus } from '../../services/event-bus.js';
+
+function createMockContainer(): Container {
+  return {
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Container['logger'],
+    db: {
+      eventLog: { create: vi.fn().mockResolvedValue({}) },
+    } as unknown as Container['db'],
+    redis: {} as Container['redis'],
+    solana: {} as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+}
+
+const supplyChange = {
+  id: 'e1',
+  type: 'SUPPLY_CHANGE',
+  timestamp: 1_700_000_000_000,
+  slot: 300,
+  signature: '',
+  mintAddress: 'mint1',
+  previousSupply: '1000',
+  newSupply: '2000',
+  changePercentage: 100,
+};
+
+describe('EventIngestionService', () => {
+  let dir: string;
+  let container: Container;
+  let emit: ReturnType<typeof vi.fn>;
+  let pipeline: EventPipeline;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'events-'));
+    container = createMockContainer();
+    emit = vi.fn();
+    pipeline = new EventPipeline(container.logger, { emit } as unknown as EventBus, {
+      dedupWindowMs: 60_000,
+      reorderWindowMs: 0,
+    });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('publishes and logs what a file source emits, and reports its health', async () => {
+    const file = path.join(dir, 'events.jsonl');
+    const row = { eventType: 'SUPPLY_CHANGE', payload: { ...supplyChange, id: 'e2', slot: 301 } };
+    await writeFile(
+      file,
+      [JSON.stringify(supplyChange), JSON.stringify(row), 'not json'].join('\n'),
+    );
+
+    const service = new EventIngestionService(container, pipeline, [
+      new FileEventSource(container, { path: file }),
+    ]);
+    await service.start();
+
+    expect(emit.mock.calls.map(([event]) => event.id)).toEqual(['e1', 'e2']);
+    expect(container.db.eventLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'SUPPLY_CHANGE', source: 'file', slot: 300n }),
+    });
+
+    const [health] = service.health();
+    expect(health).toMatchObject({
+      name: 'file',
+      status: 'degraded',
+      eventCount: 2,
+      details: { linesRead: 3, skipped: 1, finished: true },
+    });
+    expect(health!.lastEventAt).not.toBeNull();
+
+    await service.stop();
+    expect(service.health()[0]!.status).toBe('down');
+  });
+
+  it('publishes and logs a transaction seen twice only once', async () => {
+    const file = path.join(dir, 'events.jsonl');
+    const signed = { ...supplyChange, signature: 'sig1' };
+    await writeFile(
+      file,
+      [JSON.stringify(signed), JSON.stringify({ ...signed, id: 'e2' })].join('\n'),
+    );
+
+    const service = new EventIngestionService(container, pipeline, [
+      new FileEventSource(container, { path: file }),
+    ]);
+    await service.start();
+
+    expect(emit.mock.calls.map(([event]) => event.id)).toEqual(['e1']);
+    expect(container.db.eventLog.create).toHaveBeenCalledTimes(1);
+    expect(service.health()[0]!.eventCount).toBe(2);
+  });
+
+  it('reports a source that cannot read its file as down', async () => {
+    const service = new EventIngestionService(container, pipeline, [
+      new FileEventSource(container, { path: path.join(dir, 'missing.jsonl') }),
+    ]);
+    await service.start();
+
+    expect(service.health()[0]).toMatchObject({ status: 'down', eventCount: 0, lastEventAt: null });
+  });
+});
@@ -1,171 +1,87 @@
-import { PublicKey } from '@solana/web3.js';
-import { randomUUID } from 'node:crypto';
 import type { Container } from '../../infra/container.js';
-import type { EventBus } from '../../services/event-bus.js';
-import type { InternalEvent, DevWalletEvent } from '../../types/events.js';
+import type { EventPipeline } from '../../services/event-pipeline.js';
+import type { InternalEvent } from '../../types/events.js';
+import type { EventSource, EventSourceHealth } from './event-source.js';
 
-interface Subscription {
-  id: number;
-  type: 'account' | 'logs';
-  address: string;
-}
-
-interface TrackedWallet {
-  address: string;
-  label: string | null;
-  devWallets: Map<string, string>; // mintAddress -> devWallet
+interface SourceStats {
+  eventCount: number;
+  lastEventAt: number | null;
 }
 
+/**
+ * Drives the configured event sources: everything a source emits goes through
+ * the EventPipeline, and what it accepts is recorded in the event log under
+ * the source's name.
+ */
 export class EventIngestionService {
   private readonly container: Container;
-  private readonly eventBus: EventBus;
-  private readonly subscriptions: Subscription[] = [];
-  private readonly trackedWallets: Map<string, TrackedWallet> = new Map();
-  private readonly trackedMints: Set<string> = new Set();
+  private readonly pipeline: EventPipeline;
+  private readonly sources: EventSource[];
+  private readonly stats: Map<string, SourceStats> = new Map();
 
-  constructor(container: Container, eventBus: EventBus) {
+  constructor(container: Container, pipeline: EventPipeline, sources: EventSource[]) {
     this.container = container;
-    this.eventBus = eventBus;
+    this.pipeline = pipeline;
+    this.sources = sources;
   }
 
   async start(): Promise<void> {
-    const { logger, db } = this.container;
+    const logger = this.container.logger;
     logger.info('Starting event ingestion service');
 
-    const wallets = await db.wallet.findMany({ where: { isActive: true } });
-    const tokens = await db.trackedToken.findMany({
-      where: { isActive: true },
-      include: { wallet: true },
-    });
+    for (const source of this.sources) {
+      const stats: SourceStats = { eventCount: 0, lastEventAt: null };
+      this.stats.set(source.name, stats);
 
-    for (const wallet of wallets) {
-      this.trackedWallets.set(wallet.address, {
-        address: wallet.address,
-        label: wallet.label,
-        devWallets: new Map(),
+      await source.start((event) => {
+        stats.eventCount++;
+        stats.lastEventAt = Date.now();
+        if (this.pipeline.push(event)) {
+          this.persistEvent(event, source.name);
+        }
       });
     }
 
-    for (const token of tokens) {
-      this.trackedMints.add(token.mintAddress);
-      const tracked = this.trackedWallets.get(token.wallet.address);
-      if (tracked && token.devWallet) {
-        tracked.devWallets.set(token.mintAddress, token.devWallet);
-      }
-    }
-
-    await this.subscribeToWallets();
-    await this.subscribeToDevWallets(tokens);
-
-    logger.info(
-      {
-        walletCount: wallets.length,
-        tokenCount: tokens.length,
-        subscriptionCount: this.subscriptions.length,
-      },
-      'Event ingestion started',
-    );
+    logger.info({ sources: this.sources.map((s) => s.name) }, 'Event ingestion started');
   }
 
-  private async subscribeToWallets(): Promise<void> {
-    const { connection } = this.container.solana;
-    const logger = this.container.logger;
-
-    for (const [address] of this.trackedWallets) {
-      try {
-        const pubkey = new PublicKey(address);
-        const subId = connection.onAccountChange(pubkey, (accountInfo, context) => {
-          this.handleAccountChange(address, accountInfo, context.slot);
-        });
-
-        this.subscriptions.push({ id: subId, type: 'account', address });
-        logger.debug({ address }, 'Subscribed to wallet account changes');
-      } catch (err) {
-        logger.error({ err, address }, 'Failed to subscribe to wallet');
-      }
-    }
+  getSource(name: string): EventSource | undefined {
+    return this.sources.find((source) => source.name === name);
   }
 
-  private async subscribeToDevWallets(
-    tokens: Array<{ mintAddress: string; devWallet: string | null; wallet: { address: string } }>,
-  ): Promise<void> {
-    const { connection } = this.container.solana;
-    const logger = this.container.logger;
-    const devWallets = new Set<string>();
-
-    for (const token of tokens) {
-      if (token.devWallet && !devWallets.has(token.devWallet)) {
-        devWallets.add(token.devWallet);
-
-        try {
-          const pubkey = new PublicKey(token.devWallet);
-          const subId = connection.onAccountChange(pubkey, (accountInfo, context) => {
-            this.handleDevWalletChange(
-              token.devWallet!,
-              token.mintAddress,
-              accountInfo,
-              context.slot,
-            );
-          });
-
-          this.subscriptions.push({ id: subId, type: 'account', address: token.devWallet });
-          logger.debug({ devWallet: token.devWallet, mint: token.mintAddress }, 'Subscribed to dev wallet');
-        } catch (err) {
-          logger.error({ err, devWallet: token.devWallet }, 'Failed to subscribe to dev wallet');
-        }
-      }
-    }
+  health(): EventSourceHealth[] {
+    return this.sources.map((source) => {
+      const stats = this.stats.get(source.name);
+      const lastEventAt = stats?.lastEventAt ?? null;
+      return {
+        name: source.name,
+        ...source.health(),
+        eventCount: stats?.eventCount ?? 0,
+        lastEventAt: lastEventAt === null ? null : new Date(lastEventAt).toISOString(),
+      };
+    });
   }
 
-  private handleAccountChange(
-    address: string,
-    accountInfo: { lamports: number; data: Buffer },
-    slot: number,
-  ): void {
-    const event: InternalEvent = {
-      id: randomUUID(),
-      type: 'WALLET_TRANSACTION',
-      timestamp: Date.now(),
-      slot,
-      signature: '',
-      walletAddress: address,
-      direction: 'OUT',
-      amountLamports: accountInfo.lamports.toString(),
-    };
-
-    this.eventBus.emit(event);
-    this.persistEvent(event);
+  /** Start following the mint in every source that tracks mints. */
+  async trackMint(mintAddress: string): Promise<void> {
+    for (const source of this.sources) {
+      await source.trackMint?.(mintAddress);
+    }
   }
 
-  private handleDevWalletChange(
-    devWallet: string,
-    mintAddress: string,
-    _accountInfo: { lamports: number; data: Buffer },
-    slot: number,
-  ): void {
-    const event: DevWalletEvent = {
-      id: randomUUID(),
-      type: 'DEV_WALLET_SELL',
-      timestamp: Date.now(),
-      slot,
-      signature: '',
-      devWallet,
-      mintAddress,
-      amount: '0',
-      percentageOfHoldings: 0,
-    };
-
-    this.eventBus.emit(event);
-    this.persistEvent(event);
+  async addWalletSubscription(address: string, label?: string): Promise<void> {
+    for (const source of this.sources) {
+      await source.trackWallet?.(address, label);
+    }
   }
 
-  private persistEvent(event: InternalEvent): void {
+  private persistEvent(event: InternalEvent, source: string): void {
     const { db, logger } = this.container;
     db.eventLog
       .create({
         data: {
           eventType: event.type,
-          source: 'websocket',
+          source,
           payload: JSON.parse(JSON.stringify(event)),
           slot: BigInt(event.slot),
           signature: event.signature || null,
@@ -176,37 +92,17 @@ export class EventIngestionService {
       });
   }
 
-  async addWalletSubscription(address: string, label?: string): Promise<void> {
-    const { connection } = this.container.solana;
-    const pubkey = new PublicKey(address);
-
-    const subId = connection.onAccountChange(pubkey, (accountInfo, context) => {
-      this.handleAccountChange(address, accountInfo, context.slot);
-    });
-
-    this.subscriptions.push({ id: subId, type: 'account', address });
-    this.trackedWallets.set(address, {
-      address,
-      label: label ?? null,
-      devWallets: new Map(),
-    });
-
-    this.container.logger.info({ address, label }, 'Added wallet subscription');
-  }
-
   async stop(): Promise<void> {
-    const { connection } = this.container.solana;
     const logger = this.container.logger;
 
-    for (const sub of this.subscriptions) {
+    for (const source of [...this.sources].reverse()) {
       try {
-        await connection.removeAccountChangeListener(sub.id);
+        await source.stop();
       } catch (err) {
-        logger.error({ err, subId: sub.id }, 'Failed to remove subscription');
+        logger.error({ err, source: source.name }, 'Failed to stop event source');
       }
     }
 
-    this.subscriptions.length = 0;
     logger.info('Event ingestion stopped');
   }
 }
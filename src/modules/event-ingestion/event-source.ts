@@ -0,0 +1,29 @@
+import type { InternalEvent } from '../../types/events.js';
+
+export type EventSink = (event: InternalEvent) => void;
+
+export type EventSourceStatus = 'up' | 'degraded' | 'down';
+
+export interface EventSourceHealth {
+  name: string;
+  status: EventSourceStatus;
+  eventCount: number;
+  lastEventAt: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Something that produces normalized events: a websocket feed, a webhook, a
+ * file. `EventIngestionService` starts each source with a sink that publishes
+ * and persists what it emits, and counts events per source for health.
+ */
+export interface EventSource {
+  readonly name: string;
+  start(emit: EventSink): Promise<void>;
+  stop(): Promise<void>;
+  health(): Pick<EventSourceHealth, 'status' | 'details'>;
+  /** Follow a wallet registered after startup. */
+  trackWallet?(address: string, label?: string): Promise<void>;
+  /** Follow a mint registered after startup. */
+  trackMint?(mintAddress: string): Promise<void>;
+}
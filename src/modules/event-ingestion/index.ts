@@ -1 +1,8 @@
 export { EventIngestionService } from './event-ingestion.service.js';
+export { WebsocketEventSource } from './websocket-source.js';
+export { WebhookEventSource } from './webhook-source.js';
+export { FileEventSource } from './file-source.js';
+export type { EventSink, EventSource, EventSourceHealth } from './event-source.js';
+export type { WebsocketSourceConfig } from './websocket-source.js';
+export type { EnhancedTransaction } from './webhook-source.js';
+export type { FileSourceConfig } from './file-source.js';
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { PublicKey, type AccountInfo } from '@solana/web3.js';
+import { MINT_SIZE, MintLayout, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { decodeMintAccount, supplyChangePercentage } from './mint-state.js';
+
+const address = (seed: number): PublicKey => new PublicKey(new Uint8Array(32).fill(seed));
+
+const MINT = address(3);
+const AUTHORITY = address(5);
+
+function mintAccount(
+  owner: PublicKey,
+  supply: bigint,
+  mintAuthority?: PublicKey,
+): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: mintAuthority ? 1 : 0,
+      mintAuthority: mintAuthority ?? PublicKey.default,
+      supply,
+      decimals: 6,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    data,
+  );
+  return { data, owner, lamports: 1_461_600, executable: false, rentEpoch: 0 };
+}
+
+describe('decodeMintAccount', () => {
+  it('reads supply and authorities of SPL Token and Token-2022 mints', () => {
+    expect(decodeMintAccount(MINT, mintAccount(TOKEN_PROGRAM_ID, 1_000n, AUTHORITY))).toEqual({
+      supply: 1_000n,
+      mintAuthority: AUTHORITY.toBase58(),
+      freezeAuthority: null,
+    });
+    expect(decodeMintAccount(MINT, mintAccount(TOKEN_2022_PROGRAM_ID, 42n))).toEqual({
+      supply: 42n,
+      mintAuthority: null,
+      freezeAuthority: null,
+    });
+  });
+
+  it('ignores accounts owned by other programs', () => {
+    expect(decodeMintAccount(MINT, mintAccount(address(9), 1_000n))).toBeNull();
+  });
+});
+
+describe('supplyChangePercentage', () => {
+  it('is positive for inflation and negative for burns', () => {
+    expect(supplyChangePercentage(1_000n, 1_250n)).toBe(25);
+    expect(supplyChangePercentage(1_000n, 900n)).toBe(-10);
+    expect(supplyChangePercentage(0n, 900n)).toBe(0);
+  });
+});
@@ -0,0 +1,28 @@
+import type { AccountInfo, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackMint } from '@solana/spl-token';
+
+export interface MintState {
+  supply: bigint;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+}
+
+/** Supply and authorities of an SPL Token or Token-2022 mint; null for any other account. */
+export function decodeMintAccount(address: PublicKey, info: AccountInfo<Buffer>): MintState | null {
+  const programId = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].find((id) => id.equals(info.owner));
+  if (!programId) return null;
+
+  // unpackMint reads past Token-2022 extensions to the base mint layout
+  const mint = unpackMint(address, info, programId);
+  return {
+    supply: mint.supply,
+    mintAuthority: mint.mintAuthority?.toBase58() ?? null,
+    freezeAuthority: mint.freezeAuthority?.toBase58() ?? null,
+  };
+}
+
+/** Percentage change from `previous` to `next`, positive for inflation. */
+export function supplyChangePercentage(previous: bigint, next: bigint): number {
+  if (previous === 0n) return 0;
+  return Number(((next - previous) * 1_000_000n) / previous) / 10_000;
+}
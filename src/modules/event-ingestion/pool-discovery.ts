@@ -0,0 +1,124 @@
+import { PublicKey, type Connection, type GetProgramAccountsFilter } from '@solana/web3.js';
+import { NATIVE_MINT } from '@solana/spl-token';
+
+export type PoolDex = 'PUMPSWAP' | 'RAYDIUM_AMM' | 'RAYDIUM_CPMM';
+
+/** A SOL pair pool of a tracked mint, with the accounts LP decoding needs. */
+export interface LiquidityPool {
+  address: string;
+  dex: PoolDex;
+  mintAddress: string;
+  lpMint: string;
+  tokenVault: string;
+  solVault: string;
+}
+
+interface PoolLayout {
+  dex: PoolDex;
+  programId: PublicKey;
+  dataSize?: number;
+  // Byte offsets of the pubkeys in the pool account
+  mintA: number;
+  mintB: number;
+  vaultA: number;
+  vaultB: number;
+  lpMint: number;
+  lpSupply: number; // u64 LP supply the pool program tracks
+}
+
+// Only the first (base/token0) orientation is searched for PumpSwap: migrated
+// pump.fun pools always have the token as base and WSOL as quote.
+const LAYOUTS: PoolLayout[] = [
+  {
+    dex: 'PUMPSWAP',
+    programId: new PublicKey('pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA'),
+    mintA: 43,
+    mintB: 75,
+    lpMint: 107,
+    vaultA: 139,
+    vaultB: 171,
+    lpSupply: 203,
+  },
+  {
+    dex: 'RAYDIUM_AMM',
+    programId: new PublicKey('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8'),
+    dataSize: 752,
+    vaultA: 336,
+    vaultB: 368,
+    mintA: 400,
+    mintB: 432,
+    lpMint: 464,
+    lpSupply: 720,
+  },
+  {
+    dex: 'RAYDIUM_CPMM',
+    programId: new PublicKey('CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C'),
+    dataSize: 637,
+    vaultA: 72,
+    vaultB: 104,
+    lpMint: 136,
+    mintA: 168,
+    mintB: 200,
+    lpSupply: 333,
+  },
+];
+
+/** Every SOL pool for the mint across the supported AMMs. */
+export async function discoverPools(
+  connection: Connection,
+  mintAddress: string,
+): Promise<LiquidityPool[]> {
+  const wsol = NATIVE_MINT.toBase58();
+  const pools: LiquidityPool[] = [];
+
+  for (const layout of LAYOUTS) {
+    const orientations: Array<[string, string]> =
+      layout.dex === 'PUMPSWAP'
+        ? [[mintAddress, wsol]]
+        : [
+            [mintAddress, wsol],
+            [wsol, mintAddress],
+          ];
+
+    for (const [mintA, mintB] of orientations) {
+      const filters: GetProgramAccountsFilter[] = [
+        { memcmp: { offset: layout.mintA, bytes: mintA } },
+        { memcmp: { offset: layout.mintB, bytes: mintB } },
+      ];
+      if (layout.dataSize) filters.push({ dataSize: layout.dataSize });
+
+      const accounts = await connection.getProgramAccounts(layout.programId, {
+        commitment: 'confirmed',
+        filters,
+      });
+
+      for (const { pubkey, account } of accounts) {
+        const vaultA = readPubkey(account.data, layout.vaultA);
+        const vaultB = readPubkey(account.data, layout.vaultB);
+        const tokenIsA = mintA === mintAddress;
+
+        pools.push({
+          address: pubkey.toBase58(),
+          dex: layout.dex,
+          mintAddress,
+          lpMint: readPubkey(account.data, layout.lpMint),
+          tokenVault: tokenIsA ? vaultA : vaultB,
+          solVault: tokenIsA ? vaultB : vaultA,
+        });
+      }
+    }
+  }
+
+  return pools;
+}
+
+/** LP supply recorded in a pool account, or null when the data is too short for its layout. */
+export function decodePoolLpSupply(pool: LiquidityPool, data: Buffer): bigint | null {
+  const layout = LAYOUTS.find((l) => l.dex === pool.dex);
+  if (!layout || data.length < layout.lpSupply + 8) return null;
+  return data.readBigUInt64LE(layout.lpSupply);
+}
+
+function readPubkey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import { PublicKey, type ParsedTransactionWithMeta, type TokenBalance } from '@solana/web3.js';
+import {
+  decodeDevWalletActivity,
+  decodeLiquidityChange,
+  decodeWalletActivity,
+} from './transaction-decoder.js';
+import type { LiquidityPool } from './pool-discovery.js';
+
+const address = (seed: number): string => new PublicKey(new Uint8Array(32).fill(seed)).toBase58();
+
+const DEV = address(1);
+const BUYER = address(2);
+const MINT = address(3);
+const OTHER_MINT = address(4);
+const PUMP = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+function balance(accountIndex: number, owner: string, amount: bigint, mint = MINT): TokenBalance {
+  return {
+    accountIndex,
+    mint,
+    owner,
+    uiTokenAmount: { amount: amount.toString(), decimals: 6, uiAmount: null },
+  };
+}
+
+function tx(opts: {
+  programs: string[];
+  pre: TokenBalance[];
+  post: TokenBalance[];
+  devLamports?: [number, number];
+  err?: unknown;
+  accounts?: string[];
+}): ParsedTransactionWithMeta {
+  const [preLamports, postLamports] = opts.devLamports ?? [1_000_000_000, 1_000_000_000];
+  return {
+    slot: 100,
+    blockTime: 1_700_000_000,
+    transaction: {
+      signatures: ['sig'],
+      message: {
+        accountKeys: [DEV, ...(opts.accounts ?? [])].map((key) => ({
+          pubkey: new PublicKey(key),
+          signer: key === DEV,
+          writable: true,
+        })),
+        instructions: opts.programs.map((id) => ({
+          programId: new PublicKey(id),
+          accounts: [],
+          data: '',
+        })),
+        recentBlockhash: '',
+      },
+    },
+    meta: {
+      err: opts.err ?? null,
+      fee: 5000,
+      preBalances: [preLamports],
+      postBalances: [postLamports],
+      preTokenBalances: opts.pre,
+      postTokenBalances: opts.post,
+      innerInstructions: [],
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+describe('decodeDevWalletActivity', () => {
+  it('decodes a bonding curve sell with amount, share of holdings and SOL received', () => {
+    const activity = decodeDevWalletActivity(
+      tx({
+        programs: [PUMP],
+        pre: [balance(1, DEV, 1_000_000n)],
+        post: [balance(1, DEV, 750_000n)],
+        devLamports: [1_000_000_000, 1_499_995_000],
+      }),
+      DEV,
+      new Set([MINT]),
+    );
+
+    expect(activity).toEqual([
+      {
+        type: 'DEV_WALLET_SELL',
+        mintAddress: MINT,
+        amount: 250_000n,
+        previousBalance: 1_000_000n,
+        percentageOfHoldings: 25,
+        solReceived: 500_000_000n,
+      },
+    ]);
+  });
+
+  it('classifies a plain SPL transfer and names the recipient', () => {
+    const activity = decodeDevWalletActivity(
+      tx({
+        programs: [TOKEN_PROGRAM],
+        pre: [balance(1, DEV, 1_000_000n)],
+        post: [balance(1, DEV, 400_000n), balance(2, BUYER, 600_000n)],
+      }),
+      DEV,
+      new Set([MINT]),
+    );
+
+    expect(activity).toHaveLength(1);
+    expect(activity[0]).toMatchObject({
+      type: 'DEV_WALLET_TRANSFER',
+      amount: 600_000n,
+      percentageOfHoldings: 60,
+      recipient: BUYER,
+    });
+  });
+
+  it('sums every token account the dev owns and treats a closed account as empty', () => {
+    const activity = decodeDevWalletActivity(
+      tx({
+        programs: [PUMP],
+        pre: [balance(1, DEV, 300_000n), balance(2, DEV, 700_000n)],
+        post: [balance(1, DEV, 300_000n)],
+      }),
+      DEV,
+      new Set([MINT]),
+    );
+
+    expect(activity[0]).toMatchObject({ amount: 700_000n, percentageOfHoldings: 70 });
+  });
+
+  it('ignores buys, untracked mints and failed transactions', () => {
+    const mints = new Set([MINT]);
+
+    const buy = tx({
+      programs: [PUMP],
+      pre: [balance(1, DEV, 100n)],
+      post: [balance(1, DEV, 200n)],
+    });
+    const untracked = tx({
+      programs: [PUMP],
+      pre: [balance(1, DEV, 100n, OTHER_MINT)],
+      post: [balance(1, DEV, 0n, OTHER_MINT)],
+    });
+    const failed = tx({
+      programs: [PUMP],
+      pre: [balance(1, DEV, 100n)],
+      post: [balance(1, DEV, 0n)],
+      err: { InstructionError: [0, 'Custom'] },
+    });
+
+    expect(decodeDevWalletActivity(buy, DEV, mints)).toEqual([]);
+    expect(decodeDevWalletActivity(untracked, DEV, mints)).toEqual([]);
+    expect(decodeDevWalletActivity(failed, DEV, mints)).toEqual([]);
+  });
+});
+
+describe('decodeWalletActivity', () => {
+  it('reports the SOL change and each mint the wallet sent, with the receiver', () => {
+    const activity = decodeWalletActivity(
+      tx({
+        programs: [TOKEN_PROGRAM],
+        pre: [balance(1, DEV, 1_000n), balance(2, BUYER, 0n), balance(3, DEV, 50n, OTHER_MINT)],
+        post: [balance(1, DEV, 400n), balance(2, BUYER, 600n), balance(3, DEV, 50n, OTHER_MINT)],
+        devLamports: [1_000_000_000, 999_995_000],
+      }),
+      DEV,
+    );
+
+    expect(activity).toEqual({
+      lamportDelta: -5000n,
+      tokens: [
+        { mintAddress: MINT, previousBalance: 1_000n, newBalance: 400n, counterparty: BUYER },
+      ],
+    });
+  });
+
+  it('finds the sender of an inflow and leaves mints without a counterparty', () => {
+    const received = decodeWalletActivity(
+      tx({
+        programs: [TOKEN_PROGRAM],
+        pre: [balance(1, BUYER, 600n)],
+        post: [balance(1, BUYER, 0n), balance(2, DEV, 600n)],
+      }),
+      DEV,
+    );
+    const minted = decodeWalletActivity(
+      tx({ programs: [TOKEN_PROGRAM], pre: [], post: [balance(1, DEV, 100n)] }),
+      DEV,
+    );
+
+    expect(received!.lamportDelta).toBe(0n);
+    expect(received!.tokens).toEqual([
+      { mintAddress: MINT, previousBalance: 0n, newBalance: 600n, counterparty: BUYER },
+    ]);
+    expect(minted!.tokens[0]!.counterparty).toBeUndefined();
+  });
+
+  it('skips failed transactions', () => {
+    const failed = tx({
+      programs: [],
+      pre: [],
+      post: [],
+      err: { InstructionError: [0, 'Custom'] },
+    });
+    expect(decodeWalletActivity(failed, DEV)).toBeNull();
+  });
+});
+
+describe('decodeLiquidityChange', () => {
+  const WSOL = 'So11111111111111111111111111111111111111112';
+  const pool: LiquidityPool = {
+    address: address(10),
+    dex: 'PUMPSWAP',
+    mintAddress: MINT,
+    lpMint: address(11),
+    tokenVault: address(12),
+    solVault: address(13),
+  };
+  // Account 1 is the token vault, 2 the SOL vault, 3 the provider's LP token account
+  const accounts = [pool.tokenVault, pool.solVault, address(14)];
+  const reserves = (token: bigint, sol: bigint, lp: bigint): TokenBalance[] => [
+    balance(1, pool.address, token),
+    balance(2, pool.address, sol, WSOL),
+    balance(3, DEV, lp, pool.lpMint),
+  ];
+
+  it('decodes a withdrawal with the amounts taken and the reserves before it', () => {
+    const change = decodeLiquidityChange(
+      tx({
+        programs: [],
+        accounts,
+        pre: reserves(1_000_000n, 80_000_000_000n, 500n),
+        post: reserves(750_000n, 60_000_000_000n, 0n),
+      }),
+      pool,
+    );
+
+    expect(change).toEqual({
+      type: 'LP_REMOVE',
+      liquidityAmount: 500n,
+      solAmount: 20_000_000_000n,
+      tokenAmount: 250_000n,
+      solReserve: 80_000_000_000n,
+      tokenReserve: 1_000_000n,
+    });
+  });
+
+  it('decodes a deposit', () => {
+    const change = decodeLiquidityChange(
+      tx({
+        programs: [],
+        accounts,
+        pre: reserves(1_000_000n, 80_000_000_000n, 0n),
+        post: reserves(1_100_000n, 88_000_000_000n, 40n),
+      }),
+      pool,
+    );
+
+    expect(change).toMatchObject({
+      type: 'LP_ADD',
+      liquidityAmount: 40n,
+      solAmount: 8_000_000_000n,
+    });
+  });
+
+  it('ignores swaps', () => {
+    const swap = tx({
+      programs: [],
+      accounts,
+      pre: reserves(1_000_000n, 80_000_000_000n, 0n),
+      post: reserves(900_000n, 89_000_000_000n, 0n),
+    });
+
+    expect(decodeLiquidityChange(swap, pool)).toBeNull();
+  });
+});
@@ -0,0 +1,262 @@
+import type { ParsedTransactionWithMeta, TokenBalance } from '@solana/web3.js';
+import type { LiquidityPool } from './pool-discovery.js';
+
+// Programs a dev sells through. Token leaving the dev wallet in a transaction that
+// invokes none of them is a transfer (to another wallet, a CEX, a burn...).
+const SWAP_PROGRAM_IDS = new Set([
+  '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P', // Pump.fun bonding curve
+  'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA', // PumpSwap AMM
+  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', // Raydium AMM v4
+  'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C', // Raydium CPMM
+  'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK', // Raydium CLMM
+  'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo', // Meteora DLMM
+  'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', // Jupiter v6
+]);
+
+export interface DevWalletActivity {
+  type: 'DEV_WALLET_SELL' | 'DEV_WALLET_TRANSFER';
+  mintAddress: string;
+  amount: bigint;
+  previousBalance: bigint;
+  percentageOfHoldings: number;
+  recipient?: string;
+  solReceived?: bigint;
+}
+
+export interface TokenBalanceDelta {
+  mintAddress: string;
+  previousBalance: bigint;
+  newBalance: bigint;
+  /** The other side of the move: the largest receiver of an outflow, or sender of an inflow. */
+  counterparty?: string;
+}
+
+export interface LiquidityChange {
+  type: 'LP_ADD' | 'LP_REMOVE';
+  liquidityAmount: bigint;
+  solAmount: bigint;
+  tokenAmount: bigint;
+  solReserve: bigint;
+  tokenReserve: bigint;
+}
+
+export interface WalletActivity {
+  /** Net lamport change of the wallet, fees included; 0n when SOL did not move. */
+  lamportDelta: bigint;
+  tokens: TokenBalanceDelta[];
+}
+
+/**
+ * Token outflows of the dev wallet in one transaction, per tracked mint. Amounts
+ * come from the pre/post token balances, summed over every token account the dev
+ * owns, so closed accounts and Token-2022 mints are handled the same way.
+ */
+export function decodeDevWalletActivity(
+  tx: ParsedTransactionWithMeta,
+  devWallet: string,
+  mints: ReadonlySet<string>,
+): DevWalletActivity[] {
+  const { meta } = tx;
+  if (!meta || meta.err) return [];
+
+  const pre = balancesByOwner(meta.preTokenBalances ?? [], mints);
+  const post = balancesByOwner(meta.postTokenBalances ?? [], mints);
+  const isSwap = invokedPrograms(tx).some((id) => SWAP_PROGRAM_IDS.has(id));
+  const activity: DevWalletActivity[] = [];
+
+  for (const mintAddress of mints) {
+    const previousBalance = pre.get(ownerKey(mintAddress, devWallet)) ?? 0n;
+    const newBalance = post.get(ownerKey(mintAddress, devWallet)) ?? 0n;
+    const amount = previousBalance - newBalance;
+    if (amount <= 0n) continue;
+
+    const percentageOfHoldings = Number((amount * 1_000_000n) / previousBalance) / 10_000;
+
+    if (isSwap) {
+      activity.push({
+        type: 'DEV_WALLET_SELL',
+        mintAddress,
+        amount,
+        previousBalance,
+        percentageOfHoldings,
+        solReceived: solReceived(tx, devWallet),
+      });
+    } else {
+      activity.push({
+        type: 'DEV_WALLET_TRANSFER',
+        mintAddress,
+        amount,
+        previousBalance,
+        percentageOfHoldings,
+        recipient: largestCounterparty(pre, post, mintAddress, devWallet, 1n),
+      });
+    }
+  }
+
+  return activity;
+}
+
+/**
+ * Everything a transaction did to a tracked wallet: its SOL balance and its
+ * balance of every mint whose total across the wallet's token accounts changed.
+ */
+export function decodeWalletActivity(
+  tx: ParsedTransactionWithMeta,
+  walletAddress: string,
+): WalletActivity | null {
+  const { meta } = tx;
+  if (!meta || meta.err) return null;
+
+  const pre = balancesByOwner(meta.preTokenBalances ?? []);
+  const post = balancesByOwner(meta.postTokenBalances ?? []);
+  const mints = new Set([...pre.keys(), ...post.keys()].map((key) => key.split(':')[0]!));
+  const tokens: TokenBalanceDelta[] = [];
+
+  for (const mintAddress of [...mints].sort()) {
+    const previousBalance = pre.get(ownerKey(mintAddress, walletAddress)) ?? 0n;
+    const newBalance = post.get(ownerKey(mintAddress, walletAddress)) ?? 0n;
+    if (previousBalance === newBalance) continue;
+
+    // Tokens that left went to whoever gained most, and arrivals came from whoever lost most
+    const sign = newBalance < previousBalance ? 1n : -1n;
+    tokens.push({
+      mintAddress,
+      previousBalance,
+      newBalance,
+      counterparty: largestCounterparty(pre, post, mintAddress, walletAddress, sign),
+    });
+  }
+
+  return { lamportDelta: lamportDelta(tx, walletAddress) ?? 0n, tokens };
+}
+
+/**
+ * Liquidity added to or removed from a pool. Instead of decoding each AMM's
+ * instruction layout, this reads the direction from the LP mint (minted on
+ * deposit, burned on withdrawal) and the amounts from the pool vaults. Swaps
+ * move the vaults in opposite directions and leave LP supply alone, so they
+ * decode to null.
+ */
+export function decodeLiquidityChange(
+  tx: ParsedTransactionWithMeta,
+  pool: LiquidityPool,
+): LiquidityChange | null {
+  const { meta } = tx;
+  if (!meta || meta.err) return null;
+
+  const accountAddress = (index: number): string | undefined =>
+    tx.transaction.message.accountKeys[index]?.pubkey.toBase58();
+  const vault = (balances: TokenBalance[], address: string): bigint => {
+    const entry = balances.find((b) => accountAddress(b.accountIndex) === address);
+    return entry ? BigInt(entry.uiTokenAmount.amount) : 0n;
+  };
+  const lpTotal = (balances: TokenBalance[]): bigint =>
+    balances
+      .filter((b) => b.mint === pool.lpMint)
+      .reduce((sum, b) => sum + BigInt(b.uiTokenAmount.amount), 0n);
+
+  const pre = meta.preTokenBalances ?? [];
+  const post = meta.postTokenBalances ?? [];
+  const solReserve = vault(pre, pool.solVault);
+  const tokenReserve = vault(pre, pool.tokenVault);
+  const solDelta = vault(post, pool.solVault) - solReserve;
+  const tokenDelta = vault(post, pool.tokenVault) - tokenReserve;
+  const lpDelta = lpTotal(post) - lpTotal(pre);
+
+  if (lpDelta > 0n && solDelta >= 0n && tokenDelta >= 0n) {
+    return {
+      type: 'LP_ADD',
+      liquidityAmount: lpDelta,
+      solAmount: solDelta,
+      tokenAmount: tokenDelta,
+      solReserve,
+      tokenReserve,
+    };
+  }
+
+  if (lpDelta < 0n && solDelta <= 0n && tokenDelta <= 0n) {
+    return {
+      type: 'LP_REMOVE',
+      liquidityAmount: -lpDelta,
+      solAmount: -solDelta,
+      tokenAmount: -tokenDelta,
+      solReserve,
+      tokenReserve,
+    };
+  }
+
+  return null;
+}
+
+function ownerKey(mintAddress: string, owner: string): string {
+  return `${mintAddress}:${owner}`;
+}
+
+function balancesByOwner(
+  balances: TokenBalance[],
+  mints?: ReadonlySet<string>,
+): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  for (const balance of balances) {
+    if (!balance.owner || (mints && !mints.has(balance.mint))) continue;
+    const key = ownerKey(balance.mint, balance.owner);
+    totals.set(key, (totals.get(key) ?? 0n) + BigInt(balance.uiTokenAmount.amount));
+  }
+  return totals;
+}
+
+function invokedPrograms(tx: ParsedTransactionWithMeta): string[] {
+  const outer = tx.transaction.message.instructions.map((ix) => ix.programId.toBase58());
+  const inner = (tx.meta?.innerInstructions ?? []).flatMap((group) =>
+    group.instructions.map((ix) => ix.programId.toBase58()),
+  );
+  return [...outer, ...inner];
+}
+
+/**
+ * Owner other than `wallet` whose balance of the mint moved most in the given
+ * direction: sign 1n finds the largest gain, -1n the largest loss.
+ */
+function largestCounterparty(
+  pre: Map<string, bigint>,
+  post: Map<string, bigint>,
+  mintAddress: string,
+  wallet: string,
+  sign: bigint,
+): string | undefined {
+  const prefix = `${mintAddress}:`;
+  const keys = new Set([...pre.keys(), ...post.keys()]);
+  let counterparty: string | undefined;
+  let largest = 0n;
+
+  for (const key of keys) {
+    if (!key.startsWith(prefix)) continue;
+    const owner = key.slice(prefix.length);
+    const moved = ((post.get(key) ?? 0n) - (pre.get(key) ?? 0n)) * sign;
+    if (owner !== wallet && moved > largest) {
+      largest = moved;
+      counterparty = owner;
+    }
+  }
+
+  return counterparty;
+}
+
+function lamportDelta(tx: ParsedTransactionWithMeta, address: string): bigint | null {
+  const { meta } = tx;
+  const index = tx.transaction.message.accountKeys.findIndex(
+    (key) => key.pubkey.toBase58() === address,
+  );
+  if (!meta || index < 0) return null;
+  return BigInt(meta.postBalances[index]! - meta.preBalances[index]!);
+}
+
+/** Lamports the dev got out of a sell, with the fee added back when the dev paid it. */
+function solReceived(tx: ParsedTransactionWithMeta, devWallet: string): bigint | undefined {
+  const delta = lamportDelta(tx, devWallet);
+  if (delta === null) return undefined;
+
+  const feePayer = tx.transaction.message.accountKeys[0]?.pubkey.toBase58() === devWallet;
+  const received = delta + BigInt(feePayer ? (tx.meta?.fee ?? 0) : 0);
+  return received > 0n ? received : undefined;
+}
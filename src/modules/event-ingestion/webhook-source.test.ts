@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { WebhookEventSource, type EnhancedTransaction } from './webhook-source.js';
+import type { Container } from '../../infra/container.js';
+
+const address = (seed: number): string => new PublicKey(new Uint8Array(32).fill(seed)).toBase58();
+
+const WALLET = address(1);
+const DEV = address(2);
+const BUYER = address(3);
+const MINT = address(4);
+
+function createMockContainer(): Container {
+  return {
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Container['logger'],
+    db: {
+      wallet: { findMany: vi.fn().mockResolvedValue([{ address: WALLET }]) },
+      trackedToken: {
+        findMany: vi.fn().mockResolvedValue([{ mintAddress: MINT, devWallet: DEV }]),
+      },
+    } as unknown as Container['db'],
+    redis: {} as Container['redis'],
+    solana: {
+      connection: {
+        // What the dev holds after the transaction
+        getParsedTokenAccountsByOwner: vi.fn().mockResolvedValue({
+          value: [{ account: { data: { parsed: { info: { tokenAmount: { amount: '750' } } } } } }],
+        }),
+      },
+    } as unknown as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+}
+
+function tokenChange(userAccount: string, amount: string) {
+  return { userAccount, mint: MINT, rawTokenAmount: { tokenAmount: amount } };
+}
+
+describe('WebhookEventSource', () => {
+  let source: WebhookEventSource;
+  let emit: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    source = new WebhookEventSource(createMockContainer());
+    emit = vi.fn();
+    await source.start(emit);
+  });
+
+  it('normalizes SOL and token moves of tracked wallets', async () => {
+    const tx: EnhancedTransaction = {
+      signature: 'sig-1',
+      slot: 200,
+      timestamp: 1_700_000_000,
+      type: 'TRANSFER',
+      accountData: [
+        { account: WALLET, nativeBalanceChange: -5000 },
+        { account: 'ata-1', tokenBalanceChanges: [tokenChange(WALLET, '-400')] },
+        { account: 'ata-2', tokenBalanceChanges: [tokenChange(BUYER, '400')] },
+      ],
+    };
+
+    expect(await source.receive([tx])).toBe(3);
+    expect(emit.mock.calls.map(([event]) => event)).toEqual([
+      expect.objectContaining({
+        type: 'WALLET_TRANSACTION',
+        walletAddress: WALLET,
+        direction: 'OUT',
+        amountLamports: '5000',
+        slot: 200,
+        timestamp: 1_700_000_000_000,
+      }),
+      expect.objectContaining({
+        type: 'WALLET_TRANSACTION',
+        walletAddress: WALLET,
+        mintAddress: MINT,
+        direction: 'OUT',
+        amountLamports: '400',
+      }),
+      expect.objectContaining({
+        type: 'TOKEN_TRANSFER',
+        mintAddress: MINT,
+        from: WALLET,
+        to: BUYER,
+        amount: '400',
+      }),
+    ]);
+  });
+
+  it('emits a dev sell measured against the balance before the sale', async () => {
+    const tx: EnhancedTransaction = {
+      signature: 'sig-2',
+      slot: 201,
+      type: 'SWAP',
+      fee: 5000,
+      feePayer: DEV,
+      accountData: [
+        { account: DEV, nativeBalanceChange: 99_995_000 },
+        { account: 'ata-dev', tokenBalanceChanges: [tokenChange(DEV, '-250')] },
+      ],
+    };
+
+    expect(await source.receive([tx])).toBe(1);
+    expect(emit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'DEV_WALLET_SELL',
+        devWallet: DEV,
+        mintAddress: MINT,
+        amount: '250',
+        percentageOfHoldings: 25,
+        solReceived: '100000000',
+      }),
+    );
+  });
+
+  it('skips failed and redelivered transactions', async () => {
+    const tx: EnhancedTransaction = {
+      signature: 'sig-3',
+      slot: 202,
+      accountData: [{ account: WALLET, nativeBalanceChange: 1000 }],
+    };
+
+    await source.receive([tx, { ...tx, signature: 'sig-4', transactionError: 'failed' }]);
+    await source.receive([tx]);
+
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(source.health()).toEqual({ status: 'up', details: { transactionsReceived: 3 } });
+  });
+});
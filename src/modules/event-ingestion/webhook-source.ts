@@ -0,0 +1,267 @@
+import { PublicKey } from '@solana/web3.js';
+import { randomUUID } from 'node:crypto';
+import type { Container } from '../../infra/container.js';
+import type { BaseEvent, DevWalletEvent, InternalEvent } from '../../types/events.js';
+import type { EventSink, EventSource, EventSourceHealth } from './event-source.js';
+
+// Indexer transaction types under which tokens leaving the dev count as a sale
+const SELL_TYPES = new Set(['SWAP', 'SELL']);
+const RECENT_SIGNATURE_LIMIT = 10_000;
+
+/** The parts of an indexer's enhanced transaction (Helius-style) that are normalized. */
+export interface EnhancedTransaction {
+  signature: string;
+  slot: number;
+  timestamp?: number; // unix seconds
+  type?: string;
+  fee?: number;
+  feePayer?: string;
+  transactionError?: unknown;
+  accountData?: Array<{
+    account: string;
+    nativeBalanceChange?: number;
+    tokenBalanceChanges?: Array<{
+      userAccount: string;
+      mint: string;
+      rawTokenAmount: { tokenAmount: string };
+    }>;
+  }>;
+}
+
+/**
+ * Events pushed by an indexer webhook. Balance changes of tracked wallets
+ * become WALLET_TRANSACTION and TOKEN_TRANSFER events, and tokens leaving a
+ * dev wallet a DEV_WALLET_SELL or DEV_WALLET_TRANSFER. Enhanced payloads carry
+ * deltas but no balances, so TOKEN_BALANCE_CHANGE is not produced and the
+ * dev's share sold is measured against the balance read back over RPC.
+ */
+export class WebhookEventSource implements EventSource {
+  readonly name = 'webhook';
+  private readonly container: Container;
+  private readonly wallets: Set<string> = new Set();
+  private readonly devWallets: Map<string, string> = new Map(); // mintAddress -> devWallet
+  private readonly recentSignatures: Set<string> = new Set();
+  private emit: EventSink = () => {};
+  private running = false;
+  private transactionsReceived = 0;
+
+  constructor(container: Container) {
+    this.container = container;
+  }
+
+  async start(emit: EventSink): Promise<void> {
+    const { db } = this.container;
+    this.emit = emit;
+
+    const wallets = await db.wallet.findMany({ where: { isActive: true } });
+    const tokens = await db.trackedToken.findMany({ where: { isActive: true } });
+
+    for (const wallet of wallets) this.wallets.add(wallet.address);
+    for (const token of tokens) {
+      if (token.devWallet) this.devWallets.set(token.mintAddress, token.devWallet);
+    }
+
+    this.running = true;
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wallets.clear();
+    this.devWallets.clear();
+    this.recentSignatures.clear();
+  }
+
+  health(): Pick<EventSourceHealth, 'status' | 'details'> {
+    return {
+      status: this.running ? 'up' : 'down',
+      details: { transactionsReceived: this.transactionsReceived },
+    };
+  }
+
+  async trackWallet(address: string): Promise<void> {
+    this.wallets.add(address);
+  }
+
+  async trackMint(mintAddress: string): Promise<void> {
+    const tokens = await this.container.db.trackedToken.findMany({
+      where: { mintAddress, isActive: true },
+    });
+    for (const token of tokens) {
+      if (token.devWallet) this.devWallets.set(mintAddress, token.devWallet);
+    }
+  }
+
+  /**
+   * Normalize and emit a pushed batch, returning the number of events emitted.
+   * Indexers redeliver on failure, so signatures already seen are skipped.
+   */
+  async receive(transactions: EnhancedTransaction[]): Promise<number> {
+    let emitted = 0;
+
+    for (const tx of transactions) {
+      this.transactionsReceived++;
+      if (tx.transactionError || this.recentSignatures.has(tx.signature)) continue;
+
+      // Everything is decoded before anything is emitted, so a failed balance read leaves nothing half-done
+      const events = await this.normalize(tx);
+      for (const event of events) this.emit(event);
+      emitted += events.length;
+
+      this.recentSignatures.add(tx.signature);
+      if (this.recentSignatures.size > RECENT_SIGNATURE_LIMIT) {
+        const oldest = this.recentSignatures.values().next().value;
+        if (oldest !== undefined) this.recentSignatures.delete(oldest);
+      }
+    }
+
+    return emitted;
+  }
+
+  private async normalize(tx: EnhancedTransaction): Promise<InternalEvent[]> {
+    const base: Pick<BaseEvent, 'timestamp' | 'slot' | 'signature'> = {
+      timestamp: tx.timestamp ? tx.timestamp * 1000 : Date.now(),
+      slot: tx.slot,
+      signature: tx.signature,
+    };
+    const events: InternalEvent[] = [];
+
+    for (const account of tx.accountData ?? []) {
+      const change = account.nativeBalanceChange ?? 0;
+      if (!this.wallets.has(account.account) || change === 0) continue;
+      events.push({
+        id: randomUUID(),
+        type: 'WALLET_TRANSACTION',
+        ...base,
+        walletAddress: account.account,
+        direction: change < 0 ? 'OUT' : 'IN',
+        amountLamports: Math.abs(change).toString(),
+      });
+    }
+
+    const deltas = tokenDeltas(tx);
+    for (const [key, delta] of deltas) {
+      const [mintAddress, owner] = key.split(':') as [string, string];
+      const out = delta < 0n;
+      const amount = out ? -delta : delta;
+      // Tokens that left went to whoever gained most, and arrivals came from whoever lost most
+      const counterparty = largestCounterparty(deltas, mintAddress, owner, out ? 1n : -1n);
+
+      if (this.wallets.has(owner)) {
+        events.push({
+          id: randomUUID(),
+          type: 'WALLET_TRANSACTION',
+          ...base,
+          walletAddress: owner,
+          mintAddress,
+          direction: out ? 'OUT' : 'IN',
+          amountLamports: amount.toString(),
+        });
+
+        if (counterparty) {
+          events.push({
+            id: randomUUID(),
+            type: 'TOKEN_TRANSFER',
+            ...base,
+            mintAddress,
+            from: out ? owner : counterparty,
+            to: out ? counterparty : owner,
+            amount: amount.toString(),
+          });
+        }
+      }
+
+      if (out && this.devWallets.get(mintAddress) === owner) {
+        events.push(await this.devWalletEvent(tx, base, owner, mintAddress, amount, counterparty));
+      }
+    }
+
+    return events;
+  }
+
+  private async devWalletEvent(
+    tx: EnhancedTransaction,
+    base: Pick<BaseEvent, 'timestamp' | 'slot' | 'signature'>,
+    devWallet: string,
+    mintAddress: string,
+    amount: bigint,
+    recipient: string | undefined,
+  ): Promise<DevWalletEvent> {
+    // The balance now, so the share is understated if the dev has moved tokens since
+    const previousBalance = (await this.tokenBalance(devWallet, mintAddress)) + amount;
+    const percentageOfHoldings = Number((amount * 1_000_000n) / previousBalance) / 10_000;
+
+    if (SELL_TYPES.has(tx.type ?? '')) {
+      const change = tx.accountData?.find((a) => a.account === devWallet)?.nativeBalanceChange ?? 0;
+      const received = change + (tx.feePayer === devWallet ? (tx.fee ?? 0) : 0);
+      return {
+        id: randomUUID(),
+        type: 'DEV_WALLET_SELL',
+        ...base,
+        devWallet,
+        mintAddress,
+        amount: amount.toString(),
+        percentageOfHoldings,
+        solReceived: received > 0 ? received.toString() : undefined,
+      };
+    }
+
+    return {
+      id: randomUUID(),
+      type: 'DEV_WALLET_TRANSFER',
+      ...base,
+      devWallet,
+      mintAddress,
+      amount: amount.toString(),
+      percentageOfHoldings,
+      recipient,
+    };
+  }
+
+  private async tokenBalance(owner: string, mintAddress: string): Promise<bigint> {
+    const { value } = await this.container.solana.connection.getParsedTokenAccountsByOwner(
+      new PublicKey(owner),
+      { mint: new PublicKey(mintAddress) },
+      'confirmed',
+    );
+    return value.reduce(
+      (sum, { account }) => sum + BigInt(account.data.parsed.info.tokenAmount.amount as string),
+      0n,
+    );
+  }
+}
+
+/** Net raw token change per `mint:owner`, summed over the owner's token accounts. */
+function tokenDeltas(tx: EnhancedTransaction): Map<string, bigint> {
+  const deltas = new Map<string, bigint>();
+  for (const account of tx.accountData ?? []) {
+    for (const change of account.tokenBalanceChanges ?? []) {
+      const key = `${change.mint}:${change.userAccount}`;
+      deltas.set(key, (deltas.get(key) ?? 0n) + BigInt(change.rawTokenAmount.tokenAmount));
+    }
+  }
+  for (const [key, delta] of deltas) {
+    if (delta === 0n) deltas.delete(key);
+  }
+  return deltas;
+}
+
+function largestCounterparty(
+  deltas: Map<string, bigint>,
+  mintAddress: string,
+  wallet: string,
+  sign: bigint,
+): string | undefined {
+  let counterparty: string | undefined;
+  let largest = 0n;
+
+  for (const [key, delta] of deltas) {
+    const [mint, owner] = key.split(':');
+    if (mint !== mintAddress || owner === wallet) continue;
+    if (delta * sign > largest) {
+      largest = delta * sign;
+      counterparty = owner;
+    }
+  }
+
+  return counterparty;
+}
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { WebsocketEventSource } from './websocket-source.js';
+import type { Container } from '../../infra/container.js';
+import type { AlertService } from '../alerts/alert.service.js';
+
+const address = (seed: number): string => new PublicKey(new Uint8Array(32).fill(seed)).toBase58();
+
+const WALLET = address(1);
+
+function solTransfer(signature: string, slot: number): ParsedTransactionWithMeta {
+  return {
+    slot,
+    blockTime: 1_700_000_000,
+    transaction: {
+      signatures: [signature],
+      message: {
+        accountKeys: [{ pubkey: new PublicKey(WALLET), signer: true, writable: true }],
+        instructions: [],
+        recentBlockhash: '',
+      },
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [2_000_000_000],
+      postBalances: [1_000_000_000],
+      preTokenBalances: [],
+      postTokenBalances: [],
+      innerInstructions: [],
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+function createMockContainer(): Container {
+  return {
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Container['logger'],
+    db: {
+      wallet: {
+        findMany: vi.fn().mockResolvedValue([{ address: WALLET, label: null }]),
+      },
+      trackedToken: { findMany: vi.fn().mockResolvedValue([]) },
+      ingestionCursor: {
+        findMany: vi
+          .fn()
+          .mockResolvedValue([{ kind: 'wallet', address: WALLET, signature: 'sig-1', slot: 100n }]),
+        upsert: vi.fn().mockResolvedValue({}),
+      },
+      eventLog: {
+        findFirst: vi
+          .fn()
+          .mockImplementation(async ({ where }) =>
+            where.signature === 'sig-2' ? { id: 'logged' } : null,
+          ),
+      },
+    } as unknown as Container['db'],
+    redis: {} as Container['redis'],
+    solana: {
+      connection: {
+        onLogs: vi.fn().mockReturnValue(1),
+        onSlotChange: vi.fn().mockReturnValue(2),
+        removeOnLogsListener: vi.fn().mockResolvedValue(undefined),
+        removeSlotChangeListener: vi.fn().mockResolvedValue(undefined),
+        getSignaturesForAddress: vi.fn().mockResolvedValue([
+          { signature: 'sig-3', slot: 103, err: null },
+          { signature: 'sig-2', slot: 102, err: null },
+        ]),
+        getParsedTransaction: vi
+          .fn()
+          .mockImplementation(async (signature: string) => solTransfer(signature, 103)),
+      },
+    } as unknown as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+}
+
+describe('WebsocketEventSource', () => {
+  let source: WebsocketEventSource;
+  let container: Container;
+  let emit: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    container = createMockContainer();
+    emit = vi.fn();
+    source = new WebsocketEventSource(container, {} as AlertService, {
+      poolDiscoveryIntervalMs: 60_000,
+      wsStaleTimeoutMs: 30_000,
+      slotGapThreshold: 150,
+    });
+    await source.start(emit);
+  });
+
+  afterEach(async () => {
+    await source.stop();
+  });
+
+  it('backfills transactions since the cursor, skipping those already in the event log', async () => {
+    const { connection } = container.solana;
+
+    await vi.waitFor(() => {
+      expect(container.db.ingestionCursor.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { signature: 'sig-3', slot: 103n } }),
+      );
+    });
+
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledWith(
+      new PublicKey(WALLET),
+      { until: 'sig-1', limit: 1000 },
+      'confirmed',
+    );
+    expect(connection.getParsedTransaction).toHaveBeenCalledTimes(1);
+    expect(connection.getParsedTransaction).toHaveBeenCalledWith('sig-3', expect.anything());
+    expect(emit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'WALLET_TRANSACTION',
+        signature: 'sig-3',
+        walletAddress: WALLET,
+        direction: 'OUT',
+      }),
+    );
+  });
+
+  it('processes a signature once when it arrives both live and from a backfill', async () => {
+    const { connection } = container.solana;
+    await vi.waitFor(() => {
+      expect(connection.getParsedTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    const onLogs = vi.mocked(connection.onLogs).mock.calls[0]![1];
+    onLogs({ signature: 'sig-3', err: null, logs: [] }, { slot: 103 });
+    onLogs({ signature: 'sig-4', err: null, logs: [] }, { slot: 104 });
+
+    await vi.waitFor(() => {
+      expect(connection.getParsedTransaction).toHaveBeenCalledTimes(2);
+    });
+    expect(connection.getParsedTransaction).toHaveBeenLastCalledWith('sig-4', expect.anything());
+  });
+
+  it('holds the cursor before a failed transaction and retries it on the next backfill', async () => {
+    const { connection } = container.solana;
+    await vi.waitFor(() => {
+      expect(connection.getParsedTransaction).toHaveBeenCalledTimes(1);
+    });
+    vi.mocked(connection.getParsedTransaction).mockRejectedValueOnce(new Error('RPC timeout'));
+
+    const onLogs = vi.mocked(connection.onLogs).mock.calls[0]![1];
+    onLogs({ signature: 'sig-4', err: null, logs: [] }, { slot: 104 });
+    await vi.waitFor(() => {
+      expect(connection.getParsedTransaction).toHaveBeenCalledTimes(2);
+    });
+    onLogs({ signature: 'sig-5', err: null, logs: [] }, { slot: 105 });
+    await vi.waitFor(() => {
+      expect(emit).toHaveBeenCalledWith(expect.objectContaining({ signature: 'sig-5' }));
+    });
+    expect(container.db.ingestionCursor.upsert).not.toHaveBeenCalledWith(
+      expect.objectContaining({ update: { signature: 'sig-5', slot: 105n } }),
+    );
+
+    vi.mocked(connection.getSignaturesForAddress).mockResolvedValueOnce([
+      { signature: 'sig-5', slot: 105, err: null, memo: null, blockTime: null },
+      { signature: 'sig-4', slot: 104, err: null, memo: null, blockTime: null },
+    ]);
+    const onSlot = vi.mocked(connection.onSlotChange).mock.calls[0]![0];
+    onSlot({ slot: 1000, parent: 999, root: 968 });
+    onSlot({ slot: 1400, parent: 1399, root: 1368 });
+
+    await vi.waitFor(() => {
+      expect(emit).toHaveBeenCalledWith(expect.objectContaining({ signature: 'sig-4' }));
+    });
+    expect(connection.getSignaturesForAddress).toHaveBeenLastCalledWith(
+      new PublicKey(WALLET),
+      { until: 'sig-3', limit: 1000 },
+      'confirmed',
+    );
+    expect(container.db.ingestionCursor.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ update: { signature: 'sig-4', slot: 104n } }),
+    );
+  });
+
+  it('leaves the cursor to a queued catch-up when live signatures arrive meanwhile', async () => {
+    const { connection } = container.solana;
+    await vi.waitFor(() => {
+      expect(container.db.ingestionCursor.upsert).toHaveBeenLastCalledWith(
+        expect.objectContaining({ update: { signature: 'sig-3', slot: 103n } }),
+      );
+    });
+    const saved = vi.mocked(container.db.ingestionCursor.upsert).mock.calls.length;
+
+    let releaseFirst: (value: []) => void = () => {};
+    vi.mocked(connection.getSignaturesForAddress)
+      .mockReturnValueOnce(new Promise((resolve) => (releaseFirst = resolve)))
+      .mockResolvedValueOnce([
+        { signature: 'sig-5', slot: 105, err: null, memo: null, blockTime: null },
+        { signature: 'sig-4', slot: 104, err: null, memo: null, blockTime: null },
+      ]);
+    const onSlot = vi.mocked(connection.onSlotChange).mock.calls[0]![0];
+    onSlot({ slot: 1000, parent: 999, root: 968 });
+    onSlot({ slot: 1400, parent: 1399, root: 1368 });
+    await vi.waitFor(() => {
+      expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(2);
+    });
+    onSlot({ slot: 1800, parent: 1799, root: 1768 });
+
+    const onLogs = vi.mocked(connection.onLogs).mock.calls[0]![1];
+    onLogs({ signature: 'sig-5', err: null, logs: [] }, { slot: 105 });
+    await vi.waitFor(() => {
+      expect(emit).toHaveBeenCalledWith(expect.objectContaining({ signature: 'sig-5' }));
+    });
+    expect(container.db.ingestionCursor.upsert).toHaveBeenCalledTimes(saved);
+
+    releaseFirst([]);
+    await vi.waitFor(() => {
+      expect(emit).toHaveBeenCalledWith(expect.objectContaining({ signature: 'sig-4' }));
+    });
+    expect(connection.getSignaturesForAddress).toHaveBeenLastCalledWith(
+      new PublicKey(WALLET),
+      { until: 'sig-3', limit: 1000 },
+      'confirmed',
+    );
+    expect(container.db.ingestionCursor.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ update: { signature: 'sig-4', slot: 104n } }),
+    );
+
+    onLogs({ signature: 'sig-6', err: null, logs: [] }, { slot: 106 });
+    await vi.waitFor(() => {
+      expect(container.db.ingestionCursor.upsert).toHaveBeenLastCalledWith(
+        expect.objectContaining({ update: { signature: 'sig-6', slot: 106n } }),
+      );
+    });
+  });
+
+  it('backfills again when slot notifications skip past the gap threshold', async () => {
+    const { connection } = container.solana;
+    await vi.waitFor(() => {
+      expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(1);
+    });
+
+    const onSlot = vi.mocked(connection.onSlotChange).mock.calls[0]![0];
+    onSlot({ slot: 1000, parent: 999, root: 968 });
+    onSlot({ slot: 1001, parent: 1000, root: 969 });
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(1);
+
+    onSlot({ slot: 1400, parent: 1399, root: 1368 });
+    await vi.waitFor(() => {
+      expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(2);
+    });
+    expect(connection.getSignaturesForAddress).toHaveBeenLastCalledWith(
+      new PublicKey(WALLET),
+      { until: 'sig-3', limit: 1000 },
+      'confirmed',
+    );
+  });
+});
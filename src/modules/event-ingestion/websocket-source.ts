@@ -0,0 +1,965 @@
+import { PublicKey, type AccountInfo, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { randomUUID } from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { Container } from '../../infra/container.js';
+import type { AlertService } from '../alerts/alert.service.js';
+import type {
+  BaseEvent,
+  InternalEvent,
+  DevWalletEvent,
+  LPEvent,
+  SupplyChangeEvent,
+} from '../../types/events.js';
+import {
+  decodeDevWalletActivity,
+  decodeLiquidityChange,
+  decodeWalletActivity,
+  type LiquidityChange,
+} from './transaction-decoder.js';
+import { decodePoolLpSupply, discoverPools, type LiquidityPool } from './pool-discovery.js';
+import { decodeMintAccount, supplyChangePercentage, type MintState } from './mint-state.js';
+import type { EventSink, EventSource, EventSourceHealth } from './event-source.js';
+
+// A transaction seen in logs at `confirmed` can lag a moment behind getTransaction
+const TX_FETCH_ATTEMPTS = 3;
+const TX_FETCH_RETRY_MS = 500;
+// Upper bound on how far back one backfill pass walks an address
+const BACKFILL_MAX_SIGNATURES = 1000;
+const RECENT_SIGNATURE_LIMIT = 10_000;
+// Failed or not-found transactions hold the cursor back for this many attempts
+const SIGNATURE_MAX_ATTEMPTS = 5;
+
+export interface WebsocketSourceConfig {
+  poolDiscoveryIntervalMs: number;
+  /** Resubscribe when no slot notification has arrived for this long. */
+  wsStaleTimeoutMs: number;
+  /** Backfill when consecutive slot notifications are further apart than this. */
+  slotGapThreshold: number;
+}
+
+type LogsKind = 'wallet' | 'devWallet' | 'pool';
+
+// Payload field holding the subscribed address on the events each kind emits
+const PAYLOAD_ADDRESS_KEY: Record<LogsKind, string> = {
+  wallet: 'walletAddress',
+  devWallet: 'devWallet',
+  pool: 'poolAddress',
+};
+
+type TransactionProcessor = (signature: string, slot: number) => Promise<void>;
+
+interface Subscription {
+  id: number;
+  type: 'account' | 'logs';
+  address: string;
+  subscribe: () => number;
+  /** Recovers what was missed while disconnected: backfills signatures or re-reads the account. */
+  catchUp: () => Promise<void>;
+  /** Logs subscriptions: the cursor their catch-up resumes from. */
+  cursorKey?: string;
+}
+
+interface Cursor {
+  signature: string;
+  slot: number;
+}
+
+interface TrackedWallet {
+  address: string;
+  label: string | null;
+  devWallets: Map<string, string>; // mintAddress -> devWallet
+}
+
+/**
+ * Events from RPC websocket subscriptions: logs of tracked wallets, dev wallets
+ * and pools, decoded from the fetched transactions, and tracked mint accounts.
+ */
+export class WebsocketEventSource implements EventSource {
+  readonly name = 'websocket';
+  private readonly container: Container;
+  private readonly subscriptions: Subscription[] = [];
+  private readonly trackedWallets: Map<string, TrackedWallet> = new Map();
+  private readonly trackedMints: Set<string> = new Set();
+  private readonly devWalletMints: Map<string, Set<string>> = new Map(); // devWallet -> mints
+  private readonly pools: Map<string, LiquidityPool> = new Map();
+  private readonly mintStates: Map<string, MintState & { initialSupply: bigint }> = new Map();
+  private readonly alerts: AlertService;
+  private readonly config: WebsocketSourceConfig;
+  private readonly cursors: Map<string, Cursor> = new Map(); // kind:address -> last processed
+  private readonly recentSignatures: Set<string> = new Set(); // kind:address:signature
+  // kind:address -> signature -> slot and attempts of transactions still to be retried
+  private readonly failedSignatures: Map<string, Map<string, { slot: number; attempts: number }>> =
+    new Map();
+  // kind:address -> catch-ups queued or running, during which live signatures leave the cursor alone
+  private readonly pendingCatchUps: Map<string, number> = new Map();
+  private discoveryInterval: ReturnType<typeof setInterval> | null = null;
+  private healthInterval: ReturnType<typeof setInterval> | null = null;
+  private discovering = false;
+  private slotSubscriptionId: number | null = null;
+  private lastSlot = 0;
+  private lastSlotAt = 0;
+  private backfillChain: Promise<void> = Promise.resolve();
+  private emit: EventSink = () => {};
+
+  constructor(container: Container, alerts: AlertService, config: WebsocketSourceConfig) {
+    this.container = container;
+    this.alerts = alerts;
+    this.config = config;
+  }
+
+  async start(emit: EventSink): Promise<void> {
+    const { logger, db } = this.container;
+    this.emit = emit;
+
+    const wallets = await db.wallet.findMany({ where: { isActive: true } });
+    const tokens = await db.trackedToken.findMany({
+      where: { isActive: true },
+      include: { wallet: true },
+    });
+
+    for (const wallet of wallets) {
+      this.trackedWallets.set(wallet.address, {
+        address: wallet.address,
+        label: wallet.label,
+        devWallets: new Map(),
+      });
+    }
+
+    for (const token of tokens) {
+      this.trackedMints.add(token.mintAddress);
+      const tracked = this.trackedWallets.get(token.wallet.address);
+      if (tracked && token.devWallet) {
+        tracked.devWallets.set(token.mintAddress, token.devWallet);
+      }
+    }
+
+    for (const cursor of await db.ingestionCursor.findMany()) {
+      this.cursors.set(cursorKey(cursor.kind as LogsKind, cursor.address), {
+        signature: cursor.signature,
+        slot: Number(cursor.slot),
+      });
+    }
+
+    this.watchSlots();
+
+    await this.subscribeToWallets();
+    await this.subscribeToDevWallets(tokens);
+    for (const mintAddress of this.trackedMints) {
+      await this.subscribeToMint(mintAddress);
+    }
+    await this.discoverAllPools();
+
+    // Tokens migrate off the bonding curve at any time, so keep looking for new pools
+    this.discoveryInterval = setInterval(() => {
+      this.discoverAllPools().catch((err) => {
+        logger.error({ err }, 'Pool discovery failed');
+      });
+    }, this.config.poolDiscoveryIntervalMs);
+
+    this.healthInterval = setInterval(() => {
+      this.checkHealth();
+    }, this.config.wsStaleTimeoutMs / 2);
+
+    logger.info(
+      {
+        walletCount: wallets.length,
+        tokenCount: tokens.length,
+        poolCount: this.pools.size,
+        subscriptionCount: this.subscriptions.length,
+      },
+      'Websocket source started',
+    );
+  }
+
+  /** Start watching the mint account and liquidity pools of a mint registered after startup. */
+  async trackMint(mintAddress: string): Promise<void> {
+    if (this.trackedMints.has(mintAddress)) return;
+    this.trackedMints.add(mintAddress);
+    await this.subscribeToMint(mintAddress);
+    await this.discoverMintPools(mintAddress);
+  }
+
+  /**
+   * Watch the mint account for supply and authority changes. The baseline is
+   * the supply last recorded on the tracked token, so a mint that inflated
+   * while we were down is reported once on startup.
+   */
+  private async subscribeToMint(mintAddress: string): Promise<void> {
+    const { connection } = this.container.solana;
+    const { db, logger } = this.container;
+
+    try {
+      const pubkey = new PublicKey(mintAddress);
+      const { context, value: info } = await connection.getAccountInfoAndContext(
+        pubkey,
+        'confirmed',
+      );
+      const current = info ? decodeMintAccount(pubkey, info) : null;
+      if (!current) {
+        logger.warn({ mint: mintAddress }, 'Tracked mint is not an SPL token mint');
+        return;
+      }
+
+      const recorded = await db.trackedToken.findFirst({
+        where: { mintAddress },
+        orderBy: { createdAt: 'asc' },
+      });
+      const initialSupply = BigInt(recorded?.initialSupply ?? current.supply);
+      const lastSupply = BigInt(recorded?.currentSupply ?? initialSupply);
+      // Authorities are only on record once the mint has been watched
+      const known = recorded?.currentSupply
+        ? { mintAuthority: recorded.mintAuthority, freezeAuthority: recorded.freezeAuthority }
+        : current;
+
+      this.mintStates.set(mintAddress, { ...known, supply: lastSupply, initialSupply });
+      await this.applyMintState(mintAddress, current, context.slot);
+
+      if (
+        !authoritiesChanged(known, current) &&
+        (current.mintAuthority || current.freezeAuthority)
+      ) {
+        void this.alerts.mintAuthorityFlagged({
+          mintAddress,
+          mintAuthority: current.mintAuthority,
+          freezeAuthority: current.freezeAuthority,
+        });
+      }
+
+      const subscribe = (): number =>
+        connection.onAccountChange(
+          pubkey,
+          (accountInfo, context) => {
+            this.handleMintChange(mintAddress, pubkey, accountInfo, context.slot);
+          },
+          'confirmed',
+        );
+
+      this.subscriptions.push({
+        id: subscribe(),
+        type: 'account',
+        address: mintAddress,
+        subscribe,
+        catchUp: () => this.refreshMint(mintAddress, pubkey),
+      });
+      logger.debug({ mint: mintAddress }, 'Subscribed to mint account');
+    } catch (err) {
+      logger.error({ err, mint: mintAddress }, 'Failed to subscribe to mint');
+    }
+  }
+
+  /** Re-read the mint account, for changes made while the subscription was down. */
+  private async refreshMint(mintAddress: string, pubkey: PublicKey): Promise<void> {
+    const { context, value: info } =
+      await this.container.solana.connection.getAccountInfoAndContext(pubkey, 'confirmed');
+    const next = info ? decodeMintAccount(pubkey, info) : null;
+    if (next) await this.applyMintState(mintAddress, next, context.slot);
+  }
+
+  private async discoverAllPools(): Promise<void> {
+    if (this.discovering) return;
+    this.discovering = true;
+
+    try {
+      for (const mintAddress of this.trackedMints) {
+        await this.discoverMintPools(mintAddress);
+      }
+    } finally {
+      this.discovering = false;
+    }
+  }
+
+  private async discoverMintPools(mintAddress: string): Promise<void> {
+    const { connection } = this.container.solana;
+    const logger = this.container.logger;
+
+    try {
+      const pools = await discoverPools(connection, mintAddress);
+
+      for (const pool of pools) {
+        if (this.pools.has(pool.address)) continue;
+
+        this.watchLogs('pool', pool.address, (signature, slot) =>
+          this.processPoolTransaction(pool, signature, slot),
+        );
+        this.pools.set(pool.address, pool);
+        logger.info(
+          { pool: pool.address, dex: pool.dex, mint: mintAddress },
+          'Liquidity pool discovered',
+        );
+      }
+    } catch (err) {
+      logger.error({ err, mint: mintAddress }, 'Failed to discover liquidity pools');
+    }
+  }
+
+  private async subscribeToWallets(): Promise<void> {
+    const logger = this.container.logger;
+
+    for (const [address] of this.trackedWallets) {
+      try {
+        this.subscribeToWallet(address);
+        logger.debug({ address }, 'Subscribed to wallet transactions');
+      } catch (err) {
+        logger.error({ err, address }, 'Failed to subscribe to wallet');
+      }
+    }
+  }
+
+  private subscribeToWallet(address: string): void {
+    this.watchLogs('wallet', address, (signature, slot) =>
+      this.processWalletTransaction(address, signature, slot),
+    );
+  }
+
+  private async subscribeToDevWallets(
+    tokens: Array<{ mintAddress: string; devWallet: string | null; wallet: { address: string } }>,
+  ): Promise<void> {
+    const logger = this.container.logger;
+
+    // One dev can launch several tracked mints; a single subscription covers them all
+    for (const token of tokens) {
+      if (!token.devWallet) continue;
+      const mints = this.devWalletMints.get(token.devWallet) ?? new Set<string>();
+      mints.add(token.mintAddress);
+      this.devWalletMints.set(token.devWallet, mints);
+    }
+
+    for (const [devWallet, mints] of this.devWalletMints) {
+      try {
+        this.watchLogs('devWallet', devWallet, (signature, slot) =>
+          this.processDevWalletTransaction(devWallet, signature, slot),
+        );
+        logger.debug({ devWallet, mints: [...mints] }, 'Subscribed to dev wallet');
+      } catch (err) {
+        logger.error({ err, devWallet }, 'Failed to subscribe to dev wallet');
+      }
+    }
+  }
+
+  /**
+   * Subscribe to the transactions that mention an address. A new subscription
+   * also queues a backfill, which resumes from the cursor the previous run left
+   * or, for an address seen for the first time, just records its latest signature.
+   */
+  private watchLogs(kind: LogsKind, address: string, process: TransactionProcessor): void {
+    const { connection } = this.container.solana;
+    const pubkey = new PublicKey(address);
+    const subscribe = (): number =>
+      connection.onLogs(
+        pubkey,
+        (logs, context) => {
+          if (logs.err) return;
+          void this.processSignature(kind, address, logs.signature, context.slot, process);
+        },
+        'confirmed',
+      );
+
+    const subscription: Subscription = {
+      id: subscribe(),
+      type: 'logs',
+      address,
+      subscribe,
+      catchUp: () => this.backfill(kind, address, process),
+      cursorKey: cursorKey(kind, address),
+    };
+    this.subscriptions.push(subscription);
+    void this.queueCatchUp([subscription]);
+  }
+
+  /** Process a signature once per subscription, whether it arrived live or from a backfill. */
+  private async processSignature(
+    kind: LogsKind,
+    address: string,
+    signature: string,
+    slot: number,
+    process: TransactionProcessor,
+    backfilled = false,
+  ): Promise<void> {
+    const key = `${cursorKey(kind, address)}:${signature}`;
+    if (this.recentSignatures.has(key)) return;
+    this.rememberSignature(key);
+
+    try {
+      await process(signature, slot);
+      this.failedSignatures.get(cursorKey(kind, address))?.delete(signature);
+      this.advanceCursor(kind, address, signature, slot, backfilled);
+    } catch (err) {
+      this.recordFailure(kind, address, signature, slot, err);
+    }
+  }
+
+  /**
+   * Forget a failed signature so the next backfill fetches it again. Until it
+   * succeeds or runs out of attempts the cursor stays before it, so it is still
+   * within what that backfill walks, and after a restart too.
+   */
+  private recordFailure(
+    kind: LogsKind,
+    address: string,
+    signature: string,
+    slot: number,
+    err: unknown,
+  ): void {
+    const logger = this.container.logger;
+    const failed = this.failedSignatures.get(cursorKey(kind, address)) ?? new Map();
+    this.failedSignatures.set(cursorKey(kind, address), failed);
+    const attempts = (failed.get(signature)?.attempts ?? 0) + 1;
+
+    if (attempts >= SIGNATURE_MAX_ATTEMPTS) {
+      failed.delete(signature);
+      logger.error(
+        { err, kind, address, signature, attempts },
+        'Failed to process transaction, giving up',
+      );
+      return;
+    }
+
+    failed.set(signature, { slot, attempts });
+    this.recentSignatures.delete(`${cursorKey(kind, address)}:${signature}`);
+    logger.error(
+      { err, kind, address, signature, attempts },
+      'Failed to process transaction, retrying on next backfill',
+    );
+  }
+
+  /**
+   * Process every transaction of the address since its cursor, oldest first,
+   * skipping those whose events are already in the event log.
+   */
+  private async backfill(
+    kind: LogsKind,
+    address: string,
+    process: TransactionProcessor,
+  ): Promise<void> {
+    const { connection } = this.container.solana;
+    const logger = this.container.logger;
+    const pubkey = new PublicKey(address);
+    const cursor = this.cursors.get(cursorKey(kind, address));
+
+    if (!cursor) {
+      const [latest] = await connection.getSignaturesForAddress(pubkey, { limit: 1 }, 'confirmed');
+      if (latest) this.advanceCursor(kind, address, latest.signature, latest.slot, true);
+      return;
+    }
+
+    // Newest first, so a truncated page loses the oldest of the missed transactions
+    const missed = await connection.getSignaturesForAddress(
+      pubkey,
+      { until: cursor.signature, limit: BACKFILL_MAX_SIGNATURES },
+      'confirmed',
+    );
+    if (missed.length === 0) return;
+    if (missed.length === BACKFILL_MAX_SIGNATURES) {
+      logger.warn(
+        { kind, address, since: cursor.signature },
+        'Backfill truncated, older missed transactions were not recovered',
+      );
+    }
+
+    let recovered = 0;
+    for (const info of missed.reverse()) {
+      if (info.err || (await this.alreadyIngested(kind, address, info.signature))) {
+        this.advanceCursor(kind, address, info.signature, info.slot, true);
+        continue;
+      }
+      await this.processSignature(kind, address, info.signature, info.slot, process, true);
+      recovered++;
+    }
+
+    logger.info({ kind, address, checked: missed.length, recovered }, 'Backfill complete');
+  }
+
+  private async alreadyIngested(
+    kind: LogsKind,
+    address: string,
+    signature: string,
+  ): Promise<boolean> {
+    const logged = await this.container.db.eventLog.findFirst({
+      where: { signature, payload: { path: [PAYLOAD_ADDRESS_KEY[kind]], equals: address } },
+      select: { id: true },
+    });
+    return logged !== null;
+  }
+
+  /**
+   * Move the cursor up to a processed signature. While a catch-up of the
+   * address is queued or running only that catch-up moves it: a live signature
+   * would carry it past the transactions the catch-up is there to recover.
+   */
+  private advanceCursor(
+    kind: LogsKind,
+    address: string,
+    signature: string,
+    slot: number,
+    backfilled = false,
+  ): void {
+    const key = cursorKey(kind, address);
+    if (!backfilled && this.pendingCatchUps.has(key)) return;
+    const current = this.cursors.get(key);
+    if (current && current.slot > slot) return;
+    // Backfill only walks signatures newer than the cursor
+    for (const failed of this.failedSignatures.get(key)?.values() ?? []) {
+      if (failed.slot <= slot) return;
+    }
+    this.cursors.set(key, { signature, slot });
+
+    const { db, logger } = this.container;
+    db.ingestionCursor
+      .upsert({
+        where: { kind_address: { kind, address } },
+        create: { kind, address, signature, slot: BigInt(slot) },
+        update: { signature, slot: BigInt(slot) },
+      })
+      .catch((err) => {
+        logger.error({ err, kind, address }, 'Failed to save ingestion cursor');
+      });
+  }
+
+  private rememberSignature(key: string): void {
+    this.recentSignatures.add(key);
+    if (this.recentSignatures.size > RECENT_SIGNATURE_LIMIT) {
+      const oldest = this.recentSignatures.values().next().value;
+      if (oldest !== undefined) this.recentSignatures.delete(oldest);
+    }
+  }
+
+  /** Catch-ups run one at a time so a reconnect doesn't hit the RPC for every address at once. */
+  private queueCatchUp(subscriptions: Subscription[]): Promise<void> {
+    for (const sub of subscriptions) {
+      const key = sub.cursorKey;
+      if (key) this.pendingCatchUps.set(key, (this.pendingCatchUps.get(key) ?? 0) + 1);
+
+      this.backfillChain = this.backfillChain
+        .then(() => sub.catchUp())
+        .catch((err) => {
+          this.container.logger.error({ err, address: sub.address }, 'Catch-up failed');
+        })
+        .finally(() => {
+          if (!key) return;
+          const pending = (this.pendingCatchUps.get(key) ?? 1) - 1;
+          if (pending > 0) this.pendingCatchUps.set(key, pending);
+          else this.pendingCatchUps.delete(key);
+        });
+    }
+    return this.backfillChain;
+  }
+
+  /** Slot notifications double as the websocket heartbeat and reveal gaps in what we received. */
+  private watchSlots(): void {
+    this.lastSlotAt = Date.now();
+    this.slotSubscriptionId = this.container.solana.connection.onSlotChange(({ slot }) => {
+      this.handleSlot(slot);
+    });
+  }
+
+  private handleSlot(slot: number): void {
+    const gap = this.lastSlot ? slot - this.lastSlot : 0;
+    this.lastSlot = Math.max(this.lastSlot, slot);
+    this.lastSlotAt = Date.now();
+
+    // The connection reconnects its socket by itself, but drops what was sent meanwhile
+    if (gap > this.config.slotGapThreshold) {
+      this.container.logger.warn({ from: slot - gap, to: slot, gap }, 'Slot gap detected');
+      void this.queueCatchUp(this.subscriptions);
+    }
+  }
+
+  private checkHealth(): void {
+    const silentMs = Date.now() - this.lastSlotAt;
+    if (silentMs < this.config.wsStaleTimeoutMs) return;
+
+    this.container.logger.warn(
+      { silentMs, lastSlot: this.lastSlot, subscriptionCount: this.subscriptions.length },
+      'Websocket stale, resubscribing',
+    );
+    this.resubscribe().catch((err) => {
+      this.container.logger.error({ err }, 'Resubscribe failed');
+    });
+  }
+
+  private async resubscribe(): Promise<void> {
+    const { connection } = this.container.solana;
+
+    if (this.slotSubscriptionId !== null) {
+      await connection.removeSlotChangeListener(this.slotSubscriptionId).catch(() => undefined);
+    }
+    for (const sub of this.subscriptions) {
+      await this.unsubscribe(sub);
+      sub.id = sub.subscribe();
+    }
+
+    // The catch-up below covers the outage, so the first new slot must not count as a gap
+    this.lastSlot = 0;
+    this.watchSlots();
+    await this.queueCatchUp(this.subscriptions);
+    this.container.logger.info(
+      { subscriptionCount: this.subscriptions.length },
+      'Resubscribed and caught up',
+    );
+  }
+
+  private async unsubscribe(sub: Subscription): Promise<void> {
+    const { connection } = this.container.solana;
+
+    try {
+      if (sub.type === 'logs') {
+        await connection.removeOnLogsListener(sub.id);
+      } else {
+        await connection.removeAccountChangeListener(sub.id);
+      }
+    } catch (err) {
+      this.container.logger.error({ err, subId: sub.id }, 'Failed to remove subscription');
+    }
+  }
+
+  private async processWalletTransaction(
+    address: string,
+    signature: string,
+    slot: number,
+  ): Promise<void> {
+    const tx = await this.fetchTransaction(signature);
+
+    const activity = decodeWalletActivity(tx, address);
+    if (!activity) return;
+
+    const base = transactionBase(tx, signature, slot);
+    const events: InternalEvent[] = [];
+
+    if (activity.lamportDelta !== 0n) {
+      const out = activity.lamportDelta < 0n;
+      events.push({
+        id: randomUUID(),
+        type: 'WALLET_TRANSACTION',
+        ...base,
+        walletAddress: address,
+        direction: out ? 'OUT' : 'IN',
+        amountLamports: (out ? -activity.lamportDelta : activity.lamportDelta).toString(),
+      });
+    }
+
+    for (const token of activity.tokens) {
+      const out = token.newBalance < token.previousBalance;
+      const amount = (
+        out ? token.previousBalance - token.newBalance : token.newBalance - token.previousBalance
+      ).toString();
+
+      events.push({
+        id: randomUUID(),
+        type: 'TOKEN_BALANCE_CHANGE',
+        ...base,
+        walletAddress: address,
+        mintAddress: token.mintAddress,
+        previousBalance: token.previousBalance.toString(),
+        newBalance: token.newBalance.toString(),
+      });
+
+      events.push({
+        id: randomUUID(),
+        type: 'WALLET_TRANSACTION',
+        ...base,
+        walletAddress: address,
+        mintAddress: token.mintAddress,
+        direction: out ? 'OUT' : 'IN',
+        amountLamports: amount,
+      });
+
+      // Mints and burns have no counterparty, so they only change the balance
+      if (token.counterparty) {
+        events.push({
+          id: randomUUID(),
+          type: 'TOKEN_TRANSFER',
+          ...base,
+          mintAddress: token.mintAddress,
+          from: out ? address : token.counterparty,
+          to: out ? token.counterparty : address,
+          amount,
+        });
+      }
+    }
+
+    for (const event of events) {
+      this.emit(event);
+    }
+  }
+
+  private async processDevWalletTransaction(
+    devWallet: string,
+    signature: string,
+    slot: number,
+  ): Promise<void> {
+    const mints = this.devWalletMints.get(devWallet);
+    if (!mints || mints.size === 0) return;
+
+    const tx = await this.fetchTransaction(signature);
+
+    for (const activity of decodeDevWalletActivity(tx, devWallet, mints)) {
+      const event: DevWalletEvent = {
+        id: randomUUID(),
+        type: activity.type,
+        ...transactionBase(tx, signature, slot),
+        devWallet,
+        mintAddress: activity.mintAddress,
+        amount: activity.amount.toString(),
+        percentageOfHoldings: activity.percentageOfHoldings,
+        recipient: activity.recipient,
+        solReceived: activity.solReceived?.toString(),
+      };
+
+      this.container.logger.info(
+        {
+          type: event.type,
+          devWallet,
+          mint: event.mintAddress,
+          amount: event.amount,
+          percentageOfHoldings: event.percentageOfHoldings,
+          signature,
+        },
+        'Dev wallet activity detected',
+      );
+
+      this.emit(event);
+    }
+  }
+
+  private handleMintChange(
+    mintAddress: string,
+    pubkey: PublicKey,
+    accountInfo: AccountInfo<Buffer>,
+    slot: number,
+  ): void {
+    const next = decodeMintAccount(pubkey, accountInfo);
+    if (!next) return;
+
+    this.applyMintState(mintAddress, next, slot).catch((err) => {
+      this.container.logger.error({ err, mint: mintAddress }, 'Failed to apply mint change');
+    });
+  }
+
+  /**
+   * Emit SUPPLY_CHANGE when supply moved since the last-seen state, alert when
+   * an authority changed, and record the new state.
+   */
+  private async applyMintState(mintAddress: string, next: MintState, slot: number): Promise<void> {
+    const state = this.mintStates.get(mintAddress);
+    if (!state) return;
+
+    if (next.supply !== state.supply) {
+      const event: SupplyChangeEvent = {
+        id: randomUUID(),
+        type: 'SUPPLY_CHANGE',
+        timestamp: Date.now(),
+        slot,
+        signature: '',
+        mintAddress,
+        previousSupply: state.supply.toString(),
+        newSupply: next.supply.toString(),
+        changePercentage: supplyChangePercentage(state.supply, next.supply),
+        initialSupply: state.initialSupply.toString(),
+        changeFromInitialPercentage: supplyChangePercentage(state.initialSupply, next.supply),
+      };
+
+      this.container.logger.warn(
+        {
+          mint: mintAddress,
+          previousSupply: event.previousSupply,
+          newSupply: event.newSupply,
+          changePercentage: event.changePercentage,
+        },
+        'Mint supply changed',
+      );
+
+      this.emit(event);
+    }
+
+    if (authoritiesChanged(state, next)) {
+      void this.alerts.mintAuthorityFlagged({
+        mintAddress,
+        mintAuthority: next.mintAuthority,
+        freezeAuthority: next.freezeAuthority,
+        previous: { mintAuthority: state.mintAuthority, freezeAuthority: state.freezeAuthority },
+      });
+    }
+
+    this.mintStates.set(mintAddress, { ...next, initialSupply: state.initialSupply });
+
+    const { db } = this.container;
+    await db.trackedToken.updateMany({
+      where: { mintAddress },
+      data: {
+        currentSupply: next.supply.toString(),
+        mintAuthority: next.mintAuthority,
+        freezeAuthority: next.freezeAuthority,
+      },
+    });
+    await db.trackedToken.updateMany({
+      where: { mintAddress, initialSupply: null },
+      data: { initialSupply: state.initialSupply.toString() },
+    });
+  }
+
+  private async processPoolTransaction(
+    pool: LiquidityPool,
+    signature: string,
+    slot: number,
+  ): Promise<void> {
+    const tx = await this.fetchTransaction(signature);
+
+    // Most pool transactions are swaps, which decode to null
+    const change = decodeLiquidityChange(tx, pool);
+    if (!change) return;
+
+    const lpSupply = await this.lpSupplyBefore(pool, change);
+    const event: LPEvent = {
+      id: randomUUID(),
+      type: change.type,
+      ...transactionBase(tx, signature, slot),
+      poolAddress: pool.address,
+      mintAddress: pool.mintAddress,
+      liquidityAmount: change.liquidityAmount.toString(),
+      solAmount: change.solAmount.toString(),
+      tokenAmount: change.tokenAmount.toString(),
+      solReserve: change.solReserve.toString(),
+      tokenReserve: change.tokenReserve.toString(),
+      ...(lpSupply !== null && { lpSupply: lpSupply.toString() }),
+    };
+
+    this.container.logger.info(
+      {
+        type: event.type,
+        pool: pool.address,
+        dex: pool.dex,
+        mint: pool.mintAddress,
+        solAmount: event.solAmount,
+        signature,
+      },
+      'Liquidity change detected',
+    );
+
+    this.emit(event);
+  }
+
+  /**
+   * LP supply before a liquidity change, worked back from the supply the pool
+   * account records now. A later change landing before the read skews it; the
+   * state engine falls back to the SOL reserve when the supply is missing.
+   */
+  private async lpSupplyBefore(
+    pool: LiquidityPool,
+    change: LiquidityChange,
+  ): Promise<bigint | null> {
+    try {
+      const info = await this.container.solana.connection.getAccountInfo(
+        new PublicKey(pool.address),
+        'confirmed',
+      );
+      const supply = info ? decodePoolLpSupply(pool, info.data) : null;
+      if (supply === null) return null;
+
+      const before =
+        change.type === 'LP_ADD'
+          ? supply - change.liquidityAmount
+          : supply + change.liquidityAmount;
+      return before >= 0n ? before : null;
+    } catch (err) {
+      this.container.logger.warn({ err, pool: pool.address }, 'Failed to read pool LP supply');
+      return null;
+    }
+  }
+
+  /** Throws when the transaction is still not found, so it is retried like a failure. */
+  private async fetchTransaction(signature: string): Promise<ParsedTransactionWithMeta> {
+    const { connection } = this.container.solana;
+
+    for (let attempt = 1; attempt <= TX_FETCH_ATTEMPTS; attempt++) {
+      const tx = await connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      if (tx) return tx;
+      if (attempt < TX_FETCH_ATTEMPTS) await sleep(TX_FETCH_RETRY_MS);
+    }
+
+    throw new Error(`Transaction ${signature} not found`);
+  }
+
+  async trackWallet(address: string, label?: string): Promise<void> {
+    this.subscribeToWallet(address);
+    this.trackedWallets.set(address, {
+      address,
+      label: label ?? null,
+      devWallets: new Map(),
+    });
+
+    this.container.logger.info({ address, label }, 'Added wallet subscription');
+  }
+
+  async stop(): Promise<void> {
+    const { connection } = this.container.solana;
+    const logger = this.container.logger;
+
+    if (this.discoveryInterval) {
+      clearInterval(this.discoveryInterval);
+      this.discoveryInterval = null;
+    }
+    if (this.healthInterval) {
+      clearInterval(this.healthInterval);
+      this.healthInterval = null;
+    }
+    if (this.slotSubscriptionId !== null) {
+      await connection.removeSlotChangeListener(this.slotSubscriptionId).catch((err) => {
+        logger.error({ err }, 'Failed to remove slot subscription');
+      });
+      this.slotSubscriptionId = null;
+    }
+
+    for (const sub of this.subscriptions) {
+      await this.unsubscribe(sub);
+    }
+
+    this.subscriptions.length = 0;
+    this.devWalletMints.clear();
+    this.pools.clear();
+    this.mintStates.clear();
+    this.cursors.clear();
+    this.recentSignatures.clear();
+    this.failedSignatures.clear();
+    this.pendingCatchUps.clear();
+  }
+
+  health(): Pick<EventSourceHealth, 'status' | 'details'> {
+    const silentMs = Date.now() - this.lastSlotAt;
+    return {
+      status: silentMs < this.config.wsStaleTimeoutMs ? 'up' : 'down',
+      details: {
+        lastSlot: this.lastSlot,
+        lastSlotAt: this.lastSlotAt ? new Date(this.lastSlotAt).toISOString() : null,
+        subscriptionCount: this.subscriptions.length,
+        poolCount: this.pools.size,
+      },
+    };
+  }
+}
+
+function cursorKey(kind: LogsKind, address: string): string {
+  return `${kind}:${address}`;
+}
+
+function authoritiesChanged(
+  a: Pick<MintState, 'mintAuthority' | 'freezeAuthority'>,
+  b: Pick<MintState, 'mintAuthority' | 'freezeAuthority'>,
+): boolean {
+  return a.mintAuthority !== b.mintAuthority || a.freezeAuthority !== b.freezeAuthority;
+}
+
+/** Slot and time of the transaction itself rather than of the notification. */
+function transactionBase(
+  tx: ParsedTransactionWithMeta,
+  signature: string,
+  slot: number,
+): Pick<BaseEvent, 'timestamp' | 'slot' | 'signature'> {
+  return {
+    timestamp: tx.blockTime ? tx.blockTime * 1000 : Date.now(),
+    slot: tx.slot || slot,
+    signature,
+  };
+}
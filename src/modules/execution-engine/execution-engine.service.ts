@@ -10,6 +10,7 @@ import type { Container } from '../../infra/container.js';
 import type { StateEngine } from '../state-engine/state-engine.service.js';
 import type { RiskEngine } from '../risk-engine/risk-engine.service.js';
 import type { PumpFunService } from '../pumpfun/pumpfun.service.js';
+import type { AlertService } from '../alerts/alert.service.js';
 import type {
   ExecutionRequest,
   ExecutionResult,
@@ -24,17 +25,20 @@ export class ExecutionEngine {
   private readonly stateEngine: StateEngine;
   private readonly riskEngine: RiskEngine;
   private readonly pumpfun: PumpFunService;
+  private readonly alerts: AlertService;
 
   constructor(
     container: Container,
     stateEngine: StateEngine,
     riskEngine: RiskEngine,
     pumpfun: PumpFunService,
+    alerts: AlertService,
   ) {
     this.container = container;
     this.stateEngine = stateEngine;
     this.riskEngine = riskEngine;
     this.pumpfun = pumpfun;
+    this.alerts = alerts;
   }
 
   async execute(request: ExecutionRequest): Promise<ExecutionResult> {
@@ -71,6 +75,7 @@ export class ExecutionEngine {
       };
 
       await this.persistExecution(executionId, request, result);
+      void this.alerts.riskRejected(request, riskCheck.violations);
       return result;
     }
 
@@ -88,6 +93,7 @@ export class ExecutionEngine {
         completedAt: new Date(),
       };
       await this.persistExecution(executionId, request, result);
+      this.reportFailure(request, result);
       return result;
     }
 
@@ -133,6 +139,7 @@ export class ExecutionEngine {
           completedAt: new Date(),
         };
         await this.persistExecution(executionId, request, result);
+        this.reportFailure(request, result, position.mintAddress);
         return result;
       }
 
@@ -183,6 +190,7 @@ export class ExecutionEngine {
       };
 
       await this.persistExecution(executionId, request, result);
+      this.reportFailure(request, result, position.mintAddress);
       return result;
     }
   }
@@ -316,6 +324,7 @@ export class ExecutionEngine {
           id: executionId,
           positionId: request.positionId,
           policyId: request.policyId,
+          policyVersionId: request.policyVersionId ?? null,
           action: request.action,
           txSignature: result.txSignature,
           status: result.status,
@@ -333,6 +342,20 @@ export class ExecutionEngine {
     }
   }
 
+  private reportFailure(
+    request: ExecutionRequest,
+    result: ExecutionResult,
+    mintAddress?: string,
+  ): void {
+    void this.alerts.executionFailed({
+      action: request.action,
+      error: result.errorMessage ?? 'Unknown error',
+      positionId: request.positionId,
+      mintAddress,
+      policyId: request.policyId,
+    });
+  }
+
   private async updatePositionInDb(positionId: string, newBalance: bigint): Promise<void> {
     const { db, logger } = this.container;
 
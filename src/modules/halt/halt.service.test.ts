@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HaltService } from './halt.service.js';
+import type { Container } from '../../infra/container.js';
+
+function createMockContainer(): Container {
+  let nextId = 0;
+  return {
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Container['logger'],
+    db: {
+      tradingHalt: {
+        findMany: vi.fn().mockResolvedValue([]),
+        create: vi.fn().mockImplementation(async ({ data }) => ({
+          id: `halt-${++nextId}`,
+          createdAt: new Date(),
+          liftedAt: null,
+          liftedBy: null,
+          liftReason: null,
+          ...data,
+        })),
+        update: vi.fn().mockImplementation(async ({ where, data }) => ({ id: where.id, ...data })),
+      },
+    } as unknown as Container['db'],
+    redis: {} as Container['redis'],
+    solana: {} as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+}
+
+describe('HaltService', () => {
+  let service: HaltService;
+  let mockContainer: Container;
+
+  beforeEach(async () => {
+    mockContainer = createMockContainer();
+    service = new HaltService(mockContainer);
+    await service.start();
+  });
+
+  it('blocks only the halted token or wallet', async () => {
+    await service.halt({
+      scope: 'TOKEN',
+      mintAddress: 'mint1',
+      reason: 'rug',
+      createdBy: 'policy',
+    });
+    await service.halt({ scope: 'WALLET', walletId: 'w1', reason: 'drain', createdBy: 'ops' });
+
+    expect(service.findBlockingHalt({ mintAddress: 'mint1' })?.scope).toBe('TOKEN');
+    expect(service.findBlockingHalt({ mintAddress: 'mint2', walletId: 'w1' })?.scope).toBe(
+      'WALLET',
+    );
+    expect(service.findBlockingHalt({ mintAddress: 'mint2', walletId: 'w2' })).toBeNull();
+    expect(service.isGloballyHalted()).toBe(false);
+  });
+
+  it('reuses an active halt for the same target', async () => {
+    const first = await service.halt({ scope: 'GLOBAL', reason: 'a', createdBy: 'policy' });
+    const second = await service.halt({ scope: 'GLOBAL', reason: 'b', createdBy: 'policy' });
+
+    expect(second.id).toBe(first.id);
+    expect(mockContainer.db.tradingHalt.create).toHaveBeenCalledTimes(1);
+    expect(service.findBlockingHalt({ mintAddress: 'any' })).not.toBeNull();
+  });
+
+  it('lifts a halt with an audit trail', async () => {
+    const halt = await service.halt({ scope: 'GLOBAL', reason: 'panic', createdBy: 'policy' });
+
+    const lifted = await service.lift(halt.id, 'alice', 'false alarm');
+
+    expect(lifted?.liftedBy).toBe('alice');
+    expect(lifted?.liftReason).toBe('false alarm');
+    expect(service.isGloballyHalted()).toBe(false);
+    expect(await service.lift(halt.id, 'alice', 'again')).toBeNull();
+  });
+
+  it('restores active halts on start', async () => {
+    vi.mocked(mockContainer.db.tradingHalt.findMany).mockResolvedValue([
+      {
+        id: 'h1',
+        scope: 'TOKEN',
+        mintAddress: 'mint9',
+        walletId: null,
+        reason: 'persisted',
+        policyId: null,
+        createdBy: 'policy',
+        createdAt: new Date(),
+        liftedAt: null,
+        liftedBy: null,
+        liftReason: null,
+      },
+    ]);
+
+    await service.start();
+
+    expect(service.findBlockingHalt({ mintAddress: 'mint9' })?.id).toBe('h1');
+  });
+});
@@ -0,0 +1,115 @@
+import type { TradingHalt } from '@prisma/client';
+import type { Container } from '../../infra/container.js';
+import type { HaltRequest, HaltScope, HaltTarget, TradingHaltState } from '../../types/halt.js';
+
+/**
+ * Trading halts block new entries (API and ExecutorAgent) and pause the
+ * Strategist. Active halts are held in memory and persisted, so they survive
+ * restarts; lifting one stamps who lifted it and why on the same row.
+ */
+export class HaltService {
+  private readonly container: Container;
+  private halts: Map<string, TradingHaltState> = new Map();
+
+  constructor(container: Container) {
+    this.container = container;
+  }
+
+  async start(): Promise<void> {
+    const records = await this.container.db.tradingHalt.findMany({ where: { liftedAt: null } });
+    this.halts = new Map(records.map((r) => [r.id, toHaltState(r)]));
+
+    this.container.logger.info({ activeHalts: this.halts.size }, 'Halt service started');
+  }
+
+  /** Creates a halt, or returns the existing active halt for the same target. */
+  async halt(request: HaltRequest): Promise<TradingHaltState> {
+    const mintAddress = request.scope === 'TOKEN' ? (request.mintAddress ?? null) : null;
+    const walletId = request.scope === 'WALLET' ? (request.walletId ?? null) : null;
+
+    const existing = this.getActiveHalts().find(
+      (h) => h.scope === request.scope && h.mintAddress === mintAddress && h.walletId === walletId,
+    );
+    if (existing) return existing;
+
+    const record = await this.container.db.tradingHalt.create({
+      data: {
+        scope: request.scope,
+        mintAddress,
+        walletId,
+        reason: request.reason,
+        policyId: request.policyId ?? null,
+        createdBy: request.createdBy,
+      },
+    });
+
+    const halt = toHaltState(record);
+    this.halts.set(halt.id, halt);
+
+    this.container.logger.warn(
+      { haltId: halt.id, scope: halt.scope, mint: mintAddress, walletId, reason: halt.reason },
+      'Trading halted',
+    );
+
+    return halt;
+  }
+
+  /** Returns the lifted record, or null if no active halt has this id. */
+  async lift(haltId: string, liftedBy: string, reason: string): Promise<TradingHalt | null> {
+    if (!this.halts.has(haltId)) return null;
+
+    const record = await this.container.db.tradingHalt.update({
+      where: { id: haltId },
+      data: { liftedAt: new Date(), liftedBy, liftReason: reason },
+    });
+    this.halts.delete(haltId);
+
+    this.container.logger.warn({ haltId, liftedBy, reason }, 'Trading halt lifted');
+
+    return record;
+  }
+
+  /** The first active halt that blocks trading the target, if any. */
+  findBlockingHalt(target: HaltTarget): TradingHaltState | null {
+    for (const halt of this.halts.values()) {
+      if (appliesTo(halt, target)) return halt;
+    }
+    return null;
+  }
+
+  isGloballyHalted(): boolean {
+    return this.getActiveHalts().some((h) => h.scope === 'GLOBAL');
+  }
+
+  getActiveHalts(): TradingHaltState[] {
+    return Array.from(this.halts.values());
+  }
+
+  async stop(): Promise<void> {
+    this.container.logger.info('Halt service stopped');
+  }
+}
+
+function appliesTo(halt: TradingHaltState, target: HaltTarget): boolean {
+  switch (halt.scope) {
+    case 'GLOBAL':
+      return true;
+    case 'WALLET':
+      return target.walletId !== undefined && halt.walletId === target.walletId;
+    case 'TOKEN':
+      return target.mintAddress !== undefined && halt.mintAddress === target.mintAddress;
+  }
+}
+
+function toHaltState(record: TradingHalt): TradingHaltState {
+  return {
+    id: record.id,
+    scope: record.scope as HaltScope,
+    mintAddress: record.mintAddress,
+    walletId: record.walletId,
+    reason: record.reason,
+    policyId: record.policyId,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt,
+  };
+}
@@ -0,0 +1 @@
+export { HaltService } from './halt.service.js';
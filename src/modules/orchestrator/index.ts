@@ -1 +1,2 @@
-export { Orchestrator } from './orchestrator.service.js';
+export { Orchestrator, mapPolicyAction } from './orchestrator.service.js';
+export type { OrchestratorConfig, PolicyExecutionAction } from './orchestrator.service.js';
@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Job } from 'bullmq';
+import { Orchestrator } from './orchestrator.service.js';
+import { EventBus } from '../../services/event-bus.js';
+import type { Container } from '../../infra/container.js';
+import type { StateEngine } from '../state-engine/state-engine.service.js';
+import type { PolicyEngine } from '../policy-engine/policy-engine.service.js';
+import type { ExecutionEngine } from '../execution-engine/execution-engine.service.js';
+import type { HaltService } from '../halt/halt.service.js';
+import type { AlertService } from '../alerts/alert.service.js';
+import type { DevWalletEvent, InternalEvent, WalletTransactionEvent } from '../../types/events.js';
+import type { PositionState } from '../../types/position.js';
+
+interface QueuedJob {
+  queue: string;
+  name: string;
+  data: InternalEvent;
+  opts: Record<string, unknown>;
+}
+
+// In-memory stand-ins for BullMQ, which needs a live Redis
+const bull = vi.hoisted(() => ({
+  added: [] as QueuedJob[],
+  processors: new Map<string, (job: Job<InternalEvent>) => Promise<void>>(),
+  closed: [] as string[],
+}));
+
+vi.mock('bullmq', () => ({
+  Queue: class {
+    readonly name: string;
+    constructor(name: string) {
+      this.name = name;
+    }
+    on(): this {
+      return this;
+    }
+    async add(name: string, data: InternalEvent, opts: Record<string, unknown>): Promise<void> {
+      bull.added.push({ queue: this.name, name, data, opts });
+    }
+    async close(): Promise<void> {
+      bull.closed.push(this.name);
+    }
+  },
+  Worker: class {
+    constructor(name: string, processor: (job: Job<InternalEvent>) => Promise<void>) {
+      bull.processors.set(name, processor);
+    }
+    on(): this {
+      return this;
+    }
+    async close(): Promise<void> {}
+  },
+}));
+
+function createMockContainer(): Container {
+  return {
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Container['logger'],
+    db: {
+      wallet: { findUnique: vi.fn().mockResolvedValue({ id: 'w2' }) },
+      trackedToken: {
+        findUnique: vi.fn().mockResolvedValue({
+          id: 't1',
+          mintAddress: 'mint1',
+          walletId: 'w1',
+          wallet: { id: 'w1', address: 'wallet1' },
+        }),
+        count: vi.fn().mockResolvedValue(0),
+      },
+    } as unknown as Container['db'],
+    redis: { options: { host: 'localhost', port: 6379 } } as unknown as Container['redis'],
+    solana: {} as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+}
+
+function devSell(id: string, mintAddress: string): DevWalletEvent {
+  return {
+    id,
+    type: 'DEV_WALLET_SELL',
+    timestamp: Date.now(),
+    slot: 100,
+    signature: `sig-${id}`,
+    devWallet: 'dev',
+    mintAddress,
+    amount: '1000',
+    percentageOfHoldings: 40,
+  };
+}
+
+const position: PositionState = {
+  id: 'pos1',
+  walletId: 'w1',
+  trackedTokenId: 't1',
+  mintAddress: 'mint1',
+  entryAmountSol: 1,
+  tokenBalance: 1_000_000n,
+  entryPrice: 0.01,
+  status: 'OPEN',
+  openedAt: new Date(),
+  closedAt: null,
+};
+
+describe('Orchestrator', () => {
+  let eventBus: EventBus;
+  let policyEngine: PolicyEngine;
+  let executionEngine: ExecutionEngine;
+  let halts: HaltService;
+  let alerts: AlertService;
+  let orchestrator: Orchestrator;
+
+  beforeEach(async () => {
+    bull.added.length = 0;
+    bull.processors.clear();
+    bull.closed.length = 0;
+
+    const container = createMockContainer();
+    eventBus = new EventBus(container.logger);
+    policyEngine = {
+      evaluateEvent: vi.fn().mockResolvedValue([]),
+      appliesTo: vi.fn().mockReturnValue(true),
+      claimFiring: vi.fn().mockResolvedValue(true),
+      settleFiring: vi.fn().mockResolvedValue(undefined),
+      getPolicy: vi.fn().mockReturnValue({ id: 'p1' }),
+      claimPolicyFiring: vi.fn().mockResolvedValue(false),
+    } as unknown as PolicyEngine;
+    executionEngine = {
+      execute: vi.fn().mockResolvedValue({ id: 'exec1', status: 'CONFIRMED' }),
+    } as unknown as ExecutionEngine;
+    halts = { halt: vi.fn().mockResolvedValue({}) } as unknown as HaltService;
+    alerts = { policyTriggered: vi.fn().mockResolvedValue(undefined) } as unknown as AlertService;
+
+    orchestrator = new Orchestrator(
+      container,
+      eventBus,
+      {
+        getPositionsAffectedBy: vi.fn().mockResolvedValue([position]),
+      } as unknown as StateEngine,
+      policyEngine,
+      executionEngine,
+      halts,
+      alerts,
+      { queueShards: 4 },
+    );
+    await orchestrator.start();
+  });
+
+  afterEach(async () => {
+    await orchestrator.stop();
+  });
+
+  it('queues events of one mint on the same shard, keyed by event id', async () => {
+    eventBus.emit(devSell('e1', 'mint1'));
+    eventBus.emit(devSell('e2', 'mint2'));
+    eventBus.emit(devSell('e3', 'mint1'));
+    await vi.waitFor(() => expect(bull.added).toHaveLength(3));
+
+    const [first, , third] = bull.added;
+    expect(bull.processors.size).toBe(4);
+    expect(third!.queue).toBe(first!.queue);
+    expect(first!.opts).toMatchObject({ jobId: 'event-e1', attempts: 3, removeOnComplete: true });
+  });
+
+  it('executes triggered policies when a queued event is worked', async () => {
+    vi.mocked(policyEngine.evaluateEvent).mockResolvedValue([
+      {
+        policyId: 'p1',
+        triggered: true,
+        action: 'EXIT_POSITION',
+        triggerValue: 40,
+        threshold: 30,
+        reason: 'Dev sold 40%',
+      },
+    ]);
+    eventBus.emit(devSell('e1', 'mint1'));
+    await vi.waitFor(() => expect(bull.added).toHaveLength(1));
+
+    const { queue, data } = bull.added[0]!;
+    await bull.processors.get(queue)!({ data } as Job<InternalEvent>);
+
+    expect(executionEngine.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ positionId: 'pos1', action: 'FULL_EXIT', sellPercentage: 100 }),
+    );
+    expect(policyEngine.settleFiring).toHaveBeenCalledWith('p1', 'pos1', {
+      id: 'exec1',
+      status: 'CONFIRMED',
+    });
+  });
+
+  it("halts a token-scoped policy's own token, never another mint's", async () => {
+    vi.mocked(policyEngine.evaluateEvent).mockResolvedValue([
+      {
+        policyId: 'p1',
+        triggered: true,
+        action: 'HALT_STRATEGY',
+        actionParams: { haltScope: 'TOKEN' },
+        triggerValue: 40,
+        threshold: 30,
+        reason: 'Dev sold 40%',
+      },
+      {
+        policyId: 'p1',
+        triggered: true,
+        action: 'HALT_STRATEGY',
+        actionParams: { haltScope: 'GLOBAL' },
+        triggerValue: 40,
+        threshold: 30,
+        reason: 'Dev sold 40%',
+      },
+    ]);
+    vi.mocked(policyEngine.getPolicy).mockReturnValue({ id: 'p1', trackedTokenId: 't1' } as never);
+
+    eventBus.emit(devSell('e1', 'mint2'));
+    await vi.waitFor(() => expect(bull.added).toHaveLength(1));
+    const { queue, data } = bull.added[0]!;
+    await bull.processors.get(queue)!({ data } as Job<InternalEvent>);
+
+    expect(halts.halt).not.toHaveBeenCalled();
+    expect(alerts.policyTriggered).not.toHaveBeenCalled();
+
+    eventBus.emit(devSell('e2', 'mint1'));
+    await vi.waitFor(() => expect(bull.added).toHaveLength(2));
+    const next = bull.added[1]!;
+    await bull.processors.get(next.queue)!({ data: next.data } as Job<InternalEvent>);
+
+    expect(halts.halt).toHaveBeenCalledWith(
+      expect.objectContaining({ scope: 'TOKEN', mintAddress: 'mint1', policyId: 'p1' }),
+    );
+    expect(halts.halt).toHaveBeenCalledWith(expect.objectContaining({ scope: 'GLOBAL' }));
+  });
+
+  describe('alert-only policies with no positions in scope', () => {
+    const triggered = {
+      policyId: 'p1',
+      triggered: true,
+      action: 'ALERT_ONLY' as const,
+      triggerValue: 40,
+      threshold: 30,
+      reason: 'Dev sold 40%',
+    };
+
+    async function work(event: InternalEvent): Promise<void> {
+      eventBus.emit(event);
+      await vi.waitFor(() => expect(bull.added.some((job) => job.data.id === event.id)).toBe(true));
+      const { queue, data } = bull.added.find((job) => job.data.id === event.id)!;
+      await bull.processors.get(queue)!({ data } as Job<InternalEvent>);
+    }
+
+    beforeEach(() => {
+      vi.mocked(policyEngine.appliesTo).mockReturnValue(false);
+    });
+
+    it('alerts through the policy-level firing state', async () => {
+      vi.mocked(policyEngine.evaluateEvent).mockResolvedValue([
+        triggered,
+        { ...triggered, policyId: 'p2', action: 'EXIT_POSITION' },
+      ]);
+      vi.mocked(policyEngine.claimPolicyFiring).mockResolvedValueOnce(true);
+
+      await work(devSell('e1', 'mint1'));
+      await work(devSell('e2', 'mint1'));
+
+      // The second fire is refused by the policy's fire-once / cooldown rules
+      expect(policyEngine.claimPolicyFiring).toHaveBeenCalledTimes(2);
+      expect(alerts.policyTriggered).toHaveBeenCalledTimes(1);
+      expect(alerts.policyTriggered).toHaveBeenCalledWith(triggered, 'mint1');
+      expect(executionEngine.execute).not.toHaveBeenCalled();
+    });
+
+    it("does not alert for events outside the policy's scope", async () => {
+      vi.mocked(policyEngine.evaluateEvent).mockResolvedValue([triggered]);
+      vi.mocked(policyEngine.getPolicy).mockReturnValue({
+        id: 'p1',
+        trackedTokenId: 't1',
+      } as never);
+
+      await work(devSell('e1', 'mint2'));
+
+      expect(policyEngine.claimPolicyFiring).not.toHaveBeenCalled();
+      expect(alerts.policyTriggered).not.toHaveBeenCalled();
+    });
+  });
+
+  it('stops queueing and closes its queues on stop', async () => {
+    await orchestrator.stop();
+    eventBus.emit(devSell('e1', 'mint1'));
+
+    expect(bull.added).toHaveLength(0);
+    expect(bull.closed).toHaveLength(4);
+  });
+});
@@ -1,19 +1,75 @@
+import { createHash } from 'node:crypto';
+import { Queue, Worker, type ConnectionOptions, type Job } from 'bullmq';
 import type { Container } from '../../infra/container.js';
 import type { EventBus } from '../../services/event-bus.js';
 import type { StateEngine } from '../state-engine/state-engine.service.js';
 import type { PolicyEngine } from '../policy-engine/policy-engine.service.js';
 import type { ExecutionEngine } from '../execution-engine/execution-engine.service.js';
+import type { HaltService } from '../halt/halt.service.js';
+import type { AlertService } from '../alerts/alert.service.js';
 import type { InternalEvent } from '../../types/events.js';
+import type { PositionState } from '../../types/position.js';
 import type { PolicyEvaluationResult } from '../../types/policy.js';
 import type { ExecutionAction, ExecutionRequest } from '../../types/execution.js';
+import { getEventMint } from '../../services/event-utils.js';
 
+export interface OrchestratorConfig {
+  queueShards: number;
+}
+
+export interface PolicyExecutionAction {
+  type: ExecutionAction;
+  sellPercentage: number;
+}
+
+/** The wallet and, for token-scoped policies, the mint a policy covers; empty when global. */
+interface PolicyTarget {
+  walletId?: string;
+  walletAddress?: string;
+  mintAddress?: string;
+}
+
+/** The sell a triggered policy maps to; null for actions that do not trade. */
+export function mapPolicyAction(result: PolicyEvaluationResult): PolicyExecutionAction | null {
+  switch (result.action) {
+    case 'EXIT_POSITION':
+      return { type: 'FULL_EXIT', sellPercentage: 100 };
+    case 'PARTIAL_SELL':
+      return {
+        type: 'PARTIAL_SELL',
+        sellPercentage: result.actionParams?.sellPercentage ?? 50,
+      };
+    case 'ALERT_ONLY':
+      return null;
+    default:
+      return null;
+  }
+}
+
+const QUEUE_PREFIX = 'clawops';
+const JOB_ATTEMPTS = 3;
+const JOB_BACKOFF_MS = 500;
+const FAILED_JOBS_KEPT = 1000;
+
+/**
+ * Turns triggered policies into executions. Bus events are queued in Redis so
+ * nothing is lost while earlier ones are still executing or across a restart.
+ * Events are spread over queue shards by mint (by wallet for SOL movements),
+ * each worked one job at a time: events of one mint run in order, and
+ * different mints run in parallel unless they share a shard.
+ */
 export class Orchestrator {
   private readonly container: Container;
   private readonly eventBus: EventBus;
   private readonly stateEngine: StateEngine;
   private readonly policyEngine: PolicyEngine;
   private readonly executionEngine: ExecutionEngine;
-  private processing = false;
+  private readonly halts: HaltService;
+  private readonly alerts: AlertService;
+  private readonly config: OrchestratorConfig;
+  private readonly queues: Queue<InternalEvent>[] = [];
+  private readonly workers: Worker<InternalEvent>[] = [];
+  private readonly enqueue = (event: InternalEvent): Promise<void> => this.enqueueEvent(event);
 
   constructor(
     container: Container,
@@ -21,43 +77,74 @@ export class Orchestrator {
     stateEngine: StateEngine,
     policyEngine: PolicyEngine,
     executionEngine: ExecutionEngine,
+    halts: HaltService,
+    alerts: AlertService,
+    config: OrchestratorConfig,
   ) {
     this.container = container;
     this.eventBus = eventBus;
     this.stateEngine = stateEngine;
     this.policyEngine = policyEngine;
     this.executionEngine = executionEngine;
+    this.halts = halts;
+    this.alerts = alerts;
+    this.config = config;
   }
 
   async start(): Promise<void> {
-    const { logger } = this.container;
+    const { logger, redis } = this.container;
     logger.info('Starting orchestrator');
 
-    this.eventBus.on((event) => {
-      this.processEvent(event).catch((err) => {
-        logger.error({ err, eventId: event.id }, 'Orchestrator event processing failed');
+    // Workers block on Redis, so BullMQ opens its own connections without a retry cap
+    const connection: ConnectionOptions = { ...redis.options, maxRetriesPerRequest: null };
+
+    for (let shard = 0; shard < this.config.queueShards; shard++) {
+      const name = `orchestrator-${shard}`;
+      const queue = new Queue<InternalEvent>(name, { connection, prefix: QUEUE_PREFIX });
+      const worker = new Worker<InternalEvent>(name, (job) => this.processJob(job), {
+        connection,
+        prefix: QUEUE_PREFIX,
+        concurrency: 1,
       });
-    });
 
-    logger.info('Orchestrator started');
-  }
+      queue.on('error', (err) => logger.error({ err, queue: name }, 'Orchestrator queue error'));
+      worker.on('error', (err) => logger.error({ err, queue: name }, 'Orchestrator worker error'));
+      worker.on('failed', (job, err) => {
+        logger.error(
+          { err, queue: name, eventId: job?.data.id, attempts: job?.attemptsMade },
+          'Orchestrator job failed',
+        );
+      });
 
-  private async processEvent(event: InternalEvent): Promise<void> {
-    if (this.processing) {
-      this.container.logger.debug({ eventId: event.id }, 'Orchestrator busy, queuing event');
-      return;
+      this.queues.push(queue);
+      this.workers.push(worker);
     }
 
-    this.processing = true;
-    try {
-      const triggered = await this.policyEngine.evaluateEvent(event);
-      if (triggered.length === 0) return;
+    // A failed enqueue is retried by the bus; claimed firings keep a job that
+    // runs twice from executing what already went out
+    this.eventBus.on(this.enqueue, 'orchestrator');
 
-      for (const result of triggered) {
-        await this.handleTriggeredPolicy(result, event);
-      }
-    } finally {
-      this.processing = false;
+    logger.info({ queueShards: this.config.queueShards }, 'Orchestrator started');
+  }
+
+  private async enqueueEvent(event: InternalEvent): Promise<void> {
+    const queue = this.queues[queueShard(queueKey(event), this.queues.length)]!;
+    await queue.add(event.type, event, {
+      // Re-adding a queued event (a bus retry) is a no-op. BullMQ rejects ':' in ids
+      jobId: `event-${event.id.replace(/:/g, '-')}`,
+      attempts: JOB_ATTEMPTS,
+      backoff: { type: 'exponential', delay: JOB_BACKOFF_MS },
+      removeOnComplete: true,
+      removeOnFail: { count: FAILED_JOBS_KEPT },
+    });
+  }
+
+  private async processJob(job: Job<InternalEvent>): Promise<void> {
+    const event = job.data;
+    const triggered = await this.policyEngine.evaluateEvent(event);
+
+    for (const result of triggered) {
+      await this.handleTriggeredPolicy(result, event);
     }
   }
 
@@ -67,25 +154,47 @@ export class Orchestrator {
   ): Promise<void> {
     const { logger } = this.container;
 
-    const mintAddress = this.extractMintFromEvent(event);
-    if (!mintAddress) {
-      logger.warn({ eventId: event.id }, 'Cannot determine mint address from event');
+    const candidates = await this.stateEngine.getPositionsAffectedBy(event);
+    if (!candidates) {
+      logger.warn({ eventId: event.id }, 'Cannot determine affected positions from event');
+      return;
+    }
+
+    // Only act on positions within the policy's scope (and the one position a
+    // position trigger was judged against)
+    const positions = candidates.filter(
+      (p) =>
+        (!result.positionId || p.id === result.positionId) &&
+        this.policyEngine.appliesTo(result.policyId, p),
+    );
+
+    if (result.action === 'HALT_STRATEGY') {
+      await this.applyHalt(result, event, positions);
       return;
     }
 
-    const positions = this.stateEngine.getPositionsByMint(mintAddress);
     if (positions.length === 0) {
-      logger.debug({ mintAddress }, 'No open positions for triggered policy');
+      if (!mapPolicyAction(result)) await this.alertWithoutPositions(result, event);
+      logger.debug(
+        { eventId: event.id, policyId: result.policyId },
+        'No open positions in scope for triggered policy',
+      );
       return;
     }
 
-    for (const position of positions) {
-      const action = this.mapPolicyAction(result);
-      if (!action) continue;
+    const firing = await this.claimPositions(result, positions);
+    if (firing.length === 0) return;
+
+    void this.alerts.policyTriggered(result, getEventMint(event));
 
+    const action = mapPolicyAction(result);
+    if (!action) return;
+
+    for (const position of firing) {
       const request: ExecutionRequest = {
         positionId: position.id,
         policyId: result.policyId,
+        policyVersionId: result.policyVersionId,
         action: action.type,
         sellPercentage: action.sellPercentage,
         maxSlippageBps: result.actionParams?.maxSlippageBps ?? this.container.riskParams.maxSlippageBps,
@@ -105,6 +214,17 @@ export class Orchestrator {
 
       const executionResult = await this.executionEngine.execute(request);
 
+      if (result.rungs) {
+        await this.policyEngine.settleRungs(
+          result.policyId,
+          position.id,
+          result.rungs,
+          executionResult,
+        );
+      } else {
+        await this.policyEngine.settleFiring(result.policyId, position.id, executionResult);
+      }
+
       logger.info(
         {
           executionId: executionResult.id,
@@ -116,46 +236,173 @@ export class Orchestrator {
     }
   }
 
-  private mapPolicyAction(
+  /**
+   * Claims the fire for each position before anything is executed: exit rungs
+   * fire once per position, other policies obey their fire-once, re-arm and
+   * cooldown rules. Both survive restarts.
+   */
+  private async claimPositions(
+    result: PolicyEvaluationResult,
+    positions: PositionState[],
+  ): Promise<PositionState[]> {
+    const claimed: PositionState[] = [];
+
+    for (const position of positions) {
+      const ok = result.rungs
+        ? await this.policyEngine.claimRungs(result.policyId, position.id, result.rungs)
+        : await this.policyEngine.claimFiring(result, position.id);
+
+      if (ok) {
+        claimed.push(position);
+      } else {
+        this.container.logger.debug(
+          { positionId: position.id, policyId: result.policyId, rungs: result.rungs },
+          'Policy already fired for position, skipping',
+        );
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Alert-only policies are worth hearing about even with nothing to sell, as
+   * long as the event is within their scope and their firing rules allow it.
+   */
+  private async alertWithoutPositions(
     result: PolicyEvaluationResult,
-  ): { type: ExecutionAction; sellPercentage: number } | null {
-    switch (result.action) {
-      case 'EXIT_POSITION':
-        return { type: 'FULL_EXIT', sellPercentage: 100 };
-      case 'PARTIAL_SELL':
-        return {
-          type: 'PARTIAL_SELL',
-          sellPercentage: result.actionParams?.sellPercentage ?? 50,
-        };
-      case 'HALT_STRATEGY':
-        return { type: 'HALT', sellPercentage: 0 };
-      case 'ALERT_ONLY':
-        return null;
-      default:
-        return null;
+    event: InternalEvent,
+  ): Promise<void> {
+    // A position trigger's position is out of scope
+    if (result.positionId) return;
+    if (!(await this.eventInScope(await this.policyTarget(result.policyId), event))) return;
+    if (!(await this.policyEngine.claimPolicyFiring(result))) return;
+
+    void this.alerts.policyTriggered(result, getEventMint(event));
+  }
+
+  /**
+   * Halts block new entries rather than selling, so they apply even with no
+   * open positions, but only to events within the policy's scope. A scoped
+   * policy halts its own token or wallet rather than the event's.
+   */
+  private async applyHalt(
+    result: PolicyEvaluationResult,
+    event: InternalEvent,
+    positions: PositionState[],
+  ): Promise<void> {
+    const target = await this.policyTarget(result.policyId);
+    // Position triggers were already judged against positions in scope
+    const inScope = result.positionId
+      ? positions.length > 0
+      : await this.eventInScope(target, event);
+    if (!target || !inScope) {
+      this.container.logger.debug(
+        { eventId: event.id, policyId: result.policyId },
+        'Event is outside the halting policy scope, not halting',
+      );
+      return;
+    }
+
+    void this.alerts.policyTriggered(result, getEventMint(event));
+
+    const scope = result.actionParams?.haltScope ?? 'TOKEN';
+    const base = { reason: result.reason, policyId: result.policyId, createdBy: 'policy' };
+
+    if (scope === 'GLOBAL') {
+      await this.halts.halt({ ...base, scope });
+      return;
+    }
+
+    if (scope === 'WALLET') {
+      const walletIds = target.walletId
+        ? [target.walletId]
+        : new Set(positions.map((p) => p.walletId));
+      for (const walletId of walletIds) {
+        await this.halts.halt({ ...base, scope, walletId });
+      }
+      return;
     }
+
+    const mint = target.mintAddress ?? getEventMint(event);
+    const mints = mint ? [mint] : [...new Set(positions.map((p) => p.mintAddress))];
+    for (const mintAddress of mints) {
+      await this.halts.halt({ ...base, scope, mintAddress });
+    }
+  }
+
+  /** What a policy's scope covers; null when the policy, or its token or wallet, is gone. */
+  private async policyTarget(policyId: string): Promise<PolicyTarget | null> {
+    const { db } = this.container;
+    const policy = this.policyEngine.getPolicy(policyId);
+    if (!policy) return null;
+
+    if (policy.trackedTokenId) {
+      const token = await db.trackedToken.findUnique({
+        where: { id: policy.trackedTokenId },
+        include: { wallet: true },
+      });
+      if (!token) return null;
+      return {
+        walletId: token.walletId,
+        walletAddress: token.wallet.address,
+        mintAddress: token.mintAddress,
+      };
+    }
+
+    if (policy.walletId) {
+      const wallet = await db.wallet.findUnique({ where: { id: policy.walletId } });
+      return wallet ? { walletId: wallet.id, walletAddress: wallet.address } : null;
+    }
+
+    return {};
   }
 
-  private extractMintFromEvent(event: InternalEvent): string | null {
-    switch (event.type) {
-      case 'DEV_WALLET_SELL':
-      case 'DEV_WALLET_TRANSFER':
-        return event.mintAddress;
-      case 'TOKEN_TRANSFER':
-        return event.mintAddress;
-      case 'TOKEN_BALANCE_CHANGE':
-        return event.mintAddress;
-      case 'LP_ADD':
-      case 'LP_REMOVE':
-        return event.mintAddress;
-      case 'SUPPLY_CHANGE':
-        return event.mintAddress;
-      default:
-        return null;
+  /**
+   * Mint-level policies are evaluated against every event, so a trigger alone
+   * does not mean the event concerns the policy's token or wallet. Wallet
+   * scopes cover the wallet's own transfers and the tokens it tracks.
+   */
+  private async eventInScope(target: PolicyTarget | null, event: InternalEvent): Promise<boolean> {
+    if (!target) return false;
+    if (!target.walletId) return true;
+
+    const mintAddress = getEventMint(event);
+    if (event.type === 'WALLET_TRANSACTION') {
+      return (
+        event.walletAddress === target.walletAddress &&
+        (!target.mintAddress || !mintAddress || mintAddress === target.mintAddress)
+      );
     }
+
+    if (!mintAddress) return false;
+    if (target.mintAddress) return mintAddress === target.mintAddress;
+
+    const tracked = await this.container.db.trackedToken.count({
+      where: { walletId: target.walletId, mintAddress },
+    });
+    return tracked > 0;
   }
 
+  /** Lets running jobs finish; queued ones stay in Redis for the next start. */
   async stop(): Promise<void> {
+    this.eventBus.off(this.enqueue);
+    await Promise.all(this.workers.map((worker) => worker.close()));
+    await Promise.all(this.queues.map((queue) => queue.close()));
+    this.workers.length = 0;
+    this.queues.length = 0;
     this.container.logger.info('Orchestrator stopped');
   }
 }
+
+/** Events sharing a key are processed in order. */
+function queueKey(event: InternalEvent): string {
+  const mintAddress = getEventMint(event);
+  if (mintAddress) return `mint:${mintAddress}`;
+  if (event.type === 'WALLET_TRANSACTION') return `wallet:${event.walletAddress}`;
+  return `type:${event.type}`;
+}
+
+function queueShard(key: string, shards: number): number {
+  return createHash('sha1').update(key).digest().readUInt32BE(0) % shards;
+}
@@ -1 +1,5 @@
-export { PolicyEngine } from './policy-engine.service.js';
+export { PolicyEngine, toPolicyDefinition } from './policy-engine.service.js';
+export type { PolicyEngineConfig } from './policy-engine.service.js';
+export { getPolicyScope, policyMatchesPosition, resolveApplicablePolicies } from './policy-scope.js';
+export { diffPolicies, recordPolicyVersion } from './policy-versions.js';
+export { longestWindowMs } from './policy-conditions.js';
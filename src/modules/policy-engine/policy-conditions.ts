@@ -0,0 +1,31 @@
+import type { PolicyCondition, PolicyDefinition, TriggerCondition } from '../../types/policy.js';
+
+const APPROX_SLOT_MS = 400;
+
+export function isTriggerCondition(condition: PolicyCondition): condition is TriggerCondition {
+  return 'trigger' in condition;
+}
+
+/** Every trigger primitive referenced anywhere in a condition tree. */
+export function collectConditionLeaves(condition: PolicyCondition): TriggerCondition[] {
+  if (isTriggerCondition(condition)) return [condition];
+  if ('all' in condition) return condition.all.flatMap(collectConditionLeaves);
+  if ('any' in condition) return condition.any.flatMap(collectConditionLeaves);
+  return collectConditionLeaves(condition.not);
+}
+
+/**
+ * Longest trailing window the policy reads, in ms. Slot windows are converted
+ * at ~400ms a slot; triggers without a window count as `fallbackMs`.
+ */
+export function longestWindowMs(policy: PolicyDefinition, fallbackMs: number): number {
+  const windowed = policy.conditions ? collectConditionLeaves(policy.conditions) : [policy];
+  const windows = windowed.map((w) =>
+    w.windowBlocks
+      ? w.windowBlocks * APPROX_SLOT_MS
+      : w.windowSeconds
+        ? w.windowSeconds * 1000
+        : fallbackMs,
+  );
+  return Math.max(...windows);
+}
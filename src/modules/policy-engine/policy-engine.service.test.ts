@@ -1,10 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PolicyEngine } from './policy-engine.service.js';
+import { diffPolicies } from './policy-versions.js';
 import type { Container } from '../../infra/container.js';
 import type { StateEngine } from '../state-engine/state-engine.service.js';
-import type { EventBus } from '../../services/event-bus.js';
-import type { DevWalletEvent, LPEvent, SupplyChangeEvent } from '../../types/events.js';
+import type {
+  DevWalletEvent,
+  LPEvent,
+  SupplyChangeEvent,
+  PriceUpdateEvent,
+  WalletTransactionEvent,
+  ClockTickEvent,
+} from '../../types/events.js';
 import type { PolicyDefinition } from '../../types/policy.js';
+import type { PositionState } from '../../types/position.js';
 
 function createMockContainer(): Container {
   return {
@@ -20,6 +28,20 @@ function createMockContainer(): Container {
     db: {
       policy: {
         findMany: vi.fn().mockResolvedValue([]),
+        findUnique: vi.fn().mockResolvedValue(null),
+      },
+      policyRungFill: {
+        findMany: vi.fn().mockResolvedValue([]),
+        createMany: vi.fn().mockResolvedValue({ count: 0 }),
+        updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+        deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+      },
+      policyFiringState: {
+        findMany: vi.fn().mockResolvedValue([]),
+        upsert: vi.fn().mockResolvedValue({}),
+        update: vi.fn().mockResolvedValue({}),
+        updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+        delete: vi.fn().mockResolvedValue({}),
       },
     } as unknown as Container['db'],
     redis: {} as Container['redis'],
@@ -36,34 +58,36 @@ function createMockContainer(): Container {
 function createMockStateEngine(): StateEngine {
   return {
     getDevSellPercentageInWindow: vi.fn().mockReturnValue(0),
+    getDevSellPercentageInSlotWindow: vi.fn().mockReturnValue(0),
+    getDevSellCountInSlotWindow: vi.fn().mockReturnValue(0),
+    getLPRemovedPercentageInSlotWindow: vi.fn().mockReturnValue(0),
+    getLPRemovedSolInSlotWindow: vi.fn().mockReturnValue(0),
     getDevMetrics: vi.fn().mockReturnValue(null),
     getLPState: vi.fn().mockReturnValue(null),
+    getPeakPriceInWindow: vi.fn().mockReturnValue(null),
+    getLPRemovedSolInWindow: vi.fn().mockReturnValue(0),
+    getLPRemovedPercentageInWindow: vi.fn().mockReturnValue(0),
+    getWalletOutflowInWindow: vi.fn().mockReturnValue(0n),
+    getDevWalletsForMint: vi.fn().mockReturnValue([]),
+    getLPStatesByMint: vi.fn().mockReturnValue([]),
+    getSupplyIncreaseInWindow: vi.fn().mockReturnValue(0),
+    getLatestPrice: vi.fn().mockReturnValue(undefined),
+    getHighWaterPrice: vi.fn().mockReturnValue(undefined),
     getPosition: vi.fn().mockReturnValue(null),
     getOpenPositions: vi.fn().mockReturnValue([]),
     getPositionsByMint: vi.fn().mockReturnValue([]),
   } as unknown as StateEngine;
 }
 
-function createMockEventBus(): EventBus {
-  return {
-    on: vi.fn(),
-    onType: vi.fn(),
-    emit: vi.fn(),
-    off: vi.fn(),
-  } as unknown as EventBus;
-}
-
 describe('PolicyEngine', () => {
   let engine: PolicyEngine;
   let mockContainer: Container;
   let mockStateEngine: StateEngine;
-  let mockEventBus: EventBus;
 
   beforeEach(() => {
     mockContainer = createMockContainer();
     mockStateEngine = createMockStateEngine();
-    mockEventBus = createMockEventBus();
-    engine = new PolicyEngine(mockContainer, mockStateEngine, mockEventBus);
+    engine = new PolicyEngine(mockContainer, mockStateEngine);
   });
 
   describe('evaluatePolicy', () => {
@@ -101,6 +125,46 @@ describe('PolicyEngine', () => {
       expect(result!.triggerValue).toBe(35);
     });
 
+    it('evaluates windowBlocks against the event slot', () => {
+      const policy: PolicyDefinition = {
+        id: 'p1',
+        name: 'Dev sell guard',
+        trigger: 'DEV_SELL_PERCENTAGE',
+        threshold: 30,
+        windowBlocks: 150,
+        windowSeconds: 600,
+        action: 'EXIT_POSITION',
+        priority: 1,
+        isActive: true,
+      };
+
+      vi.mocked(mockStateEngine.getDevSellPercentageInSlotWindow).mockReturnValue(40);
+
+      const event: DevWalletEvent = {
+        id: 'e1',
+        type: 'DEV_WALLET_SELL',
+        timestamp: Date.now(),
+        slot: 1234,
+        signature: 'sig1',
+        devWallet: 'devAddr',
+        mintAddress: 'mintAddr',
+        amount: '1000',
+        percentageOfHoldings: 40,
+      };
+
+      const result = engine.evaluatePolicy(policy, event);
+
+      expect(result!.triggered).toBe(true);
+      expect(result!.reason).toContain('last 150 slots');
+      expect(mockStateEngine.getDevSellPercentageInSlotWindow).toHaveBeenCalledWith(
+        'mintAddr',
+        'devAddr',
+        150,
+        1234,
+      );
+      expect(mockStateEngine.getDevSellPercentageInWindow).not.toHaveBeenCalled();
+    });
+
     it('does not trigger DEV_SELL_PERCENTAGE when below threshold', () => {
       const policy: PolicyDefinition = {
         id: 'p1',
@@ -187,7 +251,9 @@ describe('PolicyEngine', () => {
         poolAddress: 'pool1',
         mintAddress: 'mint1',
         totalLiquidity: BigInt(1000),
-        removals: [],
+        solReserve: BigInt(0),
+        tokenReserve: BigInt(0),
+        changes: [],
         totalRemovedPercentage: 60,
       });
 
@@ -210,6 +276,44 @@ describe('PolicyEngine', () => {
       expect(result!.triggered).toBe(true);
     });
 
+    it('measures LP_REMOVAL_PERCENTAGE within windowSeconds', () => {
+      const policy: PolicyDefinition = {
+        id: 'p3w',
+        name: 'LP pull guard',
+        trigger: 'LP_REMOVAL_PERCENTAGE',
+        threshold: 50,
+        windowSeconds: 120,
+        action: 'EXIT_POSITION',
+        priority: 2,
+        isActive: true,
+      };
+
+      vi.mocked(mockStateEngine.getLPRemovedPercentageInWindow).mockReturnValue(40);
+
+      const event: LPEvent = {
+        id: 'e3w',
+        type: 'LP_REMOVE',
+        timestamp: Date.now(),
+        slot: 300,
+        signature: 'sig3w',
+        poolAddress: 'pool1',
+        mintAddress: 'mint1',
+        liquidityAmount: '400',
+        solAmount: '100',
+        tokenAmount: '500',
+      };
+
+      const result = engine.evaluatePolicy(policy, event);
+
+      expect(result!.triggered).toBe(false);
+      expect(result!.triggerValue).toBe(40);
+      expect(mockStateEngine.getLPRemovedPercentageInWindow).toHaveBeenCalledWith(
+        'pool1',
+        120_000,
+        event.timestamp,
+      );
+    });
+
     it('triggers SUPPLY_INCREASE when supply grows beyond threshold', () => {
       const policy: PolicyDefinition = {
         id: 'p4',
@@ -240,6 +344,278 @@ describe('PolicyEngine', () => {
       expect(result!.action).toBe('HALT_STRATEGY');
     });
 
+    it('triggers PRICE_DROP_PERCENTAGE on drop from window peak', () => {
+      const policy: PolicyDefinition = {
+        id: 'p6',
+        name: 'Price drop guard',
+        trigger: 'PRICE_DROP_PERCENTAGE',
+        threshold: 40,
+        windowSeconds: 120,
+        action: 'EXIT_POSITION',
+        priority: 10,
+        isActive: true,
+      };
+
+      vi.mocked(mockStateEngine.getPeakPriceInWindow).mockReturnValue(0.05);
+
+      const event: PriceUpdateEvent = {
+        id: 'e6',
+        type: 'PRICE_UPDATE',
+        timestamp: Date.now(),
+        slot: 600,
+        signature: '',
+        mintAddress: 'mint4',
+        price: 0.025,
+        source: 'bonding_curve',
+      };
+
+      const result = engine.evaluatePolicy(policy, event);
+
+      expect(result).not.toBeNull();
+      expect(result!.triggered).toBe(true);
+      expect(result!.triggerValue).toBeCloseTo(50);
+      expect(mockStateEngine.getPeakPriceInWindow).toHaveBeenCalledWith(
+        'mint4',
+        120_000,
+        event.timestamp,
+      );
+    });
+
+    it('triggers PRICE_DROP_PERCENTAGE on drop from position entry', () => {
+      const policy: PolicyDefinition = {
+        id: 'p7',
+        name: 'Price drop guard',
+        trigger: 'PRICE_DROP_PERCENTAGE',
+        threshold: 20,
+        windowSeconds: 300,
+        action: 'PARTIAL_SELL',
+        priority: 6,
+        isActive: true,
+      };
+
+      vi.mocked(mockStateEngine.getPeakPriceInWindow).mockReturnValue(0.03);
+      vi.mocked(mockStateEngine.getPositionsByMint).mockReturnValue([
+        {
+          id: 'pos1',
+          walletId: 'w1',
+          trackedTokenId: 't1',
+          mintAddress: 'mint4',
+          entryAmountSol: 0.5,
+          tokenBalance: BigInt(1000),
+          entryPrice: 0.04,
+          status: 'OPEN',
+          openedAt: new Date(),
+          closedAt: null,
+        },
+      ]);
+
+      const event: PriceUpdateEvent = {
+        id: 'e7',
+        type: 'PRICE_UPDATE',
+        timestamp: Date.now(),
+        slot: 700,
+        signature: '',
+        mintAddress: 'mint4',
+        price: 0.03,
+        source: 'bonding_curve',
+      };
+
+      const result = engine.evaluatePolicy(policy, event);
+
+      expect(result!.triggered).toBe(true);
+      expect(result!.triggerValue).toBeCloseTo(25);
+      expect(result!.reason).toContain('from entry');
+    });
+
+    it('does not trigger PRICE_DROP_PERCENTAGE when price holds', () => {
+      const policy: PolicyDefinition = {
+        id: 'p8',
+        name: 'Price drop guard',
+        trigger: 'PRICE_DROP_PERCENTAGE',
+        threshold: 40,
+        action: 'EXIT_POSITION',
+        priority: 10,
+        isActive: true,
+      };
+
+      vi.mocked(mockStateEngine.getPeakPriceInWindow).mockReturnValue(0.03);
+
+      const event: PriceUpdateEvent = {
+        id: 'e8',
+        type: 'PRICE_UPDATE',
+        timestamp: Date.now(),
+        slot: 800,
+        signature: '',
+        mintAddress: 'mint4',
+        price: 0.031,
+        source: 'bonding_curve',
+      };
+
+      const result = engine.evaluatePolicy(policy, event);
+
+      expect(result!.triggered).toBe(false);
+      expect(result!.triggerValue).toBe(0);
+    });
+
+    it('triggers LP_REMOVAL_TOTAL on SOL removed from the pool', () => {
+      const policy: PolicyDefinition = {
+        id: 'p9',
+        name: 'LP drain guard',
+        trigger: 'LP_REMOVAL_TOTAL',
+        threshold: 10,
+        windowSeconds: 300,
+        action: 'EXIT_POSITION',
+        priority: 9,
+        isActive: true,
+      };
+
+      vi.mocked(mockStateEngine.getLPRemovedSolInWindow).mockReturnValue(12.5);
+
+      const event: LPEvent = {
+        id: 'e9',
+        type: 'LP_REMOVE',
+        timestamp: Date.now(),
+        slot: 900,
+        signature: 'sig9',
+        poolAddress: 'pool1',
+        mintAddress: 'mint1',
+        liquidityAmount: '600',
+        solAmount: '12500000000',
+        tokenAmount: '500',
+      };
+
+      const result = engine.evaluatePolicy(policy, event);
+
+      expect(result!.triggered).toBe(true);
+      expect(result!.triggerValue).toBe(12.5);
+      expect(mockStateEngine.getLPRemovedSolInWindow).toHaveBeenCalledWith(
+        'pool1',
+        300_000,
+        event.timestamp,
+      );
+    });
+
+    it('triggers WALLET_OUTFLOW when SOL outflow exceeds threshold', () => {
+      const policy: PolicyDefinition = {
+        id: 'p10',
+        name: 'Wallet outflow alert',
+        trigger: 'WALLET_OUTFLOW',
+        threshold: 50,
+        windowSeconds: 3600,
+        action: 'ALERT_ONLY',
+        priority: 4,
+        isActive: true,
+      };
+
+      vi.mocked(mockStateEngine.getWalletOutflowInWindow).mockReturnValue(60_000_000_000n);
+
+      const event: WalletTransactionEvent = {
+        id: 'e10',
+        type: 'WALLET_TRANSACTION',
+        timestamp: Date.now(),
+        slot: 1000,
+        signature: 'sig10',
+        walletAddress: 'wallet1',
+        direction: 'OUT',
+        amountLamports: '60000000000',
+      };
+
+      const result = engine.evaluatePolicy(policy, event);
+
+      expect(result!.triggered).toBe(true);
+      expect(result!.triggerValue).toBe(60);
+    });
+
+    it('ignores inbound transfers for WALLET_OUTFLOW', () => {
+      const policy: PolicyDefinition = {
+        id: 'p11',
+        name: 'Wallet outflow alert',
+        trigger: 'WALLET_OUTFLOW',
+        threshold: 50,
+        action: 'ALERT_ONLY',
+        priority: 4,
+        isActive: true,
+      };
+
+      const event: WalletTransactionEvent = {
+        id: 'e11',
+        type: 'WALLET_TRANSACTION',
+        timestamp: Date.now(),
+        slot: 1100,
+        signature: 'sig11',
+        walletAddress: 'wallet1',
+        direction: 'IN',
+        amountLamports: '60000000000',
+      };
+
+      expect(engine.evaluatePolicy(policy, event)).toBeNull();
+    });
+
+    it('ignores token transfers for WALLET_OUTFLOW, whose threshold is in SOL', () => {
+      const policy: PolicyDefinition = {
+        id: 'p12',
+        name: 'Wallet outflow alert',
+        trigger: 'WALLET_OUTFLOW',
+        threshold: 5,
+        action: 'ALERT_ONLY',
+        priority: 4,
+        isActive: true,
+      };
+      vi.mocked(mockStateEngine.getWalletOutflowInWindow).mockReturnValue(1_000_000n);
+
+      const event: WalletTransactionEvent = {
+        id: 'e12',
+        type: 'WALLET_TRANSACTION',
+        timestamp: Date.now(),
+        slot: 1200,
+        signature: 'sig12',
+        walletAddress: 'wallet1',
+        direction: 'OUT',
+        mintAddress: 'mint1',
+        amountLamports: '1000000',
+      };
+
+      expect(engine.evaluatePolicy(policy, event)).toBeNull();
+    });
+
+    it('measures a token WALLET_OUTFLOW in raw units of its mintAddress', () => {
+      const policy: PolicyDefinition = {
+        id: 'p13',
+        name: 'Token outflow alert',
+        trigger: 'WALLET_OUTFLOW',
+        threshold: 1_000_000,
+        mintAddress: 'mint1',
+        action: 'ALERT_ONLY',
+        priority: 4,
+        isActive: true,
+      };
+      vi.mocked(mockStateEngine.getWalletOutflowInWindow).mockReturnValue(1_500_000n);
+
+      const transfer = (mintAddress?: string): WalletTransactionEvent => ({
+        id: 'e13',
+        type: 'WALLET_TRANSACTION',
+        timestamp: Date.now(),
+        slot: 1300,
+        signature: 'sig13',
+        walletAddress: 'wallet1',
+        direction: 'OUT',
+        mintAddress,
+        amountLamports: '1500000',
+      });
+
+      const result = engine.evaluatePolicy(policy, transfer('mint1'));
+
+      expect(result).toMatchObject({ triggered: true, triggerValue: 1_500_000 });
+      expect(mockStateEngine.getWalletOutflowInWindow).toHaveBeenCalledWith(
+        'wallet1',
+        'mint1',
+        3_600_000,
+        expect.any(Number),
+      );
+      expect(engine.evaluatePolicy(policy, transfer('mint2'))).toBeNull();
+      expect(engine.evaluatePolicy(policy, transfer())).toBeNull();
+    });
+
     it('returns null for irrelevant event types', () => {
       const policy: PolicyDefinition = {
         id: 'p5',
@@ -268,6 +644,342 @@ describe('PolicyEngine', () => {
     });
   });
 
+  describe('composite conditions', () => {
+    const devSell: DevWalletEvent = {
+      id: 'e20',
+      type: 'DEV_WALLET_SELL',
+      timestamp: Date.now(),
+      slot: 2000,
+      signature: 'sig20',
+      devWallet: 'dev1',
+      mintAddress: 'mint1',
+      amount: '1000',
+      percentageOfHoldings: 12,
+    };
+
+    const devAndLp: PolicyDefinition = {
+      id: 'c1',
+      name: 'Dev dump with rug',
+      trigger: 'COMPOSITE',
+      threshold: 1,
+      conditions: {
+        all: [
+          { trigger: 'DEV_SELL_PERCENTAGE', threshold: 10, windowSeconds: 300 },
+          { trigger: 'LP_REMOVAL_PERCENTAGE', threshold: 20 },
+        ],
+      },
+      action: 'EXIT_POSITION',
+      priority: 5,
+      isActive: true,
+    };
+
+    it('triggers an AND rule only when every condition holds', () => {
+      vi.mocked(mockStateEngine.getDevSellPercentageInWindow).mockReturnValue(12);
+      vi.mocked(mockStateEngine.getLPStatesByMint).mockReturnValue([
+        { poolAddress: 'pool1', totalRemovedPercentage: 5 },
+      ] as unknown as ReturnType<StateEngine['getLPStatesByMint']>);
+      vi.mocked(mockStateEngine.getLPState).mockReturnValue({
+        poolAddress: 'pool1',
+        totalRemovedPercentage: 5,
+      } as ReturnType<StateEngine['getLPState']>);
+
+      const notYet = engine.evaluatePolicy(devAndLp, devSell);
+      expect(notYet!.triggered).toBe(false);
+      expect(notYet!.reason).toBe(
+        'Dev wallet sold 12.00% in window (threshold: 10%) [met] AND ' +
+          'LP removal: 5.00% (threshold: 20%) [not met]',
+      );
+
+      vi.mocked(mockStateEngine.getLPState).mockReturnValue({
+        poolAddress: 'pool1',
+        totalRemovedPercentage: 25,
+      } as ReturnType<StateEngine['getLPState']>);
+
+      const result = engine.evaluatePolicy(devAndLp, devSell);
+      expect(result!.triggered).toBe(true);
+      expect(result!.action).toBe('EXIT_POSITION');
+      expect(mockStateEngine.getDevSellPercentageInWindow).toHaveBeenCalledWith(
+        'mint1',
+        'dev1',
+        300_000,
+        devSell.timestamp,
+      );
+    });
+
+    it('supports OR and NOT with nested groups', () => {
+      const policy: PolicyDefinition = {
+        ...devAndLp,
+        id: 'c2',
+        conditions: {
+          any: [
+            { trigger: 'SUPPLY_INCREASE', threshold: 1, windowSeconds: 600 },
+            {
+              all: [
+                { trigger: 'DEV_SELL_COUNT', threshold: 3 },
+                { not: { trigger: 'LP_REMOVAL_PERCENTAGE', threshold: 50 } },
+              ],
+            },
+          ],
+        },
+      };
+
+      vi.mocked(mockStateEngine.getDevMetrics).mockReturnValue({
+        totalSellCount: 3,
+      } as ReturnType<StateEngine['getDevMetrics']>);
+
+      const result = engine.evaluatePolicy(policy, devSell);
+
+      expect(result!.triggered).toBe(true);
+      expect(result!.reason).toBe(
+        'Supply increased 0.00% (threshold: 1%) [not met] OR ' +
+          '(Dev wallet sell count: 3 (threshold: 3) [met] AND NOT LP removal: 0.00% (threshold: 50%) [not met])',
+      );
+      expect(mockStateEngine.getSupplyIncreaseInWindow).toHaveBeenCalledWith(
+        'mint1',
+        600_000,
+        devSell.timestamp,
+      );
+    });
+
+    it('ignores events that cannot affect any condition', () => {
+      const price: PriceUpdateEvent = {
+        id: 'e21',
+        type: 'PRICE_UPDATE',
+        timestamp: Date.now(),
+        slot: 2100,
+        signature: 'sig21',
+        mintAddress: 'mint1',
+        price: 0.00005,
+        source: 'bonding_curve',
+      };
+
+      expect(engine.evaluatePolicy(devAndLp, price)).toBeNull();
+    });
+  });
+
+  describe('exit triggers', () => {
+    const position: PositionState = {
+      id: 'pos1',
+      walletId: 'wallet-a',
+      trackedTokenId: 'token-a',
+      mintAddress: 'mint1',
+      entryAmountSol: 1,
+      tokenBalance: BigInt(1000),
+      entryPrice: 0.01,
+      status: 'OPEN',
+      openedAt: new Date(),
+      closedAt: null,
+    };
+
+    const priceAt = (price: number): PriceUpdateEvent => ({
+      id: `e-${price}`,
+      type: 'PRICE_UPDATE',
+      timestamp: Date.now(),
+      slot: 3000,
+      signature: '',
+      mintAddress: 'mint1',
+      price,
+      source: 'bonding_curve',
+    });
+
+    const ladder: PolicyDefinition = {
+      id: 'ladder',
+      name: 'Ladder out',
+      trigger: 'TAKE_PROFIT_LADDER',
+      threshold: 1,
+      action: 'PARTIAL_SELL',
+      actionParams: {
+        ladder: [
+          { multiple: 2, sellPercentage: 25 },
+          { multiple: 3, sellPercentage: 25 },
+          { multiple: 5, sellPercentage: 50 },
+        ],
+      },
+      priority: 0,
+      isActive: true,
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockStateEngine.getPositionsByMint).mockReturnValue([position]);
+    });
+
+    it('fires a trailing stop on a drop from the post-entry high', () => {
+      const policy: PolicyDefinition = {
+        id: 'trail',
+        name: 'Trailing stop',
+        trigger: 'TRAILING_STOP',
+        threshold: 20,
+        action: 'EXIT_POSITION',
+        priority: 0,
+        isActive: true,
+      };
+
+      vi.mocked(mockStateEngine.getHighWaterPrice).mockReturnValue(0.05);
+
+      const [held] = engine.evaluatePositionPolicy(policy, priceAt(0.045));
+      expect(held!.triggered).toBe(false);
+
+      const [result] = engine.evaluatePositionPolicy(policy, priceAt(0.038));
+      expect(result!.triggered).toBe(true);
+      expect(result!.triggerValue).toBeCloseTo(24);
+      expect(result!.positionId).toBe('pos1');
+      expect(result!.rungs).toEqual([0]);
+    });
+
+    it('fires a take-profit at a multiple of entry', () => {
+      const policy: PolicyDefinition = {
+        id: 'tp',
+        name: 'Take profit',
+        trigger: 'TAKE_PROFIT',
+        threshold: 3,
+        action: 'PARTIAL_SELL',
+        actionParams: { sellPercentage: 50 },
+        priority: 0,
+        isActive: true,
+      };
+
+      expect(engine.evaluatePositionPolicy(policy, priceAt(0.02))[0]!.triggered).toBe(false);
+      expect(engine.evaluatePositionPolicy(policy, priceAt(0.03))[0]!.triggered).toBe(true);
+      // Position triggers are not evaluated per mint
+      expect(engine.evaluatePolicy(policy, priceAt(0.03))).toBeNull();
+    });
+
+    it('sells each ladder rung once, sized against the original position', async () => {
+      const [first] = engine.evaluatePositionPolicy(ladder, priceAt(0.021));
+      expect(first!.triggered).toBe(true);
+      expect(first!.rungs).toEqual([0]);
+      expect(first!.action).toBe('PARTIAL_SELL');
+      expect(first!.actionParams?.sellPercentage).toBe(25);
+
+      expect(await engine.claimRungs('ladder', 'pos1', [0])).toBe(true);
+      expect(await engine.claimRungs('ladder', 'pos1', [0])).toBe(false);
+      expect(mockContainer.db.policyRungFill.createMany).toHaveBeenCalledTimes(1);
+
+      // Rung 0 filled: nothing due until 3x
+      expect(engine.evaluatePositionPolicy(ladder, priceAt(0.025))[0]!.triggered).toBe(false);
+
+      // 25% of the original is a third of the remaining 75%
+      const [second] = engine.evaluatePositionPolicy(ladder, priceAt(0.031));
+      expect(second!.rungs).toEqual([1]);
+      expect(second!.actionParams?.sellPercentage).toBeCloseTo(33.33, 1);
+    });
+
+    it('exits on the final rung and releases rungs whose sell failed', async () => {
+      await engine.claimRungs('ladder', 'pos1', [0, 1]);
+
+      const [last] = engine.evaluatePositionPolicy(ladder, priceAt(0.06));
+      expect(last!.rungs).toEqual([2]);
+      expect(last!.action).toBe('EXIT_POSITION');
+
+      await engine.claimRungs('ladder', 'pos1', [2]);
+      await engine.settleRungs('ladder', 'pos1', [2], {
+        id: 'exec1',
+        status: 'FAILED',
+        txSignature: null,
+        amountIn: null,
+        amountOut: null,
+        errorMessage: 'boom',
+        simulationResult: null,
+        completedAt: null,
+      });
+
+      expect(engine.hasFired('ladder', 'pos1', 2)).toBe(false);
+      expect(mockContainer.db.policyRungFill.deleteMany).toHaveBeenCalled();
+    });
+
+    it('exits on max hold time from a scheduler tick', () => {
+      const policy: PolicyDefinition = {
+        id: 'max-hold',
+        name: 'Max hold',
+        trigger: 'MAX_HOLD_TIME',
+        threshold: 30,
+        action: 'EXIT_POSITION',
+        priority: 0,
+        isActive: true,
+      };
+      const opened = { ...position, openedAt: new Date(Date.now() - 45 * 60_000) };
+      vi.mocked(mockStateEngine.getPositionsByMint).mockReturnValue([opened]);
+
+      const tick: ClockTickEvent = {
+        id: 't1',
+        type: 'CLOCK_TICK',
+        timestamp: Date.now(),
+        slot: 0,
+        signature: '',
+        mintAddress: 'mint1',
+      };
+
+      const [result] = engine.evaluatePositionPolicy(policy, tick);
+      expect(result!.triggered).toBe(true);
+      expect(result!.triggerValue).toBeCloseTo(45, 0);
+    });
+
+    it('time-stops positions that are not up enough after the deadline', () => {
+      const policy: PolicyDefinition = {
+        id: 'time-stop',
+        name: 'Up 20% in 10 min or out',
+        trigger: 'TIME_STOP',
+        threshold: 20,
+        windowSeconds: 600,
+        action: 'EXIT_POSITION',
+        priority: 0,
+        isActive: true,
+      };
+      const tick = (minutesHeld: number): ClockTickEvent => ({
+        id: `t-${minutesHeld}`,
+        type: 'CLOCK_TICK',
+        timestamp: position.openedAt.getTime() + minutesHeld * 60_000,
+        slot: 0,
+        signature: '',
+        mintAddress: 'mint1',
+      });
+
+      vi.mocked(mockStateEngine.getLatestPrice).mockReturnValue({
+        timestamp: Date.now(),
+        price: 0.011,
+        slot: 1,
+      } as ReturnType<StateEngine['getLatestPrice']>);
+
+      // Before the deadline nothing is judged
+      expect(engine.evaluatePositionPolicy(policy, tick(5))).toEqual([]);
+
+      const [late] = engine.evaluatePositionPolicy(policy, tick(11));
+      expect(late!.triggered).toBe(true);
+      expect(late!.triggerValue).toBeCloseTo(10);
+
+      vi.mocked(mockStateEngine.getLatestPrice).mockReturnValue({
+        timestamp: Date.now(),
+        price: 0.015,
+        slot: 1,
+      } as ReturnType<StateEngine['getLatestPrice']>);
+      expect(engine.evaluatePositionPolicy(policy, tick(11))[0]!.triggered).toBe(false);
+    });
+
+    it('restores filled rungs on load', async () => {
+      vi.mocked(mockContainer.db.policyRungFill.findMany).mockResolvedValue([
+        { policyId: 'ladder', positionId: 'pos1', rungIndex: 0 },
+      ] as never);
+
+      await engine.loadRungFills();
+
+      expect(engine.hasFired('ladder', 'pos1', 0)).toBe(true);
+      expect(engine.evaluatePositionPolicy(ladder, priceAt(0.021))[0]!.triggered).toBe(false);
+    });
+  });
+
+  describe('supportsTrigger', () => {
+    it('accepts implemented triggers', () => {
+      expect(engine.supportsTrigger('LP_REMOVAL_TOTAL')).toBe(true);
+      expect(engine.supportsTrigger('WALLET_OUTFLOW')).toBe(true);
+      expect(engine.supportsTrigger('COMPOSITE')).toBe(true);
+      expect(engine.supportsTrigger('TAKE_PROFIT_LADDER')).toBe(true);
+    });
+
+    it('rejects unknown triggers', () => {
+      expect(engine.supportsTrigger('MOON_PHASE')).toBe(false);
+    });
+  });
+
   describe('evaluateEvent', () => {
     it('returns all triggered policies sorted by priority', async () => {
       const policies: PolicyDefinition[] = [
@@ -348,4 +1060,328 @@ describe('PolicyEngine', () => {
       expect(results).toHaveLength(0);
     });
   });
+
+  describe('firing state', () => {
+    const devSell: PolicyDefinition = {
+      id: 'dev-sell',
+      name: 'Dev sell',
+      trigger: 'DEV_SELL_PERCENTAGE',
+      threshold: 30,
+      windowSeconds: 600,
+      action: 'PARTIAL_SELL',
+      priority: 0,
+      isActive: true,
+    };
+    const sellEvent = (pct: number): DevWalletEvent => ({
+      id: `e-${pct}`,
+      type: 'DEV_WALLET_SELL',
+      timestamp: Date.now(),
+      slot: 100,
+      signature: 'sig',
+      devWallet: 'dev',
+      mintAddress: 'mint1',
+      amount: '1000',
+      percentageOfHoldings: pct,
+    });
+    const failed = {
+      id: 'exec1',
+      status: 'FAILED' as const,
+      txSignature: null,
+      amountIn: null,
+      amountOut: null,
+      errorMessage: 'boom',
+      simulationResult: null,
+      completedAt: null,
+    };
+
+    async function fire(policy: PolicyDefinition, now?: number): Promise<boolean> {
+      (engine as unknown as { policies: PolicyDefinition[] }).policies = [policy];
+      vi.mocked(mockStateEngine.getDevSellPercentageInWindow).mockReturnValue(40);
+      const result = engine.evaluatePolicy(policy, sellEvent(40))!;
+      return engine.claimFiring(result, 'pos1', now);
+    }
+
+    it('fires once per position by default', async () => {
+      expect(await fire(devSell)).toBe(true);
+      expect(await fire(devSell)).toBe(false);
+
+      const state = engine.getFiringState('dev-sell', 'pos1');
+      expect(state?.fireCount).toBe(1);
+      expect(state?.lastValue).toBe(40);
+      expect(mockContainer.db.policyFiringState.upsert).toHaveBeenCalledTimes(1);
+    });
+
+    it('fires again after the cooldown', async () => {
+      const policy = { ...devSell, cooldownSeconds: 60 };
+
+      expect(await fire(policy, 1_000_000)).toBe(true);
+      expect(await fire(policy, 1_030_000)).toBe(false);
+      expect(await fire(policy, 1_060_000)).toBe(true);
+      expect(engine.getFiringState('dev-sell', 'pos1')?.fireCount).toBe(2);
+    });
+
+    it('re-arms once the metric falls below rearmBelow', async () => {
+      const policy = { ...devSell, rearmBelow: 10 };
+      vi.mocked(mockStateEngine.getPositionsByMint).mockReturnValue([
+        { id: 'pos1', mintAddress: 'mint1' } as PositionState,
+      ]);
+
+      expect(await fire(policy)).toBe(true);
+
+      // Still above the re-arm level: stays disarmed
+      vi.mocked(mockStateEngine.getDevSellPercentageInWindow).mockReturnValue(20);
+      await engine.evaluateEvent(sellEvent(20));
+      expect(await fire(policy)).toBe(false);
+
+      vi.mocked(mockStateEngine.getDevSellPercentageInWindow).mockReturnValue(5);
+      await engine.evaluateEvent(sellEvent(5));
+      expect(engine.getFiringState('dev-sell', 'pos1')?.armed).toBe(true);
+      expect(mockContainer.db.policyFiringState.updateMany).toHaveBeenCalledTimes(1);
+
+      expect(await fire(policy)).toBe(true);
+    });
+
+    it('applies cooldown and re-arm to policy-level fires without persisting them', async () => {
+      const policy = {
+        ...devSell,
+        action: 'ALERT_ONLY' as const,
+        cooldownSeconds: 60,
+        rearmBelow: 10,
+      };
+      (engine as unknown as { policies: PolicyDefinition[] }).policies = [policy];
+      vi.mocked(mockStateEngine.getDevSellPercentageInWindow).mockReturnValue(40);
+      const result = engine.evaluatePolicy(policy, sellEvent(40))!;
+
+      expect(await engine.claimPolicyFiring(result, 1_000_000)).toBe(true);
+      // Cooled down but still disarmed
+      expect(await engine.claimPolicyFiring(result, 1_060_000)).toBe(false);
+
+      vi.mocked(mockStateEngine.getDevSellPercentageInWindow).mockReturnValue(5);
+      await engine.evaluateEvent(sellEvent(5));
+      expect(await engine.claimPolicyFiring(result, 1_060_000)).toBe(true);
+      expect(await engine.claimPolicyFiring(result, 1_070_000)).toBe(false);
+
+      expect(mockContainer.db.policyFiringState.upsert).not.toHaveBeenCalled();
+      expect(mockContainer.db.policyFiringState.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rolls back a fire whose execution failed', async () => {
+      expect(await fire(devSell)).toBe(true);
+
+      await engine.settleFiring('dev-sell', 'pos1', failed);
+
+      expect(engine.getFiringState('dev-sell', 'pos1')).toBeUndefined();
+      expect(mockContainer.db.policyFiringState.delete).toHaveBeenCalled();
+      expect(await fire(devSell)).toBe(true);
+    });
+
+    it('restores firing state on load', async () => {
+      vi.mocked(mockContainer.db.policyFiringState.findMany).mockResolvedValue([
+        {
+          policyId: 'dev-sell',
+          positionId: 'pos1',
+          armed: false,
+          fireCount: 1,
+          lastFiredAt: new Date(),
+          lastReason: 'Dev sold 40%',
+          lastValue: 40,
+          rearmedAt: null,
+        },
+      ] as never);
+
+      await engine.loadFiringStates();
+
+      expect(await fire(devSell)).toBe(false);
+    });
+  });
+
+  describe('policy scoping', () => {
+    const position: PositionState = {
+      id: 'pos1',
+      walletId: 'wallet-a',
+      trackedTokenId: 'token-a',
+      mintAddress: 'mint',
+      entryAmountSol: 0.5,
+      tokenBalance: BigInt(1000),
+      entryPrice: null,
+      status: 'OPEN',
+      openedAt: new Date(),
+      closedAt: null,
+    };
+
+    const base = {
+      threshold: 10,
+      action: 'EXIT_POSITION' as const,
+      priority: 0,
+      isActive: true,
+    };
+
+    it('applies global, matching wallet and matching token policies', () => {
+      (engine as unknown as { policies: PolicyDefinition[] }).policies = [
+        { ...base, id: 'global', name: 'Global', trigger: 'DEV_SELL_PERCENTAGE' },
+        { ...base, id: 'wallet', name: 'Wallet', trigger: 'DEV_SELL_COUNT', walletId: 'wallet-a' },
+        {
+          ...base,
+          id: 'token',
+          name: 'Token',
+          trigger: 'SUPPLY_INCREASE',
+          trackedTokenId: 'token-a',
+        },
+        {
+          ...base,
+          id: 'other-wallet',
+          name: 'Other wallet',
+          trigger: 'LP_REMOVAL_PERCENTAGE',
+          walletId: 'wallet-b',
+        },
+        {
+          ...base,
+          id: 'other-token',
+          name: 'Other token',
+          trigger: 'LP_REMOVAL_TOTAL',
+          trackedTokenId: 'token-b',
+        },
+      ];
+
+      const applicable = engine.getApplicablePolicies(position);
+      const ids = applicable.map((a) => a.policy.id).sort();
+
+      expect(ids).toEqual(['global', 'token', 'wallet']);
+      expect(applicable.find((a) => a.policy.id === 'token')!.scope).toBe('TOKEN');
+      expect(engine.appliesTo('other-wallet', position)).toBe(false);
+      expect(engine.appliesTo('other-token', position)).toBe(false);
+    });
+
+    it('lets the most specific scope override broader policies for the same trigger', () => {
+      (engine as unknown as { policies: PolicyDefinition[] }).policies = [
+        { ...base, id: 'global', name: 'Global', trigger: 'DEV_SELL_PERCENTAGE' },
+        {
+          ...base,
+          id: 'wallet',
+          name: 'Wallet',
+          trigger: 'DEV_SELL_PERCENTAGE',
+          walletId: 'wallet-a',
+        },
+        {
+          ...base,
+          id: 'token',
+          name: 'Token',
+          trigger: 'DEV_SELL_PERCENTAGE',
+          trackedTokenId: 'token-a',
+        },
+      ];
+
+      expect(engine.getApplicablePolicies(position).map((a) => a.policy.id)).toEqual(['token']);
+      expect(engine.appliesTo('global', position)).toBe(false);
+      expect(engine.appliesTo('global', { ...position, trackedTokenId: 'token-b' })).toBe(false);
+      expect(
+        engine.appliesTo('global', { ...position, walletId: 'wallet-b', trackedTokenId: 'token-b' }),
+      ).toBe(true);
+    });
+  });
+
+  describe('versioning', () => {
+    const record = {
+      id: 'p1',
+      name: 'Dev dump',
+      trigger: 'DEV_SELL_PERCENTAGE',
+      threshold: 30,
+      windowBlocks: null,
+      windowSeconds: 600,
+      action: 'EXIT_POSITION',
+      actionParams: null,
+      priority: 0,
+      isActive: true,
+      trackedTokenId: null,
+      walletId: null,
+      conditions: null,
+      cooldownSeconds: null,
+      rearmBelow: null,
+      version: 2,
+      versions: [{ id: 'v2' }],
+    };
+
+    const devSell: DevWalletEvent = {
+      id: 'e1',
+      type: 'DEV_WALLET_SELL',
+      timestamp: Date.now(),
+      slot: 100,
+      signature: 'sig',
+      devWallet: 'dev',
+      mintAddress: 'mint',
+      amount: '1000',
+      percentageOfHoldings: 50,
+    };
+
+    it('hot-reloads a changed policy and tags results with the version that fired', async () => {
+      (engine as unknown as { policies: PolicyDefinition[] }).policies = [
+        {
+          id: 'p1',
+          name: 'Dev dump',
+          trigger: 'DEV_SELL_PERCENTAGE',
+          threshold: 60,
+          windowSeconds: 600,
+          action: 'EXIT_POSITION',
+          priority: 0,
+          isActive: true,
+          version: 1,
+          versionId: 'v1',
+        },
+      ];
+      vi.mocked(mockContainer.db.policy.findUnique).mockResolvedValue(record as never);
+      vi.mocked(mockStateEngine.getDevSellPercentageInWindow).mockReturnValue(50);
+
+      expect(await engine.evaluateEvent(devSell)).toHaveLength(0);
+
+      await engine.reloadPolicy('p1');
+      const results = await engine.evaluateEvent(devSell);
+
+      expect(engine.getPolicies()).toHaveLength(1);
+      expect(results).toHaveLength(1);
+      expect(results[0]!.policyVersionId).toBe('v2');
+    });
+
+    it('drops a policy that was deactivated', async () => {
+      await engine.addPolicy({
+        id: 'p1',
+        name: 'Dev dump',
+        trigger: 'DEV_SELL_PERCENTAGE',
+        threshold: 30,
+        action: 'EXIT_POSITION',
+        priority: 0,
+        isActive: true,
+      });
+      vi.mocked(mockContainer.db.policy.findUnique).mockResolvedValue({
+        ...record,
+        isActive: false,
+      } as never);
+
+      await engine.reloadPolicy('p1');
+
+      expect(engine.getPolicies()).toHaveLength(0);
+    });
+
+    it('diffs only behavioural fields, ignoring JSON key order', () => {
+      const before: PolicyDefinition = {
+        id: 'p1',
+        name: 'Dev dump',
+        trigger: 'DEV_SELL_PERCENTAGE',
+        threshold: 30,
+        action: 'PARTIAL_SELL',
+        actionParams: { sellPercentage: 50, maxSlippageBps: 300 },
+        priority: 0,
+        isActive: true,
+        version: 1,
+      };
+      const after: PolicyDefinition = {
+        ...before,
+        threshold: 20,
+        actionParams: { maxSlippageBps: 300, sellPercentage: 50 },
+        version: 2,
+      };
+
+      expect(diffPolicies(before, after)).toEqual([{ field: 'threshold', from: 30, to: 20 }]);
+      expect(diffPolicies(before, before)).toEqual([]);
+    });
+  });
 });
@@ -1,19 +1,182 @@
+import type { Policy, PolicyFiringState as PolicyFiringRecord } from '@prisma/client';
 import type { Container } from '../../infra/container.js';
 import type { StateEngine } from '../state-engine/state-engine.service.js';
-import type { PolicyDefinition, PolicyEvaluationResult } from '../../types/policy.js';
-import type { InternalEvent, DevWalletEvent, LPEvent, SupplyChangeEvent } from '../../types/events.js';
-import type { EventBus } from '../../services/event-bus.js';
+import type {
+  ApplicablePolicy,
+  PolicyCondition,
+  PolicyDefinition,
+  PolicyEvaluationResult,
+  PolicyFiringState,
+  PositionTrigger,
+  PrimitiveTrigger,
+  TriggerCondition,
+} from '../../types/policy.js';
+import type { PositionState } from '../../types/position.js';
+import type { ExecutionResult } from '../../types/execution.js';
+import type {
+  InternalEvent,
+  DevWalletEvent,
+  LPEvent,
+  SupplyChangeEvent,
+  PriceUpdateEvent,
+  WalletTransactionEvent,
+} from '../../types/events.js';
+import { getEventMint } from '../../services/event-utils.js';
+import { collectConditionLeaves, isTriggerCondition } from './policy-conditions.js';
+import { policyMatchesPosition, resolveApplicablePolicies } from './policy-scope.js';
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const LATEST_VERSION = { orderBy: { version: 'desc' }, take: 1, select: { id: true } } as const;
+
+interface Measurement {
+  value: number;
+  reason: string;
+}
+
+interface TriggerHandler {
+  /** Whether this event can move the trigger's metric (and so warrants evaluation). */
+  relevant(event: InternalEvent): boolean;
+  /**
+   * Current metric for the condition. The triggering event is used directly when it
+   * matches; otherwise the metric is read from state for the event's mint, which is
+   * how composite conditions see the other primitives. Null when there is nothing to measure.
+   */
+  measure(
+    condition: TriggerCondition,
+    event: InternalEvent,
+    policy: PolicyDefinition,
+  ): Measurement | null;
+}
+
+interface PositionHandler {
+  relevant(event: InternalEvent): boolean;
+  evaluate(
+    policy: PolicyDefinition,
+    event: InternalEvent,
+    position: PositionState,
+  ): PolicyEvaluationResult | null;
+}
+
+interface ConditionOutcome {
+  met: boolean;
+  reason: string;
+}
+
+const POSITION_TRIGGERS: readonly string[] = [
+  'TRAILING_STOP',
+  'TAKE_PROFIT',
+  'TAKE_PROFIT_LADDER',
+  'MAX_HOLD_TIME',
+  'TIME_STOP',
+];
+
+function isPositionTrigger(trigger: string): trigger is PositionTrigger {
+  return POSITION_TRIGGERS.includes(trigger);
+}
+
+function rungKey(policyId: string, positionId: string, rungIndex: number): string {
+  return `${policyId}:${positionId}:${rungIndex}`;
+}
+
+// Stands in for the position of fires that concern none, e.g. alerts with nothing open
+const POLICY_FIRING = '*';
+
+function firingKey(policyId: string, positionId: string): string {
+  return `${policyId}:${positionId}`;
+}
+
+function describeWindow(condition: TriggerCondition): string {
+  return condition.windowBlocks ? `last ${condition.windowBlocks} slots` : 'window';
+}
+
+/** Nested all/any groups are parenthesised so the combined reason reads unambiguously. */
+function describeOutcome(condition: PolicyCondition, outcome: ConditionOutcome): string {
+  return 'all' in condition || 'any' in condition ? `(${outcome.reason})` : outcome.reason;
+}
+
+export interface PolicyEngineConfig {
+  /** Off for dry runs: rung fills and firing state then live only in memory. */
+  persistFiring: boolean;
+}
 
 export class PolicyEngine {
   private readonly container: Container;
   private readonly stateEngine: StateEngine;
-  private readonly eventBus: EventBus;
+  private readonly config: PolicyEngineConfig;
   private policies: PolicyDefinition[] = [];
-
-  constructor(container: Container, stateEngine: StateEngine, eventBus: EventBus) {
+  // `${policyId}:${positionId}:${rungIndex}` for every exit rung already claimed
+  private firedRungs = new Set<string>();
+  // `${policyId}:${positionId}` -> last fire, for cooldown and hysteresis
+  private firingStates = new Map<string, PolicyFiringState>();
+  // State before an in-flight fire, restored if its execution fails (null = never fired)
+  private readonly pendingFires = new Map<string, PolicyFiringState | null>();
+
+  private readonly handlers: Record<PrimitiveTrigger, TriggerHandler> = {
+    DEV_SELL_PERCENTAGE: {
+      relevant: (event) => event.type === 'DEV_WALLET_SELL',
+      measure: (condition, event) => this.measureDevSellPercentage(condition, event),
+    },
+    DEV_SELL_COUNT: {
+      relevant: (event) => event.type === 'DEV_WALLET_SELL',
+      measure: (condition, event) => this.measureDevSellCount(condition, event),
+    },
+    LP_REMOVAL_PERCENTAGE: {
+      relevant: (event) => event.type === 'LP_REMOVE',
+      measure: (condition, event) => this.measureLPRemoval(condition, event),
+    },
+    LP_REMOVAL_TOTAL: {
+      relevant: (event) => event.type === 'LP_REMOVE',
+      measure: (condition, event) => this.measureLPRemovalTotal(condition, event),
+    },
+    SUPPLY_INCREASE: {
+      relevant: (event) => event.type === 'SUPPLY_CHANGE',
+      measure: (condition, event) => this.measureSupplyIncrease(condition, event),
+    },
+    PRICE_DROP_PERCENTAGE: {
+      relevant: (event) => event.type === 'PRICE_UPDATE',
+      measure: (condition, event, policy) => this.measurePriceDrop(condition, event, policy),
+    },
+    WALLET_OUTFLOW: {
+      relevant: (event) => event.type === 'WALLET_TRANSACTION' && event.direction === 'OUT',
+      measure: (condition, event) => this.measureWalletOutflow(condition, event),
+    },
+  };
+
+  private readonly positionHandlers: Record<PositionTrigger, PositionHandler> = {
+    TRAILING_STOP: {
+      relevant: (event) => event.type === 'PRICE_UPDATE',
+      evaluate: (policy, event, position) =>
+        this.evaluateTrailingStop(policy, event as PriceUpdateEvent, position),
+    },
+    TAKE_PROFIT: {
+      relevant: (event) => event.type === 'PRICE_UPDATE',
+      evaluate: (policy, event, position) =>
+        this.evaluateTakeProfit(policy, event as PriceUpdateEvent, position),
+    },
+    TAKE_PROFIT_LADDER: {
+      relevant: (event) => event.type === 'PRICE_UPDATE',
+      evaluate: (policy, event, position) =>
+        this.evaluateLadder(policy, event as PriceUpdateEvent, position),
+    },
+    // Time-based exits are driven by the scheduler's ticks as well as price updates
+    MAX_HOLD_TIME: {
+      relevant: (event) => event.type === 'CLOCK_TICK' || event.type === 'PRICE_UPDATE',
+      evaluate: (policy, event, position) => this.evaluateMaxHoldTime(policy, event, position),
+    },
+    TIME_STOP: {
+      relevant: (event) => event.type === 'CLOCK_TICK' || event.type === 'PRICE_UPDATE',
+      evaluate: (policy, event, position) => this.evaluateTimeStop(policy, event, position),
+    },
+  };
+
+  constructor(
+    container: Container,
+    stateEngine: StateEngine,
+    config: PolicyEngineConfig = { persistFiring: true },
+  ) {
     this.container = container;
     this.stateEngine = stateEngine;
-    this.eventBus = eventBus;
+    this.config = config;
   }
 
   async start(): Promise<void> {
@@ -21,33 +184,47 @@ export class PolicyEngine {
     logger.info('Starting policy engine');
 
     await this.loadPolicies();
-
-    this.eventBus.on((event) => {
-      this.evaluateEvent(event).catch((err) => {
-        logger.error({ err, eventId: event.id }, 'Policy evaluation failed');
-      });
-    });
+    await this.loadRungFills();
+    await this.loadFiringStates();
 
     logger.info({ policyCount: this.policies.length }, 'Policy engine started');
   }
 
   async loadPolicies(): Promise<void> {
-    const { db } = this.container;
-    const raw = await db.policy.findMany({ where: { isActive: true } });
-
-    this.policies = raw.map((p) => ({
-      id: p.id,
-      name: p.name,
-      trigger: p.trigger as PolicyDefinition['trigger'],
-      threshold: p.threshold,
-      windowBlocks: p.windowBlocks ?? undefined,
-      windowSeconds: p.windowSeconds ?? undefined,
-      action: p.action as PolicyDefinition['action'],
-      actionParams: (p.actionParams as PolicyDefinition['actionParams']) ?? undefined,
-      priority: p.priority,
-      isActive: p.isActive,
-      trackedTokenId: p.trackedTokenId ?? undefined,
-    }));
+    const { db, logger } = this.container;
+    const raw = await db.policy.findMany({
+      where: { isActive: true },
+      include: { versions: LATEST_VERSION },
+    });
+
+    const supported = raw.filter((p) => {
+      if (this.supportsTrigger(p.trigger)) return true;
+      logger.warn(
+        { policyId: p.id, trigger: p.trigger },
+        'Skipping policy with unsupported trigger',
+      );
+      return false;
+    });
+
+    this.policies = supported.map((p) => toPolicyDefinition(p, p.versions[0]?.id));
+  }
+
+  /** Hot-reload one policy after it changed in the database; inactive policies are dropped. */
+  async reloadPolicy(policyId: string): Promise<void> {
+    const record = await this.container.db.policy.findUnique({
+      where: { id: policyId },
+      include: { versions: LATEST_VERSION },
+    });
+
+    this.policies = this.policies.filter((p) => p.id !== policyId);
+    if (record?.isActive && this.supportsTrigger(record.trigger)) {
+      this.policies.push(toPolicyDefinition(record, record.versions[0]?.id));
+    }
+
+    this.container.logger.info(
+      { policyId, version: record?.version, active: record?.isActive ?? false },
+      'Policy reloaded',
+    );
   }
 
   async evaluateEvent(event: InternalEvent): Promise<PolicyEvaluationResult[]> {
@@ -56,13 +233,21 @@ export class PolicyEngine {
     for (const policy of this.policies) {
       if (!policy.isActive) continue;
 
-      const result = this.evaluatePolicy(policy, event);
-      if (result && result.triggered) {
-        results.push(result);
+      const policyResults = isPositionTrigger(policy.trigger)
+        ? this.evaluatePositionPolicy(policy, event)
+        : [this.evaluatePolicy(policy, event)];
+
+      for (const result of policyResults) {
+        if (result && policy.rearmBelow !== undefined && result.triggerValue < policy.rearmBelow) {
+          await this.rearm(policy, event);
+        }
+        if (!result || !result.triggered) continue;
+        results.push({ ...result, policyVersionId: policy.versionId });
         this.container.logger.info(
           {
             policyId: policy.id,
             policyName: policy.name,
+            positionId: result.positionId,
             action: result.action,
             triggerValue: result.triggerValue,
             threshold: result.threshold,
@@ -82,123 +267,693 @@ export class PolicyEngine {
     return results;
   }
 
+  /** Mint-level evaluation; position triggers go through evaluatePositionPolicy instead. */
   evaluatePolicy(policy: PolicyDefinition, event: InternalEvent): PolicyEvaluationResult | null {
-    switch (policy.trigger) {
-      case 'DEV_SELL_PERCENTAGE':
-        return this.evaluateDevSellPercentage(policy, event);
-      case 'DEV_SELL_COUNT':
-        return this.evaluateDevSellCount(policy, event);
-      case 'LP_REMOVAL_PERCENTAGE':
-        return this.evaluateLPRemoval(policy, event);
-      case 'SUPPLY_INCREASE':
-        return this.evaluateSupplyIncrease(policy, event);
-      case 'PRICE_DROP_PERCENTAGE':
-        return this.evaluatePriceDrop(policy, event);
-      default:
-        return null;
+    if (isPositionTrigger(policy.trigger)) return null;
+    if (policy.trigger === 'COMPOSITE') return this.evaluateComposite(policy, event);
+
+    const handler = this.handlers[policy.trigger];
+    if (!handler.relevant(event)) return null;
+
+    const condition: TriggerCondition = {
+      trigger: policy.trigger,
+      threshold: policy.threshold,
+      windowBlocks: policy.windowBlocks,
+      windowSeconds: policy.windowSeconds,
+      mintAddress: policy.mintAddress,
+    };
+    const measurement = handler.measure(condition, event, policy);
+    if (!measurement) return null;
+
+    return {
+      policyId: policy.id,
+      triggered: measurement.value >= policy.threshold,
+      action: policy.action,
+      actionParams: policy.actionParams,
+      triggerValue: measurement.value,
+      threshold: policy.threshold,
+      reason: measurement.reason,
+    };
+  }
+
+  /** One result per open position the policy covers, judged against that position's entry. */
+  evaluatePositionPolicy(policy: PolicyDefinition, event: InternalEvent): PolicyEvaluationResult[] {
+    if (!isPositionTrigger(policy.trigger)) return [];
+
+    const handler = this.positionHandlers[policy.trigger];
+    const mint = getEventMint(event);
+    if (!mint || !handler.relevant(event)) return [];
+
+    return this.stateEngine
+      .getPositionsByMint(mint)
+      .filter((p) => policyMatchesPosition(policy, p))
+      .map((p) => handler.evaluate(policy, event, p))
+      .filter((r): r is PolicyEvaluationResult => r !== null);
+  }
+
+  supportsTrigger(trigger: string): boolean {
+    return trigger === 'COMPOSITE' || trigger in this.handlers || trigger in this.positionHandlers;
+  }
+
+  // --- Rung fills ---
+
+  async loadRungFills(): Promise<void> {
+    const fills = await this.container.db.policyRungFill.findMany({
+      where: { position: { status: 'OPEN' } },
+    });
+    this.firedRungs = new Set(fills.map((f) => rungKey(f.policyId, f.positionId, f.rungIndex)));
+  }
+
+  hasFired(policyId: string, positionId: string, rungIndex: number): boolean {
+    return this.firedRungs.has(rungKey(policyId, positionId, rungIndex));
+  }
+
+  /**
+   * Claim rungs before selling so a crash mid-execution can never sell them twice.
+   * Returns false if any rung was already claimed.
+   */
+  async claimRungs(policyId: string, positionId: string, rungs: number[]): Promise<boolean> {
+    if (rungs.some((rung) => this.hasFired(policyId, positionId, rung))) return false;
+
+    for (const rung of rungs) this.firedRungs.add(rungKey(policyId, positionId, rung));
+    if (!this.config.persistFiring) return true;
+    await this.container.db.policyRungFill.createMany({
+      data: rungs.map((rungIndex) => ({ policyId, positionId, rungIndex })),
+      skipDuplicates: true,
+    });
+    return true;
+  }
+
+  /** Link claimed rungs to their execution, or release them if the sell failed. */
+  async settleRungs(
+    policyId: string,
+    positionId: string,
+    rungs: number[],
+    execution: ExecutionResult,
+  ): Promise<void> {
+    const where = { policyId, positionId, rungIndex: { in: rungs } };
+
+    if (execution.status === 'FAILED') {
+      for (const rung of rungs) this.firedRungs.delete(rungKey(policyId, positionId, rung));
+      if (!this.config.persistFiring) return;
+      await this.container.db.policyRungFill.deleteMany({ where });
+      return;
     }
+
+    if (!this.config.persistFiring) return;
+    await this.container.db.policyRungFill.updateMany({
+      where,
+      data: { executionId: execution.id },
+    });
   }
 
-  private evaluateDevSellPercentage(
-    policy: PolicyDefinition,
-    event: InternalEvent,
-  ): PolicyEvaluationResult | null {
-    if (event.type !== 'DEV_WALLET_SELL') return null;
+  // --- Firing state ---
+
+  async loadFiringStates(): Promise<void> {
+    const states = await this.container.db.policyFiringState.findMany({
+      where: { position: { status: 'OPEN' } },
+    });
+    this.firingStates = new Map(
+      states.map((s) => [firingKey(s.policyId, s.positionId), toFiringState(s)]),
+    );
+  }
 
-    const devEvent = event as DevWalletEvent;
-    const windowMs = (policy.windowSeconds ?? 600) * 1000;
+  getFiringState(policyId: string, positionId: string): PolicyFiringState | undefined {
+    return this.firingStates.get(firingKey(policyId, positionId));
+  }
 
-    const totalPct = this.stateEngine.getDevSellPercentageInWindow(
-      devEvent.mintAddress,
-      devEvent.devWallet,
-      windowMs,
+  /** Fire-once unless the policy re-arms (rearmBelow) or cools down (cooldownSeconds). */
+  canFire(policy: PolicyDefinition, positionId: string, now = Date.now()): boolean {
+    const state = this.getFiringState(policy.id, positionId);
+    if (!state?.lastFiredAt) return true;
+    if (policy.rearmBelow === undefined && policy.cooldownSeconds === undefined) return false;
+    if (policy.rearmBelow !== undefined && !state.armed) return false;
+
+    return (
+      policy.cooldownSeconds === undefined ||
+      now - state.lastFiredAt.getTime() >= policy.cooldownSeconds * 1000
     );
+  }
+
+  /**
+   * Record a fire before acting on it, so a restart never repeats it. Returns
+   * false while the policy is disarmed or cooling down for the position.
+   */
+  async claimFiring(
+    result: PolicyEvaluationResult,
+    positionId: string,
+    now = Date.now(),
+  ): Promise<boolean> {
+    const policy = this.policies.find((p) => p.id === result.policyId);
+    if (!policy || !this.canFire(policy, positionId, now)) return false;
+
+    const key = firingKey(policy.id, positionId);
+    const previous = this.firingStates.get(key) ?? null;
+    const state: PolicyFiringState = {
+      policyId: policy.id,
+      positionId,
+      armed: false,
+      fireCount: (previous?.fireCount ?? 0) + 1,
+      lastFiredAt: new Date(now),
+      lastReason: result.reason,
+      lastValue: result.triggerValue,
+      rearmedAt: previous?.rearmedAt ?? null,
+    };
+
+    this.firingStates.set(key, state);
+    // Policy-level fires settle no execution and have no position row to persist against
+    if (positionId === POLICY_FIRING) return true;
+    this.pendingFires.set(key, previous);
+    if (!this.config.persistFiring) return true;
+    await this.container.db.policyFiringState.upsert({
+      where: { policyId_positionId: { policyId: policy.id, positionId } },
+      create: state,
+      update: {
+        armed: false,
+        fireCount: state.fireCount,
+        lastFiredAt: state.lastFiredAt,
+        lastReason: state.lastReason,
+        lastValue: state.lastValue,
+      },
+    });
+    return true;
+  }
+
+  /**
+   * Claim a fire that concerns no position, such as an alert-only policy with
+   * nothing open. The same fire-once, cooldown and re-arm rules apply, but the
+   * state lives in memory only.
+   */
+  async claimPolicyFiring(result: PolicyEvaluationResult, now = Date.now()): Promise<boolean> {
+    return this.claimFiring(result, POLICY_FIRING, now);
+  }
+
+  /** Keep a claimed fire, or roll it back if the execution it triggered failed. */
+  async settleFiring(
+    policyId: string,
+    positionId: string,
+    execution: ExecutionResult,
+  ): Promise<void> {
+    const key = firingKey(policyId, positionId);
+    const previous = this.pendingFires.get(key);
+    this.pendingFires.delete(key);
+    if (execution.status !== 'FAILED' || previous === undefined) return;
+
+    const where = { policyId_positionId: { policyId, positionId } };
+    if (previous === null) {
+      this.firingStates.delete(key);
+      if (!this.config.persistFiring) return;
+      await this.container.db.policyFiringState.delete({ where });
+      return;
+    }
+
+    this.firingStates.set(key, previous);
+    if (!this.config.persistFiring) return;
+    const { armed, fireCount, lastFiredAt, lastReason, lastValue, rearmedAt } = previous;
+    await this.container.db.policyFiringState.update({
+      where,
+      data: { armed, fireCount, lastFiredAt, lastReason, lastValue, rearmedAt },
+    });
+  }
+
+  /**
+   * The metric fell back below rearmBelow: fired positions of the event's mint,
+   * and a policy-level fire, may fire again.
+   */
+  private async rearm(policy: PolicyDefinition, event: InternalEvent): Promise<void> {
+    const mint = getEventMint(event);
+    const positionIds = mint ? this.stateEngine.getPositionsByMint(mint).map((p) => p.id) : [];
+
+    const disarmed = [...positionIds, POLICY_FIRING]
+      .map((positionId) => this.getFiringState(policy.id, positionId))
+      .filter((s): s is PolicyFiringState => s !== undefined && !s.armed);
+    if (disarmed.length === 0) return;
+
+    const rearmedAt = new Date(event.timestamp);
+    for (const state of disarmed) {
+      state.armed = true;
+      state.rearmedAt = rearmedAt;
+    }
+
+    const persisted = disarmed.map((s) => s.positionId).filter((id) => id !== POLICY_FIRING);
+    if (this.config.persistFiring && persisted.length > 0) {
+      await this.container.db.policyFiringState.updateMany({
+        where: { policyId: policy.id, positionId: { in: persisted } },
+        data: { armed: true, rearmedAt },
+      });
+    }
+
+    this.container.logger.info(
+      { policyId: policy.id, positionCount: disarmed.length },
+      'Policy re-armed',
+    );
+  }
+
+  // --- Position triggers ---
+
+  private evaluateTrailingStop(
+    policy: PolicyDefinition,
+    event: PriceUpdateEvent,
+    position: PositionState,
+  ): PolicyEvaluationResult | null {
+    const entry = position.entryPrice;
+    if (!entry || this.hasFired(policy.id, position.id, 0)) return null;
+
+    const highWater = Math.max(this.stateEngine.getHighWaterPrice(position.id) ?? entry, entry);
+    const drop = Math.max(((highWater - event.price) / highWater) * 100, 0);
 
     return {
       policyId: policy.id,
-      triggered: totalPct >= policy.threshold,
+      triggered: drop >= policy.threshold,
       action: policy.action,
       actionParams: policy.actionParams,
-      triggerValue: totalPct,
+      triggerValue: drop,
       threshold: policy.threshold,
-      reason: `Dev wallet sold ${totalPct.toFixed(2)}% in window (threshold: ${policy.threshold}%)`,
+      reason: `Price ${drop.toFixed(2)}% below post-entry high of ${highWater} (threshold: ${policy.threshold}%)`,
+      positionId: position.id,
+      rungs: [0],
     };
   }
 
-  private evaluateDevSellCount(
+  private evaluateTakeProfit(
     policy: PolicyDefinition,
-    event: InternalEvent,
+    event: PriceUpdateEvent,
+    position: PositionState,
   ): PolicyEvaluationResult | null {
-    if (event.type !== 'DEV_WALLET_SELL') return null;
+    if (!position.entryPrice || this.hasFired(policy.id, position.id, 0)) return null;
 
-    const devEvent = event as DevWalletEvent;
-    const metrics = this.stateEngine.getDevMetrics(devEvent.mintAddress, devEvent.devWallet);
-    const count = metrics?.totalSellCount ?? 0;
+    const multiple = event.price / position.entryPrice;
 
     return {
       policyId: policy.id,
-      triggered: count >= policy.threshold,
+      triggered: multiple >= policy.threshold,
       action: policy.action,
       actionParams: policy.actionParams,
-      triggerValue: count,
+      triggerValue: multiple,
       threshold: policy.threshold,
-      reason: `Dev wallet sell count: ${count} (threshold: ${policy.threshold})`,
+      reason: `Price at ${multiple.toFixed(2)}x entry (target: ${policy.threshold}x)`,
+      positionId: position.id,
+      rungs: [0],
     };
   }
 
-  private evaluateLPRemoval(
+  private evaluateLadder(
+    policy: PolicyDefinition,
+    event: PriceUpdateEvent,
+    position: PositionState,
+  ): PolicyEvaluationResult | null {
+    if (!position.entryPrice) return null;
+
+    const ladder = policy.actionParams?.ladder ?? [];
+    const multiple = event.price / position.entryPrice;
+
+    let filledPct = 0;
+    let duePct = 0;
+    const due: number[] = [];
+    let nextTarget: number | null = null;
+
+    for (const [i, rung] of ladder.entries()) {
+      if (this.hasFired(policy.id, position.id, i)) {
+        filledPct += rung.sellPercentage;
+      } else if (multiple >= rung.multiple) {
+        due.push(i);
+        duePct += rung.sellPercentage;
+      } else if (nextTarget === null) {
+        nextTarget = rung.multiple;
+      }
+    }
+
+    const firstDue = due[0] !== undefined ? ladder[due[0]] : undefined;
+    const threshold = firstDue?.multiple ?? nextTarget;
+    if (threshold === null) return null; // every rung already filled
+
+    // Rungs are sized against the original position; sells apply to what is left
+    const remainingPct = 100 - filledPct;
+    const sellOfRemaining = Math.min((duePct / remainingPct) * 100, 100);
+    const exitsPosition = filledPct + duePct >= 100;
+
+    return {
+      policyId: policy.id,
+      triggered: due.length > 0,
+      action: exitsPosition ? 'EXIT_POSITION' : 'PARTIAL_SELL',
+      actionParams: { ...policy.actionParams, sellPercentage: sellOfRemaining },
+      triggerValue: multiple,
+      threshold,
+      reason:
+        due.length > 0
+          ? `Price at ${multiple.toFixed(2)}x entry reached ladder ${due
+              .map((i) => `${ladder[i]?.multiple}x`)
+              .join(', ')} (selling ${duePct}% of original position)`
+          : `Price at ${multiple.toFixed(2)}x entry (next rung: ${threshold}x)`,
+      positionId: position.id,
+      rungs: due,
+    };
+  }
+
+  private evaluateMaxHoldTime(
     policy: PolicyDefinition,
     event: InternalEvent,
+    position: PositionState,
   ): PolicyEvaluationResult | null {
-    if (event.type !== 'LP_REMOVE') return null;
+    if (this.hasFired(policy.id, position.id, 0)) return null;
 
-    const lpEvent = event as LPEvent;
-    const lpState = this.stateEngine.getLPState(lpEvent.poolAddress);
-    const totalRemoved = lpState?.totalRemovedPercentage ?? 0;
+    const heldMinutes = (event.timestamp - position.openedAt.getTime()) / 60_000;
 
     return {
       policyId: policy.id,
-      triggered: totalRemoved >= policy.threshold,
+      triggered: heldMinutes >= policy.threshold,
       action: policy.action,
       actionParams: policy.actionParams,
-      triggerValue: totalRemoved,
+      triggerValue: heldMinutes,
       threshold: policy.threshold,
-      reason: `LP removal: ${totalRemoved.toFixed(2)}% (threshold: ${policy.threshold}%)`,
+      reason: `Position held ${heldMinutes.toFixed(1)} min (max: ${policy.threshold} min)`,
+      positionId: position.id,
+      rungs: [0],
     };
   }
 
-  private evaluateSupplyIncrease(
+  /** Exit if the position is not up `threshold`% once it has been held `windowSeconds`. */
+  private evaluateTimeStop(
     policy: PolicyDefinition,
     event: InternalEvent,
+    position: PositionState,
   ): PolicyEvaluationResult | null {
-    if (event.type !== 'SUPPLY_CHANGE') return null;
+    if (!position.entryPrice || this.hasFired(policy.id, position.id, 0)) return null;
+
+    const deadlineSeconds = policy.windowSeconds ?? 0;
+    const heldSeconds = (event.timestamp - position.openedAt.getTime()) / 1000;
+    if (heldSeconds < deadlineSeconds) return null;
+
+    const price =
+      event.type === 'PRICE_UPDATE'
+        ? (event as PriceUpdateEvent).price
+        : this.stateEngine.getLatestPrice(position.mintAddress)?.price;
+    if (price === undefined) return null;
 
-    const supplyEvent = event as SupplyChangeEvent;
+    const gain = ((price - position.entryPrice) / position.entryPrice) * 100;
 
     return {
       policyId: policy.id,
-      triggered: supplyEvent.changePercentage >= policy.threshold,
+      triggered: gain < policy.threshold,
       action: policy.action,
       actionParams: policy.actionParams,
-      triggerValue: supplyEvent.changePercentage,
+      triggerValue: gain,
       threshold: policy.threshold,
-      reason: `Supply increased ${supplyEvent.changePercentage.toFixed(2)}% (threshold: ${policy.threshold}%)`,
+      reason: `Position ${gain >= 0 ? 'up' : 'down'} ${Math.abs(gain).toFixed(2)}% after ${Math.round(heldSeconds / 60)} min (required: +${policy.threshold}% by ${deadlineSeconds / 60} min)`,
+      positionId: position.id,
+      rungs: [0],
     };
   }
 
-  private evaluatePriceDrop(
-    _policy: PolicyDefinition,
-    _event: InternalEvent,
+  // --- Composite conditions ---
+
+  private evaluateComposite(
+    policy: PolicyDefinition,
+    event: InternalEvent,
   ): PolicyEvaluationResult | null {
-    // Price tracking requires an oracle or DEX price feed
-    // Stubbed for MVP — will integrate with Jupiter/Raydium price API
-    return null;
+    if (!policy.conditions) return null;
+
+    // Only re-evaluate when the event can move at least one of the leaves
+    const leaves = collectConditionLeaves(policy.conditions);
+    if (!leaves.some((leaf) => this.handlers[leaf.trigger].relevant(event))) return null;
+
+    const outcome = this.evaluateCondition(policy.conditions, event, policy);
+
+    return {
+      policyId: policy.id,
+      triggered: outcome.met,
+      action: policy.action,
+      actionParams: policy.actionParams,
+      triggerValue: outcome.met ? 1 : 0,
+      threshold: 1,
+      reason: outcome.reason,
+    };
+  }
+
+  private evaluateCondition(
+    condition: PolicyCondition,
+    event: InternalEvent,
+    policy: PolicyDefinition,
+  ): ConditionOutcome {
+    if (isTriggerCondition(condition)) {
+      const measurement = this.handlers[condition.trigger].measure(condition, event, policy);
+      if (!measurement) {
+        return { met: false, reason: `${condition.trigger}: no data [not met]` };
+      }
+      const met = measurement.value >= condition.threshold;
+      return { met, reason: `${measurement.reason} [${met ? 'met' : 'not met'}]` };
+    }
+
+    if ('not' in condition) {
+      const inner = this.evaluateCondition(condition.not, event, policy);
+      return { met: !inner.met, reason: `NOT ${describeOutcome(condition.not, inner)}` };
+    }
+
+    const isAll = 'all' in condition;
+    const children = isAll ? condition.all : condition.any;
+    const outcomes = children.map((child) => ({
+      child,
+      outcome: this.evaluateCondition(child, event, policy),
+    }));
+
+    return {
+      met: isAll
+        ? outcomes.every(({ outcome }) => outcome.met)
+        : outcomes.some(({ outcome }) => outcome.met),
+      reason: outcomes
+        .map(({ child, outcome }) => describeOutcome(child, outcome))
+        .join(isAll ? ' AND ' : ' OR '),
+    };
+  }
+
+  // --- Trigger primitives ---
+
+  private measureDevSellPercentage(
+    condition: TriggerCondition,
+    event: InternalEvent,
+  ): Measurement | null {
+    const { windowBlocks } = condition;
+    const windowMs = (condition.windowSeconds ?? 600) * 1000;
+    const totalPct = this.maxOverDevWallets(event, (mint, devWallet) =>
+      windowBlocks
+        ? this.stateEngine.getDevSellPercentageInSlotWindow(
+            mint,
+            devWallet,
+            windowBlocks,
+            event.slot,
+          )
+        : this.stateEngine.getDevSellPercentageInWindow(mint, devWallet, windowMs, event.timestamp),
+    );
+    if (totalPct === null) return null;
+
+    return {
+      value: totalPct,
+      reason: `Dev wallet sold ${totalPct.toFixed(2)}% in ${describeWindow(condition)} (threshold: ${condition.threshold}%)`,
+    };
+  }
+
+  private measureDevSellCount(
+    condition: TriggerCondition,
+    event: InternalEvent,
+  ): Measurement | null {
+    const { windowBlocks } = condition;
+    const count = this.maxOverDevWallets(event, (mint, devWallet) =>
+      windowBlocks
+        ? this.stateEngine.getDevSellCountInSlotWindow(mint, devWallet, windowBlocks, event.slot)
+        : (this.stateEngine.getDevMetrics(mint, devWallet)?.totalSellCount ?? 0),
+    );
+    if (count === null) return null;
+
+    return {
+      value: count,
+      reason: `Dev wallet sell count: ${count} (threshold: ${condition.threshold})`,
+    };
+  }
+
+  private measureLPRemoval(condition: TriggerCondition, event: InternalEvent): Measurement | null {
+    const pools = this.poolsForEvent(event);
+    if (!pools) return null;
+
+    const { windowBlocks, windowSeconds } = condition;
+    const totalRemoved = Math.max(
+      0,
+      ...pools.map((pool) => {
+        if (windowBlocks) {
+          return this.stateEngine.getLPRemovedPercentageInSlotWindow(
+            pool,
+            windowBlocks,
+            event.slot,
+          );
+        }
+        if (windowSeconds) {
+          return this.stateEngine.getLPRemovedPercentageInWindow(
+            pool,
+            windowSeconds * 1000,
+            event.timestamp,
+          );
+        }
+        return this.stateEngine.getLPState(pool)?.totalRemovedPercentage ?? 0;
+      }),
+    );
+
+    return {
+      value: totalRemoved,
+      reason: `LP removal: ${totalRemoved.toFixed(2)}% (threshold: ${condition.threshold}%)`,
+    };
+  }
+
+  private measureLPRemovalTotal(
+    condition: TriggerCondition,
+    event: InternalEvent,
+  ): Measurement | null {
+    const pools = this.poolsForEvent(event);
+    if (!pools) return null;
+
+    const { windowBlocks } = condition;
+    const windowMs = condition.windowSeconds ? condition.windowSeconds * 1000 : undefined;
+    const removedSol = Math.max(
+      0,
+      ...pools.map((pool) =>
+        windowBlocks
+          ? this.stateEngine.getLPRemovedSolInSlotWindow(pool, windowBlocks, event.slot)
+          : this.stateEngine.getLPRemovedSolInWindow(pool, windowMs, event.timestamp),
+      ),
+    );
+
+    return {
+      value: removedSol,
+      reason: `LP removed: ${removedSol.toFixed(4)} SOL (threshold: ${condition.threshold} SOL)`,
+    };
+  }
+
+  private measureSupplyIncrease(
+    condition: TriggerCondition,
+    event: InternalEvent,
+  ): Measurement | null {
+    let increase: number;
+    if (event.type === 'SUPPLY_CHANGE' && !condition.windowSeconds) {
+      increase = (event as SupplyChangeEvent).changePercentage;
+    } else {
+      // Windowed, or measured from another event: cumulative increase from state
+      const mint = getEventMint(event);
+      if (!mint) return null;
+      const windowMs = condition.windowSeconds ? condition.windowSeconds * 1000 : undefined;
+      increase = this.stateEngine.getSupplyIncreaseInWindow(mint, windowMs, event.timestamp);
+    }
+
+    return {
+      value: increase,
+      reason: `Supply increased ${increase.toFixed(2)}% (threshold: ${condition.threshold}%)`,
+    };
+  }
+
+  private measurePriceDrop(
+    condition: TriggerCondition,
+    event: InternalEvent,
+    policy: PolicyDefinition,
+  ): Measurement | null {
+    const mint = getEventMint(event);
+    if (!mint) return null;
+
+    const price =
+      event.type === 'PRICE_UPDATE'
+        ? (event as PriceUpdateEvent).price
+        : this.stateEngine.getLatestPrice(mint)?.price;
+    if (price === undefined) return null;
+
+    const windowSeconds = condition.windowSeconds ?? 300;
+
+    // Drop from the highest price seen within the window
+    const peak = this.stateEngine.getPeakPriceInWindow(mint, windowSeconds * 1000, event.timestamp);
+    const dropFromPeak = peak && peak > 0 ? ((peak - price) / peak) * 100 : 0;
+
+    // Drop from entry — worst case across open positions this policy covers
+    let dropFromEntry = 0;
+    for (const position of this.stateEngine.getPositionsByMint(mint)) {
+      if (!policyMatchesPosition(policy, position)) continue;
+      if (!position.entryPrice || position.entryPrice <= 0) continue;
+      const drop = ((position.entryPrice - price) / position.entryPrice) * 100;
+      dropFromEntry = Math.max(dropFromEntry, drop);
+    }
+
+    const drop = Math.max(dropFromPeak, dropFromEntry, 0);
+    const basis = dropFromEntry > dropFromPeak ? 'entry' : `${windowSeconds}s peak`;
+
+    return {
+      value: drop,
+      reason: `Price dropped ${drop.toFixed(2)}% from ${basis} (threshold: ${condition.threshold}%)`,
+    };
+  }
+
+  private measureWalletOutflow(
+    condition: TriggerCondition,
+    event: InternalEvent,
+  ): Measurement | null {
+    if (event.type !== 'WALLET_TRANSACTION') return null;
+
+    // One unit per policy: SOL by default, raw units of the condition's mint otherwise
+    const txEvent = event as WalletTransactionEvent;
+    if (txEvent.mintAddress !== condition.mintAddress) return null;
+
+    const windowMs = (condition.windowSeconds ?? 3600) * 1000;
+    const amount = this.stateEngine.getWalletOutflowInWindow(
+      txEvent.walletAddress,
+      condition.mintAddress,
+      windowMs,
+      txEvent.timestamp,
+    );
+    const outflow = condition.mintAddress ? Number(amount) : Number(amount) / LAMPORTS_PER_SOL;
+    const unit = condition.mintAddress ? `of ${condition.mintAddress}` : 'SOL';
+
+    return {
+      value: outflow,
+      reason: `Wallet ${txEvent.walletAddress} outflow: ${outflow} ${unit} in window (threshold: ${condition.threshold} ${unit})`,
+    };
+  }
+
+  /** Worst value across the event's dev wallet, or every known dev wallet of its mint. */
+  private maxOverDevWallets(
+    event: InternalEvent,
+    read: (mintAddress: string, devWallet: string) => number,
+  ): number | null {
+    if (event.type === 'DEV_WALLET_SELL') {
+      const devEvent = event as DevWalletEvent;
+      return read(devEvent.mintAddress, devEvent.devWallet);
+    }
+
+    const mint = getEventMint(event);
+    if (!mint) return null;
+    return Math.max(
+      0,
+      ...this.stateEngine.getDevWalletsForMint(mint).map((dev) => read(mint, dev)),
+    );
+  }
+
+  /** The event's pool, or every tracked pool of its mint. */
+  private poolsForEvent(event: InternalEvent): string[] | null {
+    if (event.type === 'LP_REMOVE') return [(event as LPEvent).poolAddress];
+
+    const mint = getEventMint(event);
+    if (!mint) return null;
+    return this.stateEngine.getLPStatesByMint(mint).map((s) => s.poolAddress);
   }
 
   getPolicies(): PolicyDefinition[] {
     return [...this.policies];
   }
 
+  getPolicy(policyId: string): PolicyDefinition | undefined {
+    return this.policies.find((p) => p.id === policyId);
+  }
+
+  getApplicablePolicies(position: PositionState): ApplicablePolicy[] {
+    return resolveApplicablePolicies(this.policies, position);
+  }
+
+  appliesTo(policyId: string, position: PositionState): boolean {
+    return this.getApplicablePolicies(position).some(({ policy }) => policy.id === policyId);
+  }
+
   async addPolicy(policy: PolicyDefinition): Promise<void> {
     this.policies.push(policy);
     this.container.logger.info({ policyId: policy.id, name: policy.name }, 'Policy added');
@@ -213,3 +968,39 @@ export class PolicyEngine {
     this.container.logger.info('Policy engine stopped');
   }
 }
+
+export function toPolicyDefinition(record: Policy, versionId?: string): PolicyDefinition {
+  return {
+    id: record.id,
+    name: record.name,
+    trigger: record.trigger as PolicyDefinition['trigger'],
+    threshold: record.threshold,
+    windowBlocks: record.windowBlocks ?? undefined,
+    windowSeconds: record.windowSeconds ?? undefined,
+    action: record.action as PolicyDefinition['action'],
+    actionParams: (record.actionParams as PolicyDefinition['actionParams']) ?? undefined,
+    priority: record.priority,
+    isActive: record.isActive,
+    trackedTokenId: record.trackedTokenId ?? undefined,
+    walletId: record.walletId ?? undefined,
+    conditions: (record.conditions as PolicyCondition | null) ?? undefined,
+    cooldownSeconds: record.cooldownSeconds ?? undefined,
+    rearmBelow: record.rearmBelow ?? undefined,
+    mintAddress: record.mintAddress ?? undefined,
+    version: record.version,
+    versionId,
+  };
+}
+
+function toFiringState(record: PolicyFiringRecord): PolicyFiringState {
+  return {
+    policyId: record.policyId,
+    positionId: record.positionId,
+    armed: record.armed,
+    fireCount: record.fireCount,
+    lastFiredAt: record.lastFiredAt,
+    lastReason: record.lastReason,
+    lastValue: record.lastValue,
+    rearmedAt: record.rearmedAt,
+  };
+}
@@ -0,0 +1,53 @@
+import type { PositionState } from '../../types/position.js';
+import type { ApplicablePolicy, PolicyDefinition, PolicyScope } from '../../types/policy.js';
+
+const SCOPE_RANK: Record<PolicyScope, number> = { TOKEN: 0, WALLET: 1, GLOBAL: 2 };
+
+export function getPolicyScope(policy: PolicyDefinition): PolicyScope {
+  if (policy.trackedTokenId) return 'TOKEN';
+  if (policy.walletId) return 'WALLET';
+  return 'GLOBAL';
+}
+
+export function policyMatchesPosition(policy: PolicyDefinition, position: PositionState): boolean {
+  switch (getPolicyScope(policy)) {
+    case 'TOKEN':
+      return policy.trackedTokenId === position.trackedTokenId;
+    case 'WALLET':
+      return policy.walletId === position.walletId;
+    case 'GLOBAL':
+      return true;
+  }
+}
+
+/** Composite policies combine different primitives, so they override by name instead. */
+function overrideKey(policy: PolicyDefinition): string {
+  return policy.trigger === 'COMPOSITE' ? `COMPOSITE:${policy.name}` : policy.trigger;
+}
+
+/**
+ * Policies that govern a position. For each trigger only the most specific
+ * scope with a matching policy applies — a token-level DEV_SELL_PERCENTAGE
+ * policy replaces wallet and global DEV_SELL_PERCENTAGE policies for that
+ * position, while other triggers still fall through to broader scopes.
+ */
+export function resolveApplicablePolicies(
+  policies: PolicyDefinition[],
+  position: PositionState,
+): ApplicablePolicy[] {
+  const matching = policies
+    .filter((p) => p.isActive && policyMatchesPosition(p, position))
+    .map((policy) => ({ policy, scope: getPolicyScope(policy) }));
+
+  const bestRankByKey = new Map<string, number>();
+  for (const { policy, scope } of matching) {
+    const best = bestRankByKey.get(overrideKey(policy));
+    if (best === undefined || SCOPE_RANK[scope] < best) {
+      bestRankByKey.set(overrideKey(policy), SCOPE_RANK[scope]);
+    }
+  }
+
+  return matching
+    .filter(({ policy, scope }) => SCOPE_RANK[scope] === bestRankByKey.get(overrideKey(policy)))
+    .sort((a, b) => b.policy.priority - a.policy.priority);
+}
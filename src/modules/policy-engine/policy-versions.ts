@@ -0,0 +1,60 @@
+import type { Policy, PolicyVersion, Prisma } from '@prisma/client';
+import type { PolicyChange, PolicyDefinition, PolicyFieldChange } from '../../types/policy.js';
+import { toPolicyDefinition } from './policy-engine.service.js';
+
+// Identity and bookkeeping rather than behaviour
+const UNVERSIONED_FIELDS = new Set(['id', 'version', 'versionId']);
+
+/** Field-level changes between two definitions; `before` is null for a new policy. */
+export function diffPolicies(
+  before: PolicyDefinition | null,
+  after: PolicyDefinition,
+): PolicyFieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  const changes: PolicyFieldChange[] = [];
+
+  for (const field of [...fields].sort()) {
+    if (UNVERSIONED_FIELDS.has(field)) continue;
+    const from = (before as Record<string, unknown> | null)?.[field] ?? null;
+    const to = (after as unknown as Record<string, unknown>)[field] ?? null;
+    if (canonicalJson(from) !== canonicalJson(to)) changes.push({ field, from, to });
+  }
+
+  return changes;
+}
+
+/**
+ * Append an immutable version for the policy as it now stands. Call inside the
+ * transaction that bumped `record.version` so the two never disagree.
+ */
+export async function recordPolicyVersion(
+  tx: Prisma.TransactionClient,
+  record: Policy,
+  before: PolicyDefinition | null,
+  change: PolicyChange,
+): Promise<PolicyVersion> {
+  const definition = toPolicyDefinition(record);
+
+  return tx.policyVersion.create({
+    data: {
+      policyId: record.id,
+      version: record.version,
+      changeType: change.changeType,
+      definition: JSON.parse(JSON.stringify(definition)) as Prisma.InputJsonValue,
+      changes: JSON.parse(
+        JSON.stringify(diffPolicies(before, definition)),
+      ) as Prisma.InputJsonValue,
+      changedBy: change.changedBy,
+      changeReason: change.changeReason ?? null,
+    },
+  });
+}
+
+// JSON columns do not preserve key order, so compare with sorted keys
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+}
@@ -0,0 +1,2 @@
+export { PriceFeedService } from './price-feed.service.js';
+export type { PriceFeedConfig } from './price-feed.service.js';
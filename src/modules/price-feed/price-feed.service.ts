@@ -0,0 +1,129 @@
+import { PublicKey } from '@solana/web3.js';
+import { randomUUID } from 'node:crypto';
+import type { Container } from '../../infra/container.js';
+import type { EventBus } from '../../services/event-bus.js';
+import type { StateEngine } from '../state-engine/state-engine.service.js';
+import type { PumpFunService } from '../pumpfun/pumpfun.service.js';
+import type { PriceUpdateEvent } from '../../types/events.js';
+
+export interface PriceFeedConfig {
+  pollIntervalMs: number;
+}
+
+/**
+ * Polls spot prices for every mint with an open position and emits
+ * PRICE_UPDATE events so price-based policies evaluate on price ticks.
+ * Bonding curve only for now — migrated (AMM) tokens are skipped.
+ */
+export class PriceFeedService {
+  private readonly container: Container;
+  private readonly eventBus: EventBus;
+  private readonly stateEngine: StateEngine;
+  private readonly pumpfun: PumpFunService;
+  private readonly config: PriceFeedConfig;
+  private readonly lastPrices: Map<string, number> = new Map();
+  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    container: Container,
+    eventBus: EventBus,
+    stateEngine: StateEngine,
+    pumpfun: PumpFunService,
+    config: PriceFeedConfig,
+  ) {
+    this.container = container;
+    this.eventBus = eventBus;
+    this.stateEngine = stateEngine;
+    this.pumpfun = pumpfun;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    const { logger } = this.container;
+
+    this.pollInterval = setInterval(() => {
+      this.poll().catch((err) => {
+        logger.error({ err }, 'Price poll failed');
+      });
+    }, this.config.pollIntervalMs);
+
+    logger.info({ pollIntervalMs: this.config.pollIntervalMs }, 'Price feed started');
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const mints = new Set(this.stateEngine.getOpenPositions().map((p) => p.mintAddress));
+      if (mints.size === 0) return;
+
+      const slot = await this.container.solana.connection.getSlot();
+
+      for (const mintAddress of mints) {
+        await this.pollMint(mintAddress, slot);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollMint(mintAddress: string, slot: number): Promise<void> {
+    const { logger } = this.container;
+
+    try {
+      const state = await this.pumpfun.getBondingCurveState(new PublicKey(mintAddress));
+      if (state.complete) {
+        logger.debug({ mint: mintAddress }, 'Bonding curve complete — no AMM price source yet');
+        return;
+      }
+
+      const price = this.pumpfun.calculateSpotPrice(state);
+      if (price <= 0 || this.lastPrices.get(mintAddress) === price) return;
+      this.lastPrices.set(mintAddress, price);
+
+      const event: PriceUpdateEvent = {
+        id: randomUUID(),
+        type: 'PRICE_UPDATE',
+        timestamp: Date.now(),
+        slot,
+        signature: '',
+        mintAddress,
+        price,
+        source: 'bonding_curve',
+      };
+
+      this.eventBus.emit(event);
+      this.persistEvent(event);
+    } catch (err) {
+      logger.warn({ err, mint: mintAddress }, 'Failed to fetch price');
+    }
+  }
+
+  private persistEvent(event: PriceUpdateEvent): void {
+    const { db, logger } = this.container;
+    db.eventLog
+      .create({
+        data: {
+          eventType: event.type,
+          source: 'price-feed',
+          payload: JSON.parse(JSON.stringify(event)),
+          slot: BigInt(event.slot),
+          signature: null,
+        },
+      })
+      .catch((err) => {
+        logger.error({ err, eventId: event.id }, 'Failed to persist event');
+      });
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    this.lastPrices.clear();
+    this.container.logger.info('Price feed stopped');
+  }
+}
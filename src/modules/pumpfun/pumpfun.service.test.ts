@@ -70,6 +70,19 @@ describe('PumpFunService', () => {
     });
   });
 
+  describe('calculateSpotPrice', () => {
+    it('returns virtual SOL reserves per virtual token', () => {
+      const state = createMockCurveState();
+      // 30 SOL / 1M tokens = 30_000_000_000 / 1_000_000_000_000 lamports per raw unit
+      expect(service.calculateSpotPrice(state)).toBeCloseTo(0.03);
+    });
+
+    it('returns zero when token reserves are empty', () => {
+      const state = createMockCurveState({ virtualTokenReserves: 0n });
+      expect(service.calculateSpotPrice(state)).toBe(0);
+    });
+  });
+
   describe('calculateBuyQuote', () => {
     it('returns positive token output for SOL input', () => {
       const state = createMockCurveState();
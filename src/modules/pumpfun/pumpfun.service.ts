@@ -123,6 +123,12 @@ export class PumpFunService {
 
   // --- Quote math (constant product) ---
 
+  /** Spot price in lamports per raw token unit (matches PositionState.entryPrice). */
+  calculateSpotPrice(state: BondingCurveState): number {
+    if (state.virtualTokenReserves === 0n) return 0;
+    return Number(state.virtualSolReserves) / Number(state.virtualTokenReserves);
+  }
+
   calculateBuyQuote(state: BondingCurveState, solAmountIn: bigint): PumpQuote {
     const netSol = (solAmountIn * 10000n) / (10000n + DEFAULT_FEE_BPS);
 
@@ -0,0 +1,2 @@
+export { PositionReconciler } from './reconciler.service.js';
+export type { ReconcilerConfig } from './reconciler.service.js';
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Keypair, PublicKey, type AccountInfo } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  getAssociatedTokenAddressSync,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { PositionReconciler } from './reconciler.service.js';
+import { StateEngine } from '../state-engine/state-engine.service.js';
+import type { Container } from '../../infra/container.js';
+import type { EventBus } from '../../services/event-bus.js';
+import type { PositionState } from '../../types/position.js';
+
+const INTERVAL_MS = 60_000;
+const keypair = Keypair.generate();
+const owner = keypair.publicKey;
+const mint = Keypair.generate().publicKey;
+
+function tokenAccount(amount: bigint): AccountInfo<Buffer> {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint,
+      owner,
+      amount,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: AccountState.Initialized,
+      isNativeOption: 0,
+      isNative: 0n,
+      delegatedAmount: 0n,
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    data,
+  );
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 2_039_280, executable: false };
+}
+
+function position(id: string, overrides: Partial<PositionState> = {}): PositionState {
+  return {
+    id,
+    walletId: 'w1',
+    trackedTokenId: 't1',
+    mintAddress: mint.toBase58(),
+    entryAmountSol: 1,
+    tokenBalance: 1000n,
+    entryPrice: 0.001,
+    status: 'OPEN',
+    openedAt: new Date(Date.now() - 2 * INTERVAL_MS),
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+function createMockContainer(accounts: Array<AccountInfo<Buffer> | null>): Container {
+  return {
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as unknown as Container['logger'],
+    db: {
+      position: { update: vi.fn().mockResolvedValue({}) },
+      positionAdjustment: { create: vi.fn().mockResolvedValue({}) },
+      $transaction: vi.fn().mockResolvedValue([]),
+    } as unknown as Container['db'],
+    redis: {} as Container['redis'],
+    solana: {
+      keypair,
+      connection: {
+        getMultipleAccountsInfoAndContext: vi
+          .fn()
+          .mockResolvedValue({ context: { slot: 500 }, value: accounts }),
+      },
+    } as unknown as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+}
+
+describe('PositionReconciler', () => {
+  let container: Container;
+  let stateEngine: StateEngine;
+
+  function reconciler(accounts: Array<AccountInfo<Buffer> | null>): PositionReconciler {
+    container = createMockContainer(accounts);
+    stateEngine = new StateEngine(container, {} as EventBus);
+    return new PositionReconciler(container, stateEngine, { intervalMs: INTERVAL_MS });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('corrects a drifted balance to the ATA and records the adjustment', async () => {
+    const subject = reconciler([tokenAccount(800n), null]);
+    stateEngine.addPosition(position('pos1'));
+
+    const report = await subject.reconcile();
+
+    expect(report).toMatchObject({ checked: 1, skipped: 0 });
+    expect(report.adjustments).toEqual([
+      {
+        positionId: 'pos1',
+        mintAddress: mint.toBase58(),
+        previousBalance: 1000n,
+        newBalance: 800n,
+        closed: false,
+        slot: 500,
+      },
+    ]);
+    expect(stateEngine.getPosition('pos1')).toMatchObject({ tokenBalance: 800n, status: 'OPEN' });
+    expect(container.db.position.update).toHaveBeenCalledWith({
+      where: { id: 'pos1' },
+      data: { tokenBalance: '800' },
+    });
+    expect(container.db.positionAdjustment.create).toHaveBeenCalledWith({
+      data: {
+        positionId: 'pos1',
+        previousBalance: '1000',
+        newBalance: '800',
+        source: 'reconciler',
+        slot: 500n,
+        closedPosition: false,
+      },
+    });
+  });
+
+  it('closes a position whose token accounts are empty', async () => {
+    const subject = reconciler([null, null]);
+    stateEngine.addPosition(position('pos1'));
+
+    const report = await subject.reconcile();
+
+    expect(report.adjustments[0]).toMatchObject({ newBalance: 0n, closed: true });
+    expect(stateEngine.getPosition('pos1')).toMatchObject({ tokenBalance: 0n, status: 'CLOSED' });
+    expect(stateEngine.getOpenPositions()).toHaveLength(0);
+    expect(container.db.position.update).toHaveBeenCalledWith({
+      where: { id: 'pos1' },
+      data: expect.objectContaining({ tokenBalance: '0', status: 'CLOSED' }),
+    });
+  });
+
+  it('leaves balances that match the chain alone', async () => {
+    const subject = reconciler([tokenAccount(1000n), null]);
+    stateEngine.addPosition(position('pos1'));
+
+    const report = await subject.reconcile();
+
+    expect(report).toEqual({ checked: 1, skipped: 0, adjustments: [] });
+    expect(container.db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("reads the trading keypair's ATAs whichever wallet the position is under", async () => {
+    const subject = reconciler([tokenAccount(1000n), null]);
+    stateEngine.addPosition(position('pos1', { walletId: 'other-wallet' }));
+
+    const report = await subject.reconcile();
+
+    expect(report).toEqual({ checked: 1, skipped: 0, adjustments: [] });
+    expect(container.solana.connection.getMultipleAccountsInfoAndContext).toHaveBeenCalledWith(
+      [
+        getAssociatedTokenAddressSync(mint, owner, false, TOKEN_PROGRAM_ID),
+        getAssociatedTokenAddressSync(mint, owner, false, TOKEN_2022_PROGRAM_ID),
+      ],
+      'confirmed',
+    );
+  });
+
+  it('skips fresh positions and positions of different wallets sharing a mint', async () => {
+    const subject = reconciler([]);
+    const otherMint = Keypair.generate().publicKey.toBase58();
+    stateEngine.addPosition(position('fresh', { mintAddress: otherMint, openedAt: new Date() }));
+    stateEngine.addPosition(position('a', { walletId: 'w1' }));
+    stateEngine.addPosition(position('b', { walletId: 'w2', trackedTokenId: 't2' }));
+
+    const report = await subject.reconcile();
+
+    expect(report).toEqual({ checked: 0, skipped: 3, adjustments: [] });
+    expect(container.solana.connection.getMultipleAccountsInfoAndContext).not.toHaveBeenCalled();
+  });
+});
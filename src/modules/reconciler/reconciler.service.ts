@@ -0,0 +1,227 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  getAssociatedTokenAddressSync,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  unpackAccount,
+} from '@solana/spl-token';
+import type { Container } from '../../infra/container.js';
+import type { StateEngine } from '../state-engine/state-engine.service.js';
+import type {
+  PositionAdjustment,
+  PositionState,
+  ReconciliationReport,
+} from '../../types/position.js';
+
+const SOURCE = 'reconciler';
+const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+// getMultipleAccounts takes at most 100 keys, two ATAs per position
+const POSITIONS_PER_BATCH = 50;
+
+export interface ReconcilerConfig {
+  intervalMs: number;
+}
+
+/**
+ * Corrects position balances to what the trading keypair's ATAs hold; every
+ * buy and sell goes through that keypair, whichever wallet a position is
+ * recorded under. Balances are otherwise only ever set from quotes, so fees,
+ * partial fills, transfers and airdrops make them drift. Every correction is
+ * written to position_adjustments, and a position whose ATAs are empty is
+ * closed.
+ *
+ * A pass leaves alone positions it cannot attribute or read reliably:
+ * positions opened within the last interval (their buy may not have landed),
+ * several open positions of one mint (they share the keypair's ATA), and
+ * positions whose balance changed while their accounts were read.
+ */
+export class PositionReconciler {
+  private readonly container: Container;
+  private readonly stateEngine: StateEngine;
+  private readonly config: ReconcilerConfig;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(container: Container, stateEngine: StateEngine, config: ReconcilerConfig) {
+    this.container = container;
+    this.stateEngine = stateEngine;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    const { logger } = this.container;
+
+    this.interval = setInterval(() => {
+      this.reconcile().catch((err) => {
+        logger.error({ err }, 'Position reconciliation failed');
+      });
+    }, this.config.intervalMs);
+
+    logger.info({ intervalMs: this.config.intervalMs }, 'Position reconciler started');
+  }
+
+  async reconcile(now = Date.now()): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = { checked: 0, skipped: 0, adjustments: [] };
+    if (this.running) return report;
+    this.running = true;
+
+    try {
+      const open = this.stateEngine.getOpenPositions();
+      const attributable = this.soleHolders(open).filter(
+        (p) => p.openedAt.getTime() <= now - this.config.intervalMs,
+      );
+      report.skipped = open.length - attributable.length;
+
+      for (let i = 0; i < attributable.length; i += POSITIONS_PER_BATCH) {
+        await this.reconcileBatch(attributable.slice(i, i + POSITIONS_PER_BATCH), report);
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (report.adjustments.length > 0) {
+      this.container.logger.info(
+        {
+          checked: report.checked,
+          skipped: report.skipped,
+          adjusted: report.adjustments.length,
+          closed: report.adjustments.filter((a) => a.closed).length,
+        },
+        'Positions reconciled',
+      );
+    }
+    return report;
+  }
+
+  /** Positions that are the only open position of their mint, so the ATA balance is theirs alone. */
+  private soleHolders(positions: PositionState[]): PositionState[] {
+    const byMint = new Map<string, PositionState[]>();
+    for (const position of positions) {
+      const group = byMint.get(position.mintAddress) ?? [];
+      group.push(position);
+      byMint.set(position.mintAddress, group);
+    }
+
+    const sole: PositionState[] = [];
+    for (const [mintAddress, group] of byMint) {
+      if (group.length > 1) {
+        this.container.logger.warn(
+          { mint: mintAddress, positionIds: group.map((p) => p.id) },
+          'Open positions share an ATA, not reconciling them',
+        );
+        continue;
+      }
+      sole.push(group[0]!);
+    }
+    return sole;
+  }
+
+  private async reconcileBatch(
+    batch: PositionState[],
+    report: ReconciliationReport,
+  ): Promise<void> {
+    const { connection, keypair } = this.container.solana;
+
+    const expected = batch.map((position) => position.tokenBalance);
+    const keys = batch.flatMap((position) =>
+      TOKEN_PROGRAMS.map((programId) =>
+        getAssociatedTokenAddressSync(
+          new PublicKey(position.mintAddress),
+          keypair.publicKey,
+          false,
+          programId,
+        ),
+      ),
+    );
+    const { context, value: accounts } = await connection.getMultipleAccountsInfoAndContext(
+      keys,
+      'confirmed',
+    );
+
+    for (const [index, position] of batch.entries()) {
+      // An execution settled while the accounts were being read
+      const current = this.stateEngine.getPosition(position.id);
+      if (current?.status !== 'OPEN' || current.tokenBalance !== expected[index]) {
+        report.skipped++;
+        continue;
+      }
+      report.checked++;
+
+      let balance = 0n;
+      for (let k = index * TOKEN_PROGRAMS.length; k < (index + 1) * TOKEN_PROGRAMS.length; k++) {
+        const info = accounts[k];
+        if (info) balance += unpackAccount(keys[k]!, info, info.owner).amount;
+      }
+      if (balance === current.tokenBalance) continue;
+
+      const adjustment = await this.applyAdjustment(current, balance, context.slot);
+      if (adjustment) report.adjustments.push(adjustment);
+    }
+  }
+
+  /** The database is written first, so a failed write leaves state to be retried next pass. */
+  private async applyAdjustment(
+    position: PositionState,
+    balance: bigint,
+    slot: number,
+  ): Promise<PositionAdjustment | null> {
+    const { db, logger } = this.container;
+    const closed = balance === 0n;
+    const update = closed
+      ? { tokenBalance: balance, status: 'CLOSED' as const, closedAt: new Date() }
+      : { tokenBalance: balance };
+
+    try {
+      await db.$transaction([
+        db.position.update({
+          where: { id: position.id },
+          data: { ...update, tokenBalance: balance.toString() },
+        }),
+        db.positionAdjustment.create({
+          data: {
+            positionId: position.id,
+            previousBalance: position.tokenBalance.toString(),
+            newBalance: balance.toString(),
+            source: SOURCE,
+            slot: BigInt(slot),
+            closedPosition: closed,
+          },
+        }),
+      ]);
+    } catch (err) {
+      logger.error({ err, positionId: position.id }, 'Failed to record position adjustment');
+      return null;
+    }
+
+    const adjustment: PositionAdjustment = {
+      positionId: position.id,
+      mintAddress: position.mintAddress,
+      previousBalance: position.tokenBalance,
+      newBalance: balance,
+      closed,
+      slot,
+    };
+    this.stateEngine.updatePosition(position.id, update);
+
+    logger.warn(
+      {
+        positionId: position.id,
+        mint: position.mintAddress,
+        previousBalance: adjustment.previousBalance.toString(),
+        newBalance: balance.toString(),
+        closed,
+        slot,
+      },
+      closed ? 'Position closed, token account is empty' : 'Position balance corrected',
+    );
+    return adjustment;
+  }
+
+  async stop(): Promise<void> {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.container.logger.info('Position reconciler stopped');
+  }
+}
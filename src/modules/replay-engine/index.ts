@@ -0,0 +1,2 @@
+export { ReplayEngine } from './replay-engine.service.js';
+export { ReplayClock } from './replay-clock.js';
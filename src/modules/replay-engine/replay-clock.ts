@@ -0,0 +1,28 @@
+/**
+ * Time inside a replay. It moves only when advanced to the timestamp of the
+ * next event and never runs backwards, so nothing in a replay reads the wall
+ * clock and the same range always evaluates the same way.
+ */
+export class ReplayClock {
+  private current: number | null = null;
+
+  get started(): boolean {
+    return this.current !== null;
+  }
+
+  now(): number {
+    if (this.current === null) throw new Error('Replay clock has not started');
+    return this.current;
+  }
+
+  advance(timestamp: number): number {
+    this.current = this.current === null ? timestamp : Math.max(this.current, timestamp);
+    return this.current;
+  }
+
+  /** Wall-clock ms to wait before an event at `timestamp` when replaying at `speed` times real time. */
+  delayUntil(timestamp: number, speed: number): number {
+    if (speed <= 0 || this.current === null) return 0;
+    return Math.max(0, timestamp - this.current) / speed;
+  }
+}
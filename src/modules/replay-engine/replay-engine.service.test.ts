@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReplayEngine } from './replay-engine.service.js';
+import { ReplayClock } from './replay-clock.js';
+import type { Container } from '../../infra/container.js';
+import type { DevWalletEvent, WalletTransactionEvent } from '../../types/events.js';
+import type { PolicyDefinition } from '../../types/policy.js';
+
+const T0 = Date.parse('2026-03-01T12:00:00Z');
+
+function devSell(minute: number, pct: number) {
+  const timestamp = T0 + minute * 60_000;
+  const payload: DevWalletEvent = {
+    id: `sell-${minute}`,
+    type: 'DEV_WALLET_SELL',
+    timestamp,
+    slot: 1000 + minute,
+    signature: `sig-${minute}`,
+    devWallet: 'dev1',
+    mintAddress: 'mint1',
+    amount: '1000',
+    percentageOfHoldings: pct,
+  };
+  return { id: `row-${minute}`, payload, processedAt: new Date(timestamp) };
+}
+
+const positionRow = {
+  id: 'pos1',
+  walletId: 'w1',
+  trackedTokenId: 't1',
+  mintAddress: 'mint1',
+  entryAmountSol: 1,
+  tokenBalance: '1000000',
+  entryPrice: 0.01,
+  status: 'OPEN',
+  openedAt: new Date(T0 - 60 * 60_000),
+  closedAt: null,
+  updatedAt: new Date(),
+};
+
+function createMockContainer(): Container {
+  const logger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: vi.fn(),
+  };
+  logger.child.mockReturnValue(logger);
+
+  return {
+    logger: logger as unknown as Container['logger'],
+    db: {
+      eventLog: {
+        findMany: vi.fn().mockResolvedValue([devSell(0, 5), devSell(30, 5)]),
+        aggregate: vi.fn().mockResolvedValue({
+          _min: { processedAt: new Date(T0) },
+          _max: { processedAt: new Date(T0 + 30 * 60_000) },
+        }),
+      },
+      position: {
+        findMany: vi.fn().mockResolvedValue([positionRow]),
+      },
+      wallet: { findUnique: vi.fn().mockResolvedValue(null) },
+    } as unknown as Container['db'],
+    redis: {} as Container['redis'],
+    solana: {} as Container['solana'],
+    riskParams: {
+      maxPositionSizeSol: 1,
+      maxSlippageBps: 300,
+      maxPriorityFeeLamports: 100000,
+      executionCooldownMs: 5000,
+    },
+  };
+}
+
+describe('ReplayEngine', () => {
+  let mockContainer: Container;
+  let engine: ReplayEngine;
+
+  const maxHold: PolicyDefinition = {
+    id: 'max-hold',
+    name: 'Max hold 75 min',
+    trigger: 'MAX_HOLD_TIME',
+    threshold: 75,
+    action: 'EXIT_POSITION',
+    priority: 0,
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    mockContainer = createMockContainer();
+    engine = new ReplayEngine(mockContainer);
+  });
+
+  it('replays a slot range and fires time-based policies on replay-clock ticks', async () => {
+    const report = await engine.run({
+      fromSlot: 1000,
+      toSlot: 1030,
+      policies: [maxHold],
+      tickIntervalMs: 10 * 60_000,
+    });
+
+    expect(mockContainer.db.eventLog.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { slot: { gte: 1000n, lte: 1030n } } }),
+    );
+    expect(report.eventsReplayed).toBe(2);
+    // Ticks at +10 and +20 min; the position is exited at +20, so no tick follows
+    expect(report.ticksEmitted).toBe(2);
+    expect(report.triggers).toHaveLength(1);
+    expect(report.triggers[0]).toMatchObject({
+      policyId: 'max-hold',
+      eventId: `tick:${T0 + 20 * 60_000}:mint1`,
+      eventType: 'CLOCK_TICK',
+      positions: [{ positionId: 'pos1', execution: { action: 'FULL_EXIT', sellPercentage: 100 } }],
+    });
+    expect(report.startedAt).toBe(T0);
+    expect(report.endedAt).toBe(T0 + 30 * 60_000);
+  });
+
+  it('gives the same report for the same range and policies', async () => {
+    const options = { from: new Date(T0), to: new Date(T0 + 60 * 60_000), tickIntervalMs: 600_000 };
+
+    const first = await engine.run({ ...options, policies: [maxHold] });
+    const second = await engine.run({ ...options, policies: [maxHold] });
+
+    expect(second).toEqual(first);
+  });
+
+  it('stops at maxEvents and reports the range as truncated', async () => {
+    const report = await engine.run({
+      from: new Date(T0),
+      to: new Date(T0 + 60 * 60_000),
+      policies: [maxHold],
+      maxEvents: 1,
+    });
+
+    expect(report.eventsReplayed).toBe(1);
+    expect(report.truncated).toBe(true);
+  });
+
+  it("acts on a wallet transfer only for that wallet's positions", async () => {
+    vi.mocked(mockContainer.db.position.findMany).mockResolvedValue([
+      positionRow,
+      { ...positionRow, id: 'pos2', walletId: 'w2' },
+    ] as never);
+    const transfer: WalletTransactionEvent = {
+      id: 'transfer-0',
+      type: 'WALLET_TRANSACTION',
+      timestamp: T0,
+      slot: 1000,
+      signature: 'sig-transfer',
+      walletAddress: 'wallet2',
+      mintAddress: 'mint1',
+      direction: 'OUT',
+      amountLamports: '500000',
+    };
+    vi.mocked(mockContainer.db.eventLog.findMany).mockResolvedValue([
+      { id: 'row-transfer', payload: transfer, processedAt: new Date(T0) },
+    ] as never);
+    vi.mocked(mockContainer.db.wallet.findUnique).mockResolvedValue({ id: 'w2' } as never);
+
+    const report = await engine.run({
+      fromSlot: 1000,
+      toSlot: 1030,
+      policies: [
+        {
+          id: 'outflow',
+          name: 'Token outflow',
+          trigger: 'WALLET_OUTFLOW',
+          threshold: 100_000,
+          windowSeconds: 3600,
+          mintAddress: 'mint1',
+          action: 'EXIT_POSITION',
+          priority: 0,
+          isActive: true,
+        },
+      ],
+    });
+
+    expect(mockContainer.db.wallet.findUnique).toHaveBeenCalledWith({
+      where: { address: 'wallet2' },
+    });
+    expect(report.triggers).toHaveLength(1);
+    // pos1 holds mint1 too, but under another wallet
+    expect(report.triggers[0]!.positions.map((p) => p.positionId)).toEqual(['pos2']);
+  });
+
+  it('stops pacing once maxPacedMs of waiting is spent', async () => {
+    const startedAt = Date.now();
+    // At real time the 30 recorded minutes between the events would be waited out
+    const report = await engine.run({
+      fromSlot: 1000,
+      toSlot: 1030,
+      policies: [maxHold],
+      speed: 1,
+      maxPacedMs: 20,
+    });
+
+    expect(report.eventsReplayed).toBe(2);
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+  });
+});
+
+describe('ReplayClock', () => {
+  it('never runs backwards and scales recorded gaps by the speed', () => {
+    const clock = new ReplayClock();
+    expect(clock.delayUntil(T0, 1)).toBe(0);
+
+    clock.advance(T0);
+    expect(clock.advance(T0 - 1000)).toBe(T0);
+    expect(clock.delayUntil(T0 + 10_000, 10)).toBe(1000);
+    expect(clock.delayUntil(T0 + 10_000, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,358 @@
+import type { Position, Prisma } from '@prisma/client';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { Container } from '../../infra/container.js';
+import { EventBus } from '../../services/event-bus.js';
+import { getEventMint } from '../../services/event-utils.js';
+import { StateEngine, toPositionState } from '../state-engine/index.js';
+import { PolicyEngine } from '../policy-engine/index.js';
+import { mapPolicyAction } from '../orchestrator/index.js';
+import { ReplayClock } from './replay-clock.js';
+import type { ClockTickEvent, InternalEvent } from '../../types/events.js';
+import type { PolicyEvaluationResult } from '../../types/policy.js';
+import type { PositionState } from '../../types/position.js';
+import type { DryRunPositionAction } from '../../types/dry-run.js';
+import type { ReplayOptions, ReplayReport, ReplayTrigger } from '../../types/replay.js';
+
+const PAGE_SIZE = 1000;
+const DEFAULT_MAX_EVENTS = 50_000;
+
+/** Engines and bookkeeping of one replay, thrown away when it ends. */
+interface ReplayRun {
+  options: ReplayOptions;
+  eventBus: EventBus;
+  stateEngine: StateEngine;
+  policyEngine: PolicyEngine;
+  clock: ReplayClock;
+  positions: Position[];
+  exited: Set<string>;
+  triggers: ReplayTrigger[];
+  nextTickAt: number | null;
+  ticksEmitted: number;
+  pacedMs: number;
+}
+
+/**
+ * Streams stored events through a separate EventBus wired to a fresh
+ * StateEngine and PolicyEngine, and resolves each fire the way the
+ * orchestrator would. Nothing is executed or persisted: fires are tracked in
+ * memory and simulated exits only close positions in the replay. Time comes
+ * from a ReplayClock driven by event timestamps, so a range replayed against
+ * the same policies always gives the same report.
+ */
+export class ReplayEngine {
+  private readonly container: Container;
+
+  constructor(container: Container) {
+    this.container = container;
+  }
+
+  async run(options: ReplayOptions): Promise<ReplayReport> {
+    const { db } = this.container;
+    const logger = this.container.logger.child({ replay: true });
+    const container: Container = { ...this.container, logger };
+    const maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+
+    const eventBus = new EventBus(logger);
+    const stateEngine = new StateEngine(container, eventBus);
+    const policyEngine = new PolicyEngine(container, stateEngine, {
+      persistFiring: false,
+    });
+    stateEngine.listen();
+
+    if (options.policies) {
+      for (const policy of options.policies) {
+        await policyEngine.addPolicy({ ...policy, isActive: true });
+      }
+    } else {
+      await policyEngine.loadPolicies();
+    }
+
+    const where = eventRange(options);
+    const run: ReplayRun = {
+      options,
+      eventBus,
+      stateEngine,
+      policyEngine,
+      clock: new ReplayClock(),
+      positions: await this.loadPositions(where, options),
+      exited: new Set(),
+      triggers: [],
+      nextTickAt: null,
+      ticksEmitted: 0,
+      pacedMs: 0,
+    };
+
+    let rowsRead = 0;
+    let eventsReplayed = 0;
+    let startedAt: number | null = null;
+    let truncated = false;
+    let cursor: string | undefined;
+
+    paging: for (;;) {
+      const rows = await db.eventLog.findMany({
+        where,
+        orderBy: [{ processedAt: 'asc' }, { id: 'asc' }],
+        take: PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      for (const row of rows) {
+        if (rowsRead === maxEvents) {
+          truncated = true;
+          break paging;
+        }
+        rowsRead++;
+
+        const event = row.payload as unknown as InternalEvent;
+        if (options.mintAddress && getEventMint(event) !== options.mintAddress) continue;
+
+        await this.emitTicksUntil(run, event.timestamp);
+        await this.step(run, event);
+        startedAt ??= run.clock.now();
+        eventsReplayed++;
+      }
+
+      if (rows.length < PAGE_SIZE) break;
+      cursor = rows[rows.length - 1]!.id;
+    }
+
+    eventBus.removeAllListeners();
+
+    const report: ReplayReport = {
+      eventsReplayed,
+      ticksEmitted: run.ticksEmitted,
+      truncated,
+      startedAt,
+      endedAt: run.clock.started ? run.clock.now() : null,
+      triggers: run.triggers,
+    };
+
+    logger.info(
+      {
+        eventsReplayed,
+        ticksEmitted: report.ticksEmitted,
+        triggerCount: report.triggers.length,
+        truncated,
+      },
+      'Replay complete',
+    );
+
+    return report;
+  }
+
+  /** Wait out the recorded gap, move the clock, publish the event and resolve what fires. */
+  private async step(run: ReplayRun, event: InternalEvent): Promise<void> {
+    const { clock, options, stateEngine, policyEngine } = run;
+
+    const delay = Math.min(
+      clock.delayUntil(event.timestamp, options.speed ?? 0),
+      (options.maxPacedMs ?? Infinity) - run.pacedMs,
+    );
+    if (delay > 0) {
+      run.pacedMs += delay;
+      await sleep(delay);
+    }
+
+    const now = clock.advance(event.timestamp);
+    if (run.nextTickAt === null && options.tickIntervalMs) {
+      run.nextTickAt = now + options.tickIntervalMs;
+    }
+
+    syncPositions(stateEngine, run.positions, run.exited, now);
+    run.eventBus.emit(event);
+
+    if (options.evaluateFrom && event.timestamp < options.evaluateFrom.getTime()) return;
+
+    for (const result of await policyEngine.evaluateEvent(event)) {
+      const trigger = await this.resolveTrigger(run, result, event);
+      if (!trigger) continue;
+
+      run.triggers.push(trigger);
+      applySimulatedSells(trigger, stateEngine, run.exited);
+    }
+  }
+
+  /**
+   * Clock ticks the scheduler would have emitted before the next event, one
+   * per mint with open positions. Ids derive from replay time so reruns match.
+   */
+  private async emitTicksUntil(run: ReplayRun, timestamp: number): Promise<void> {
+    const interval = run.options.tickIntervalMs;
+    if (!interval) return;
+
+    while (run.nextTickAt !== null && run.nextTickAt <= timestamp) {
+      const tickAt = run.nextTickAt;
+      run.nextTickAt += interval;
+
+      syncPositions(run.stateEngine, run.positions, run.exited, tickAt);
+      const mints = new Set(run.stateEngine.getOpenPositions().map((p) => p.mintAddress));
+
+      for (const mintAddress of mints) {
+        if (run.options.mintAddress && mintAddress !== run.options.mintAddress) continue;
+
+        const tick: ClockTickEvent = {
+          id: `tick:${tickAt}:${mintAddress}`,
+          type: 'CLOCK_TICK',
+          timestamp: tickAt,
+          slot: 0,
+          signature: '',
+          mintAddress,
+        };
+        await this.step(run, tick);
+        run.ticksEmitted++;
+      }
+    }
+  }
+
+  /** What the orchestrator would have done with this result, or null if it would skip it. */
+  private async resolveTrigger(
+    run: ReplayRun,
+    result: PolicyEvaluationResult,
+    event: InternalEvent,
+  ): Promise<ReplayTrigger | null> {
+    const { policyEngine } = run;
+    const candidates = (await run.stateEngine.getPositionsAffectedBy(event)) ?? [];
+    const inScope = candidates.filter(
+      (p) =>
+        (!result.positionId || p.id === result.positionId) &&
+        policyEngine.appliesTo(result.policyId, p),
+    );
+
+    const base = {
+      policyId: result.policyId,
+      policyVersionId: result.policyVersionId,
+      eventId: event.id,
+      eventType: event.type,
+      timestamp: event.timestamp,
+      slot: event.slot,
+      signature: event.signature,
+      action: result.action,
+      triggerValue: result.triggerValue,
+      threshold: result.threshold,
+      reason: result.reason,
+    };
+
+    // Halts apply even with no positions, and do not trade
+    if (result.action === 'HALT_STRATEGY') {
+      return {
+        ...base,
+        positions: inScope.map((p) => toPositionAction(p, null)),
+        haltScope: result.actionParams?.haltScope ?? 'TOKEN',
+      };
+    }
+
+    const firing: PositionState[] = [];
+    for (const position of inScope) {
+      const claimed = result.rungs
+        ? await policyEngine.claimRungs(result.policyId, position.id, result.rungs)
+        : await policyEngine.claimFiring(result, position.id, run.clock.now());
+      if (claimed) firing.push(position);
+    }
+    if (firing.length === 0) return null;
+
+    const action = mapPolicyAction(result);
+    const execution = action
+      ? { action: action.type, sellPercentage: action.sellPercentage }
+      : null;
+
+    return { ...base, positions: firing.map((p) => toPositionAction(p, execution)) };
+  }
+
+  /** Positions open at any point of the range; slot ranges are mapped to ingestion times first. */
+  private async loadPositions(
+    where: Prisma.EventLogWhereInput,
+    options: ReplayOptions,
+  ): Promise<Position[]> {
+    const { db } = this.container;
+    let from = options.from;
+    let to = options.to;
+
+    if (!from || !to) {
+      const bounds = await db.eventLog.aggregate({
+        where,
+        _min: { processedAt: true },
+        _max: { processedAt: true },
+      });
+      from ??= bounds._min.processedAt ?? undefined;
+      to ??= bounds._max.processedAt ?? undefined;
+    }
+    if (!from || !to) return [];
+
+    return db.position.findMany({
+      where: {
+        openedAt: { lte: to },
+        OR: [{ closedAt: null }, { closedAt: { gte: from } }],
+      },
+    });
+  }
+}
+
+function eventRange(options: ReplayOptions): Prisma.EventLogWhereInput {
+  if (options.fromSlot !== undefined || options.toSlot !== undefined) {
+    return {
+      slot: {
+        gte: options.fromSlot !== undefined ? BigInt(options.fromSlot) : undefined,
+        lte: options.toSlot !== undefined ? BigInt(options.toSlot) : undefined,
+      },
+    };
+  }
+  return { processedAt: { gte: options.from, lte: options.to } };
+}
+
+/** Positions as they stood at `timestamp`: opened by then, not yet closed, and not exited by the replay. */
+function syncPositions(
+  stateEngine: StateEngine,
+  records: Position[],
+  exited: Set<string>,
+  timestamp: number,
+): void {
+  for (const record of records) {
+    const open =
+      record.openedAt.getTime() <= timestamp &&
+      (!record.closedAt || record.closedAt.getTime() > timestamp) &&
+      !exited.has(record.id);
+    const current = stateEngine.getPosition(record.id);
+
+    if (open && !current) {
+      stateEngine.addPosition({ ...toPositionState(record), status: 'OPEN', closedAt: null });
+    } else if (!open && current?.status === 'OPEN') {
+      stateEngine.updatePosition(record.id, { status: 'CLOSED', closedAt: new Date(timestamp) });
+    }
+  }
+}
+
+function applySimulatedSells(
+  trigger: ReplayTrigger,
+  stateEngine: StateEngine,
+  exited: Set<string>,
+): void {
+  for (const { positionId, execution } of trigger.positions) {
+    const position = stateEngine.getPosition(positionId);
+    if (!execution || !position) continue;
+
+    const sold = (position.tokenBalance * BigInt(Math.floor(execution.sellPercentage))) / 100n;
+    const remaining = position.tokenBalance - sold;
+    if (remaining === 0n) {
+      exited.add(positionId);
+      stateEngine.updatePosition(positionId, {
+        tokenBalance: 0n,
+        status: 'CLOSED',
+        closedAt: new Date(trigger.timestamp),
+      });
+    } else {
+      stateEngine.updatePosition(positionId, { tokenBalance: remaining });
+    }
+  }
+}
+
+function toPositionAction(
+  position: PositionState,
+  execution: DryRunPositionAction['execution'],
+): DryRunPositionAction {
+  return {
+    positionId: position.id,
+    walletId: position.walletId,
+    mintAddress: position.mintAddress,
+    execution,
+  };
+}
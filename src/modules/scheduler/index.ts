@@ -0,0 +1,2 @@
+export { Scheduler } from './scheduler.service.js';
+export type { SchedulerConfig } from './scheduler.service.js';
@@ -0,0 +1,63 @@
+import { randomUUID } from 'node:crypto';
+import type { Container } from '../../infra/container.js';
+import type { EventBus } from '../../services/event-bus.js';
+import type { StateEngine } from '../state-engine/state-engine.service.js';
+import type { ClockTickEvent } from '../../types/events.js';
+
+export interface SchedulerConfig {
+  tickIntervalMs: number;
+}
+
+/**
+ * Emits a CLOCK_TICK per mint with open positions on a fixed interval, so
+ * time-based policies (max hold, time stops) fire even when no on-chain
+ * events arrive. Ticks are not persisted to the event log.
+ */
+export class Scheduler {
+  private readonly container: Container;
+  private readonly eventBus: EventBus;
+  private readonly stateEngine: StateEngine;
+  private readonly config: SchedulerConfig;
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    container: Container,
+    eventBus: EventBus,
+    stateEngine: StateEngine,
+    config: SchedulerConfig,
+  ) {
+    this.container = container;
+    this.eventBus = eventBus;
+    this.stateEngine = stateEngine;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    this.tickInterval = setInterval(() => this.tick(), this.config.tickIntervalMs);
+    this.container.logger.info({ tickIntervalMs: this.config.tickIntervalMs }, 'Scheduler started');
+  }
+
+  tick(now = Date.now()): void {
+    const mints = new Set(this.stateEngine.getOpenPositions().map((p) => p.mintAddress));
+
+    for (const mintAddress of mints) {
+      const event: ClockTickEvent = {
+        id: randomUUID(),
+        type: 'CLOCK_TICK',
+        timestamp: now,
+        slot: 0,
+        signature: '',
+        mintAddress,
+      };
+      this.eventBus.emit(event);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    this.container.logger.info('Scheduler stopped');
+  }
+}
@@ -1 +1 @@
-export { StateEngine } from './state-engine.service.js';
+export { StateEngine, toPositionState } from './state-engine.service.js';
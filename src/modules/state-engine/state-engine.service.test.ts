@@ -2,7 +2,13 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { StateEngine } from './state-engine.service.js';
 import type { Container } from '../../infra/container.js';
 import type { EventBus } from '../../services/event-bus.js';
-import type { DevWalletEvent } from '../../types/events.js';
+import type {
+  DevWalletEvent,
+  LPEvent,
+  PriceUpdateEvent,
+  SupplyChangeEvent,
+  WalletTransactionEvent,
+} from '../../types/events.js';
 
 function createMockContainer(): Container {
   return {
@@ -16,8 +22,18 @@ function createMockContainer(): Container {
       position: {
         findMany: vi.fn().mockResolvedValue([]),
       },
+      policy: {
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+      eventLog: {
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+      wallet: {
+        findUnique: vi.fn().mockResolvedValue({ id: 'w2' }),
+      },
     } as unknown as Container['db'],
     redis: {
+      get: vi.fn().mockResolvedValue(null),
       set: vi.fn().mockResolvedValue('OK'),
     } as unknown as Container['redis'],
     solana: {} as Container['solana'],
@@ -175,6 +191,66 @@ describe('StateEngine', () => {
     });
   });
 
+  describe('positions affected by an event', () => {
+    const position = (id: string, walletId: string, mintAddress: string) => ({
+      id,
+      walletId,
+      trackedTokenId: 't1',
+      mintAddress,
+      entryAmountSol: 0.5,
+      tokenBalance: 1_000_000n,
+      entryPrice: null,
+      status: 'OPEN' as const,
+      openedAt: new Date(),
+      closedAt: null,
+    });
+
+    beforeEach(() => {
+      engine.addPosition(position('p1', 'w1', 'mint1'));
+      engine.addPosition(position('p2', 'w2', 'mint1'));
+      engine.addPosition(position('p3', 'w2', 'mint2'));
+    });
+
+    it("resolves a wallet transaction to that wallet's positions of the moved token", async () => {
+      const transfer: WalletTransactionEvent = {
+        id: 'e1',
+        type: 'WALLET_TRANSACTION',
+        timestamp: Date.now(),
+        slot: 100,
+        signature: 'sig1',
+        walletAddress: 'wallet2',
+        mintAddress: 'mint1',
+        direction: 'OUT',
+        amountLamports: '6',
+      };
+
+      const tokenMoved = await engine.getPositionsAffectedBy(transfer);
+      const solMoved = await engine.getPositionsAffectedBy({ ...transfer, mintAddress: undefined });
+
+      expect(mockContainer.db.wallet.findUnique).toHaveBeenCalledWith({
+        where: { address: 'wallet2' },
+      });
+      expect(tokenMoved!.map((p) => p.id)).toEqual(['p2']);
+      expect(solMoved!.map((p) => p.id)).toEqual(['p2', 'p3']);
+    });
+
+    it('resolves other events to every position of their mint', async () => {
+      const affected = await engine.getPositionsAffectedBy({
+        id: 'e1',
+        type: 'DEV_WALLET_SELL',
+        timestamp: Date.now(),
+        slot: 100,
+        signature: 'sig1',
+        devWallet: 'dev1',
+        mintAddress: 'mint1',
+        amount: '1000',
+        percentageOfHoldings: 30,
+      });
+
+      expect(affected!.map((p) => p.id)).toEqual(['p1', 'p2']);
+    });
+  });
+
   describe('dev wallet metrics', () => {
     it('tracks dev sells via event handler', () => {
       // Trigger the handler that was registered with onType
@@ -277,4 +353,400 @@ describe('StateEngine', () => {
       expect(pctWide).toBe(30);
     });
   });
+
+  describe('slot windows', () => {
+    it('judges dev sells and LP removals by event slot', () => {
+      const devHandlers = mockEventBus._handlers.get('DEV_WALLET_SELL') ?? [];
+      const lpHandlers = mockEventBus._handlers.get('LP_REMOVE') ?? [];
+      // Ingestion time is irrelevant: a delayed event still counts by its slot
+      const now = Date.now();
+
+      const sell = (id: string, slot: number, percentage: number): DevWalletEvent => ({
+        id,
+        type: 'DEV_WALLET_SELL',
+        timestamp: now,
+        slot,
+        signature: id,
+        devWallet: 'dev1',
+        mintAddress: 'mint1',
+        amount: '1000',
+        percentageOfHoldings: percentage,
+      });
+
+      const removal = (id: string, slot: number, liquidity: string, sol: string): LPEvent => ({
+        id,
+        type: 'LP_REMOVE',
+        timestamp: now,
+        slot,
+        signature: id,
+        poolAddress: 'pool1',
+        mintAddress: 'mint1',
+        liquidityAmount: liquidity,
+        solAmount: sol,
+        tokenAmount: '1000',
+      });
+
+      devHandlers[0]!(sell('s1', 100, 10));
+      devHandlers[0]!(sell('s2', 140, 15));
+      devHandlers[0]!(sell('s3', 150, 5));
+      lpHandlers[0]!(removal('r1', 100, '30', '3000000000'));
+      lpHandlers[0]!(removal('r2', 150, '20', '1000000000'));
+
+      expect(engine.getDevSellPercentageInSlotWindow('mint1', 'dev1', 20, 150)).toBe(20);
+      expect(engine.getDevSellPercentageInSlotWindow('mint1', 'dev1', 51, 150)).toBe(30);
+      // Sells after the reference slot are not visible yet
+      expect(engine.getDevSellCountInSlotWindow('mint1', 'dev1', 100, 140)).toBe(2);
+      expect(engine.getLPRemovedPercentageInSlotWindow('pool1', 10, 150)).toBe(20);
+      expect(engine.getLPRemovedSolInSlotWindow('pool1', 100, 150)).toBe(4);
+    });
+  });
+
+  describe('price history', () => {
+    function priceEvent(price: number, timestamp: number): PriceUpdateEvent {
+      return {
+        id: `e-${timestamp}`,
+        type: 'PRICE_UPDATE',
+        timestamp,
+        slot: 100,
+        signature: '',
+        mintAddress: 'mint1',
+        price,
+        source: 'bonding_curve',
+      };
+    }
+
+    it('records the latest price per mint', () => {
+      const handlers = mockEventBus._handlers.get('PRICE_UPDATE') ?? [];
+      expect(handlers.length).toBeGreaterThan(0);
+
+      const now = Date.now();
+      handlers[0]!(priceEvent(0.02, now - 1000));
+      handlers[0]!(priceEvent(0.03, now));
+
+      expect(engine.getLatestPrice('mint1')?.price).toBe(0.03);
+      expect(engine.getLatestPrice('unknown')).toBeUndefined();
+    });
+
+    it('tracks the post-entry high-water mark of open positions', () => {
+      engine.addPosition({
+        id: 'p1',
+        walletId: 'w1',
+        trackedTokenId: 't1',
+        mintAddress: 'mint1',
+        entryAmountSol: 0.5,
+        tokenBalance: BigInt(1000),
+        entryPrice: 0.03,
+        status: 'OPEN',
+        openedAt: new Date(),
+        closedAt: null,
+      });
+
+      const handlers = mockEventBus._handlers.get('PRICE_UPDATE') ?? [];
+      handlers[0]!(priceEvent(0.02, 1));
+      expect(engine.getHighWaterPrice('p1')).toBe(0.03);
+
+      handlers[0]!(priceEvent(0.05, 2));
+      handlers[0]!(priceEvent(0.04, 3));
+      expect(engine.getHighWaterPrice('p1')).toBe(0.05);
+    });
+
+    it('finds the peak price within a window', () => {
+      const handlers = mockEventBus._handlers.get('PRICE_UPDATE') ?? [];
+      const now = Date.now();
+
+      handlers[0]!(priceEvent(0.05, now - 300_000)); // 5 minutes ago
+      handlers[0]!(priceEvent(0.04, now - 60_000)); // 1 minute ago
+      handlers[0]!(priceEvent(0.02, now));
+
+      expect(engine.getPeakPriceInWindow('mint1', 120_000, now)).toBe(0.04);
+      expect(engine.getPeakPriceInWindow('mint1', 600_000, now)).toBe(0.05);
+      expect(engine.getPeakPriceInWindow('unknown', 600_000, now)).toBeNull();
+    });
+  });
+
+  describe('LP removals', () => {
+    it('sums SOL removed within a window', () => {
+      const handlers = mockEventBus._handlers.get('LP_REMOVE') ?? [];
+      const now = Date.now();
+
+      const removal = (id: string, timestamp: number, solAmount: string): LPEvent => ({
+        id,
+        type: 'LP_REMOVE',
+        timestamp,
+        slot: 100,
+        signature: id,
+        poolAddress: 'pool1',
+        mintAddress: 'mint1',
+        liquidityAmount: '100',
+        solAmount,
+        tokenAmount: '1000',
+      });
+
+      handlers[0]!(removal('e1', now - 600_000, '5000000000'));
+      handlers[0]!(removal('e2', now - 10_000, '2500000000'));
+
+      expect(engine.getLPRemovedSolInWindow('pool1', 60_000, now)).toBe(2.5);
+      expect(engine.getLPRemovedSolInWindow('pool1', undefined, now)).toBe(7.5);
+      expect(engine.getLPRemovedSolInWindow('unknown')).toBe(0);
+      expect(engine.getLPStatesByMint('mint1').map((s) => s.poolAddress)).toEqual(['pool1']);
+    });
+
+    it('measures a decoded removal against the SOL reserve before it', () => {
+      const handlers = mockEventBus._handlers.get('LP_REMOVE') ?? [];
+
+      handlers[0]!({
+        id: 'e1',
+        type: 'LP_REMOVE',
+        timestamp: Date.now(),
+        slot: 100,
+        signature: 'sig',
+        poolAddress: 'pool1',
+        mintAddress: 'mint1',
+        liquidityAmount: '500000000',
+        solAmount: '20000000000',
+        tokenAmount: '250000',
+        solReserve: '80000000000',
+        tokenReserve: '1000000',
+      } satisfies LPEvent);
+
+      expect(engine.getLPState('pool1')?.totalRemovedPercentage).toBe(25);
+      expect(engine.getLPRemovedPercentageInSlotWindow('pool1', 10, 100)).toBe(25);
+    });
+
+    const lpChange = (
+      id: string,
+      type: LPEvent['type'],
+      timestamp: number,
+      liquidityAmount: string,
+      lpSupply: string,
+    ): LPEvent => ({
+      id,
+      type,
+      timestamp,
+      slot: 100,
+      signature: id,
+      poolAddress: 'pool1',
+      mintAddress: 'mint1',
+      liquidityAmount,
+      solAmount: '1000000000',
+      tokenAmount: '1000',
+      solReserve: '4000000000',
+      tokenReserve: '4000',
+      lpSupply,
+    });
+
+    it('tracks LP supply and reserves through adds and removals', () => {
+      const add = mockEventBus._handlers.get('LP_ADD') ?? [];
+      const remove = mockEventBus._handlers.get('LP_REMOVE') ?? [];
+
+      add[0]!(lpChange('e1', 'LP_ADD', Date.now(), '250', '1000'));
+      expect(engine.getLPState('pool1')).toMatchObject({
+        totalLiquidity: 1250n,
+        solReserve: 5_000_000_000n,
+        tokenReserve: 5000n,
+        totalRemovedPercentage: 0,
+      });
+
+      remove[0]!(lpChange('e2', 'LP_REMOVE', Date.now(), '500', '1250'));
+      expect(engine.getLPState('pool1')).toMatchObject({
+        totalLiquidity: 750n,
+        solReserve: 3_000_000_000n,
+        tokenReserve: 3000n,
+      });
+    });
+
+    it('measures windowed removals against the liquidity at the window start', () => {
+      const add = mockEventBus._handlers.get('LP_ADD') ?? [];
+      const remove = mockEventBus._handlers.get('LP_REMOVE') ?? [];
+      const now = Date.now();
+
+      remove[0]!(lpChange('e1', 'LP_REMOVE', now - 600_000, '500', '1000'));
+      add[0]!(lpChange('e2', 'LP_ADD', now - 300_000, '500', '500'));
+      remove[0]!(lpChange('e3', 'LP_REMOVE', now - 60_000, '250', '1000'));
+
+      expect(engine.getLPRemovedPercentageInWindow('pool1', 120_000, now)).toBe(25);
+      // 250 removed from the 500 there at the start plus 500 added since
+      expect(engine.getLPRemovedPercentageInWindow('pool1', 360_000, now)).toBe(25);
+      // 750 of 1500, where summing per-removal percentages would give 75
+      expect(engine.getLPRemovedPercentageInWindow('pool1', undefined, now)).toBe(50);
+      expect(engine.getLPState('pool1')?.totalRemovedPercentage).toBe(50);
+      expect(engine.getLPRemovedPercentageInWindow('unknown', 60_000)).toBe(0);
+    });
+  });
+
+  describe('supply changes', () => {
+    it('sums supply increases within a window', () => {
+      const handlers = mockEventBus._handlers.get('SUPPLY_CHANGE') ?? [];
+      const now = Date.now();
+
+      const change = (
+        id: string,
+        timestamp: number,
+        changePercentage: number,
+      ): SupplyChangeEvent => ({
+        id,
+        type: 'SUPPLY_CHANGE',
+        timestamp,
+        slot: 100,
+        signature: id,
+        mintAddress: 'mint1',
+        previousSupply: '100',
+        newSupply: '110',
+        changePercentage,
+      });
+
+      handlers[0]!(change('e1', now - 600_000, 10));
+      handlers[0]!(change('e2', now - 10_000, 5));
+      handlers[0]!(change('e3', now - 5_000, -20));
+
+      expect(engine.getSupplyIncreaseInWindow('mint1', 60_000, now)).toBe(5);
+      expect(engine.getSupplyIncreaseInWindow('mint1', undefined, now)).toBe(15);
+      expect(engine.getSupplyIncreaseInWindow('unknown')).toBe(0);
+    });
+
+    it('keeps only the most recent supply changes per mint', () => {
+      const handlers = mockEventBus._handlers.get('SUPPLY_CHANGE') ?? [];
+      const now = Date.now();
+
+      for (let i = 0; i < 600; i++) {
+        handlers[0]!({
+          id: `e${i}`,
+          type: 'SUPPLY_CHANGE',
+          timestamp: now - 1000,
+          slot: 100 + i,
+          signature: `e${i}`,
+          mintAddress: 'mint1',
+          previousSupply: '100',
+          newSupply: '101',
+          changePercentage: 1,
+        } satisfies SupplyChangeEvent);
+      }
+
+      expect(engine.getSupplyIncreaseInWindow('mint1', undefined, now)).toBe(500);
+    });
+  });
+
+  describe('wallet outflows', () => {
+    it('accumulates outbound transfers per asset within a window', () => {
+      const handlers = mockEventBus._handlers.get('WALLET_TRANSACTION') ?? [];
+      const now = Date.now();
+
+      const tx = (
+        id: string,
+        direction: 'IN' | 'OUT',
+        amount: string,
+        timestamp: number,
+        mintAddress?: string,
+      ): WalletTransactionEvent => ({
+        id,
+        type: 'WALLET_TRANSACTION',
+        timestamp,
+        slot: 100,
+        signature: id,
+        walletAddress: 'wallet1',
+        mintAddress,
+        direction,
+        amountLamports: amount,
+      });
+
+      handlers[0]!(tx('e1', 'OUT', '1000', now - 7_200_000));
+      handlers[0]!(tx('e2', 'OUT', '2000', now - 60_000));
+      handlers[0]!(tx('e3', 'IN', '9000', now - 30_000));
+      handlers[0]!(tx('e4', 'OUT', '500', now - 30_000, 'mint1'));
+
+      expect(engine.getWalletOutflowInWindow('wallet1', undefined, 3_600_000, now)).toBe(2000n);
+      expect(engine.getWalletOutflowInWindow('wallet1', 'mint1', 3_600_000, now)).toBe(500n);
+    });
+  });
+
+  describe('restart', () => {
+    const devSell: DevWalletEvent = {
+      id: 'e1',
+      type: 'DEV_WALLET_SELL',
+      timestamp: Date.now() - 60_000,
+      slot: 500,
+      signature: 'sig1',
+      devWallet: 'dev1',
+      mintAddress: 'mint1',
+      amount: '1000',
+      percentageOfHoldings: 30,
+    };
+
+    it('restores windowed state from the snapshot it writes on stop', async () => {
+      mockEventBus._handlers.get('DEV_WALLET_SELL')![0]!(devSell);
+      mockEventBus._handlers.get('LP_REMOVE')![0]!({
+        id: 'e2',
+        type: 'LP_REMOVE',
+        timestamp: Date.now() - 30_000,
+        slot: 510,
+        signature: 'sig2',
+        poolAddress: 'pool1',
+        mintAddress: 'mint1',
+        liquidityAmount: '100',
+        solAmount: '2000000000',
+        tokenAmount: '0',
+        solReserve: '10000000000',
+      } satisfies LPEvent);
+      await engine.stop();
+
+      const [key, snapshot, ...expiry] = vi.mocked(mockContainer.redis.set).mock.calls.at(-1)!;
+      expect(key).toBe('clawops:state:snapshot');
+      expect(expiry).toEqual([]);
+
+      const restarted = createMockContainer();
+      vi.mocked(restarted.redis.get).mockResolvedValue(snapshot as string);
+      const next = new StateEngine(restarted, createMockEventBus());
+      await next.start();
+
+      expect(next.getDevSellPercentageInWindow('mint1', 'dev1', 300_000)).toBe(30);
+      expect(next.getLPRemovedPercentageInSlotWindow('pool1', 100, 510)).toBe(20);
+      expect(next.getLPRemovedSolInWindow('pool1', 300_000)).toBe(2);
+      // Events logged from shortly before the snapshot are replayed on top of it
+      const { where } = vi.mocked(restarted.db.eventLog.findMany).mock.calls[0]![0]!;
+      const snapshotAt = (JSON.parse(snapshot as string) as { timestamp: number }).timestamp;
+      expect(where!.processedAt).toMatchObject({ gt: new Date(snapshotAt - 60_000) });
+      expect(where!.slot).toBeUndefined();
+      await next.stop();
+    });
+
+    it('replays late events of earlier slots without recounting those in the snapshot', async () => {
+      mockEventBus._handlers.get('DEV_WALLET_SELL')![0]!(devSell);
+      await engine.stop();
+      const [, snapshot] = vi.mocked(mockContainer.redis.set).mock.calls.at(-1)!;
+
+      const restarted = createMockContainer();
+      vi.mocked(restarted.redis.get).mockResolvedValue(snapshot as string);
+      vi.mocked(restarted.db.eventLog.findMany).mockResolvedValue([
+        { id: 'row1', payload: devSell },
+        { id: 'row2', payload: { ...devSell, id: 'e9', slot: 400, percentageOfHoldings: 5 } },
+      ] as never);
+      const next = new StateEngine(restarted, createMockEventBus());
+      await next.start();
+
+      expect(next.getDevSellPercentageInWindow('mint1', 'dev1', 300_000)).toBe(35);
+      expect(next.getDevMetrics('mint1', 'dev1')?.totalSellCount).toBe(2);
+      await next.stop();
+    });
+
+    it('rebuilds from the event log over the longest active policy window without a snapshot', async () => {
+      const restarted = createMockContainer();
+      vi.mocked(restarted.db.policy.findMany).mockResolvedValue([
+        { id: 'p1', trigger: 'DEV_SELL_PERCENTAGE', threshold: 30, windowSeconds: 7200 },
+      ] as never);
+      vi.mocked(restarted.db.eventLog.findMany).mockResolvedValue([
+        { id: 'row1', payload: devSell },
+      ] as never);
+
+      const next = new StateEngine(restarted, createMockEventBus());
+      const before = Date.now();
+      await next.start();
+
+      const { where } = vi.mocked(restarted.db.eventLog.findMany).mock.calls[0]![0]!;
+      const since = (where!.processedAt as { gte: Date }).gte.getTime();
+      expect(since).toBeGreaterThanOrEqual(before - 7_200_000);
+      expect(since).toBeLessThanOrEqual(Date.now() - 7_200_000);
+      expect(next.getDevMetrics('mint1', 'dev1')?.totalSellPercentage).toBe(30);
+      await next.stop();
+    });
+  });
 });
@@ -1,7 +1,41 @@
+import type { Position, Prisma } from '@prisma/client';
 import type { Container } from '../../infra/container.js';
 import type { EventBus } from '../../services/event-bus.js';
+import { getEventMint } from '../../services/event-utils.js';
+import { longestWindowMs } from '../policy-engine/policy-conditions.js';
+import { toPolicyDefinition } from '../policy-engine/policy-engine.service.js';
 import type { PositionState } from '../../types/position.js';
-import type { InternalEvent, DevWalletEvent } from '../../types/events.js';
+import type {
+  InternalEvent,
+  DevWalletEvent,
+  LPEvent,
+  PriceUpdateEvent,
+  SupplyChangeEvent,
+  WalletTransactionEvent,
+} from '../../types/events.js';
+
+const MAX_PRICE_SAMPLES = 500;
+const MAX_OUTFLOW_RECORDS = 500;
+const MAX_LP_CHANGES = 500;
+const MAX_SUPPLY_RECORDS = 500;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const SNAPSHOT_KEY = 'clawops:state:snapshot';
+const SNAPSHOT_VERSION = 3;
+const SNAPSHOT_INTERVAL_MS = 30_000;
+// Events are logged and applied independently, so either can lag the other
+const REPLAY_OVERLAP_MS = 60_000;
+const DEFAULT_REBUILD_WINDOW_MS = 3_600_000;
+const REBUILD_PAGE_SIZE = 1000;
+
+/** Events that change windowed state, and so are replayed when rebuilding it. */
+const STATE_EVENT_TYPES: InternalEvent['type'][] = [
+  'DEV_WALLET_SELL',
+  'LP_ADD',
+  'LP_REMOVE',
+  'PRICE_UPDATE',
+  'WALLET_TRANSACTION',
+  'SUPPLY_CHANGE',
+];
 
 interface DevWalletMetrics {
   mintAddress: string;
@@ -12,21 +46,131 @@ interface DevWalletMetrics {
   lastUpdated: number;
 }
 
+interface LPChange {
+  type: 'LP_ADD' | 'LP_REMOVE';
+  timestamp: number;
+  slot: number;
+  amount: string; // raw LP tokens, or a percentage when liquidityBefore is null
+  solAmount: string;
+  tokenAmount: string;
+  liquidityBefore: string | null; // LP supply before the change, null when unknown
+  percentage: number; // of the liquidity before the change
+}
+
 interface LPState {
   poolAddress: string;
   mintAddress: string;
-  totalLiquidity: bigint;
-  removals: Array<{ timestamp: number; amount: string; slot: number }>;
+  // Pool state after the latest change; 0n until an event carries it
+  totalLiquidity: bigint; // LP supply
+  solReserve: bigint;
+  tokenReserve: bigint;
+  changes: LPChange[];
   totalRemovedPercentage: number;
 }
 
+type SerializedLPState = Omit<LPState, 'totalLiquidity' | 'solReserve' | 'tokenReserve'> & {
+  totalLiquidity: string;
+  solReserve: string;
+  tokenReserve: string;
+};
+
+interface OutflowRecord {
+  timestamp: number;
+  amount: bigint;
+  slot: number;
+}
+
+interface SupplyChangeRecord {
+  timestamp: number;
+  changePercentage: number;
+  slot: number;
+}
+
+interface PricePoint {
+  timestamp: number;
+  price: number;
+  slot: number;
+}
+
+/** Redis form of the windowed state; bigints are stored as strings. */
+interface StateSnapshot {
+  version: number;
+  timestamp: number;
+  // Events applied within REPLAY_OVERLAP_MS of the snapshot, skipped when replaying
+  appliedEventIds: string[];
+  positions: Array<Omit<PositionState, 'tokenBalance'> & { tokenBalance: string }>;
+  devMetrics: Array<[string, DevWalletMetrics]>;
+  lpStates: Array<[string, SerializedLPState]>;
+  priceHistory: Array<[string, PricePoint[]]>;
+  walletOutflows: Array<[string, Array<Omit<OutflowRecord, 'amount'> & { amount: string }>]>;
+  supplyChanges: Array<[string, SupplyChangeRecord[]]>;
+  highWaterMarks: Array<[string, number]>;
+}
+
+/**
+ * LP supply before a change: read from the pool account when the event has it,
+ * otherwise worked back from the SOL side, since deposits and withdrawals move
+ * LP supply and reserves in proportion. Null for events without reserves,
+ * which carry a percentage in liquidityAmount instead of LP tokens.
+ */
+function lpSupplyBefore(event: LPEvent): bigint | null {
+  if (event.lpSupply !== undefined) return BigInt(event.lpSupply);
+  if (event.solReserve === undefined) return null;
+
+  const reserve = BigInt(event.solReserve);
+  const sol = BigInt(event.solAmount);
+  if (reserve === 0n) return 0n;
+  if (sol === 0n) return null;
+  return (BigInt(event.liquidityAmount) * reserve) / sol;
+}
+
+function percentageOf(amount: bigint, total: bigint): number {
+  if (total === 0n) return 0;
+  return Number((amount * 1_000_000n) / total) / 10_000;
+}
+
+/**
+ * Share of a pool's liquidity that a run of changes removed: LP tokens burned
+ * against the liquidity before the first change plus any added during the run,
+ * so liquidity added and pulled again is not counted beyond 100%. Runs with a
+ * change of unknown size sum the per-change percentages instead.
+ */
+function removedPercentage(changes: LPChange[]): number {
+  const first = changes[0];
+  if (!first) return 0;
+
+  if (changes.some((c) => c.liquidityBefore === null)) {
+    return changes.filter((c) => c.type === 'LP_REMOVE').reduce((sum, c) => sum + c.percentage, 0);
+  }
+
+  let liquidity = BigInt(first.liquidityBefore!);
+  let removed = 0n;
+  for (const change of changes) {
+    if (change.type === 'LP_ADD') liquidity += BigInt(change.amount);
+    else removed += BigInt(change.amount);
+  }
+  return percentageOf(removed, liquidity);
+}
+
+/** Slot-based windows cover the `windowSlots` slots ending at (and including) `referenceSlot`. */
+function inSlotWindow(slot: number, windowSlots: number, referenceSlot: number): boolean {
+  return slot > referenceSlot - windowSlots && slot <= referenceSlot;
+}
+
 export class StateEngine {
   private readonly container: Container;
   private readonly eventBus: EventBus;
   private readonly positions: Map<string, PositionState> = new Map();
   private readonly devMetrics: Map<string, DevWalletMetrics> = new Map();
   private readonly lpStates: Map<string, LPState> = new Map();
+  private readonly priceHistory: Map<string, PricePoint[]> = new Map();
+  private readonly walletOutflows: Map<string, OutflowRecord[]> = new Map();
+  private readonly supplyChanges: Map<string, SupplyChangeRecord[]> = new Map();
+  // Highest price seen per open position since entry, for trailing stops
+  private readonly highWaterMarks: Map<string, number> = new Map();
   private snapshotInterval: ReturnType<typeof setInterval> | null = null;
+  // Recently applied event ids in application order, so a restore counts nothing twice
+  private readonly appliedEvents: Map<string, number> = new Map();
 
   constructor(container: Container, eventBus: EventBus) {
     this.container = container;
@@ -42,37 +186,188 @@ export class StateEngine {
     });
 
     for (const pos of openPositions) {
-      this.positions.set(pos.id, {
-        id: pos.id,
-        walletId: pos.walletId,
-        trackedTokenId: pos.trackedTokenId,
-        mintAddress: pos.mintAddress,
-        entryAmountSol: pos.entryAmountSol,
-        tokenBalance: BigInt(pos.tokenBalance),
-        entryPrice: pos.entryPrice,
-        status: pos.status as PositionState['status'],
-        openedAt: pos.openedAt,
-        closedAt: pos.closedAt,
-      });
+      this.positions.set(pos.id, toPositionState(pos));
     }
 
-    this.eventBus.onType('DEV_WALLET_SELL', (event) => {
-      this.handleDevSell(event as DevWalletEvent);
-    });
-
-    this.eventBus.onType('LP_REMOVE', (event) => {
-      this.handleLPRemoval(event);
-    });
+    await this.restore();
+    this.listen();
 
     this.snapshotInterval = setInterval(() => {
       this.persistSnapshot().catch((err) => {
         logger.error({ err }, 'Failed to persist state snapshot');
       });
-    }, 30_000);
+    }, SNAPSHOT_INTERVAL_MS);
 
     logger.info({ positionCount: this.positions.size }, 'State engine started');
   }
 
+  /**
+   * Apply bus events to state. Dry runs call this on their own bus instead of
+   * start(), so no positions are loaded and nothing is snapshotted.
+   */
+  listen(): void {
+    for (const type of STATE_EVENT_TYPES) {
+      this.eventBus.onType(type, (event) => this.applyEvent(event), 'state-engine');
+    }
+  }
+
+  private applyEvent(event: InternalEvent): void {
+    switch (event.type) {
+      case 'DEV_WALLET_SELL':
+        this.handleDevSell(event);
+        break;
+      case 'LP_ADD':
+      case 'LP_REMOVE':
+        this.handleLPChange(event);
+        break;
+      case 'PRICE_UPDATE':
+        this.handlePriceUpdate(event);
+        break;
+      case 'WALLET_TRANSACTION':
+        this.handleWalletTransaction(event);
+        break;
+      case 'SUPPLY_CHANGE':
+        this.handleSupplyChange(event);
+        break;
+      default:
+        return;
+    }
+    this.rememberApplied(event.id);
+  }
+
+  private rememberApplied(eventId: string): void {
+    const now = Date.now();
+    this.appliedEvents.delete(eventId);
+    this.appliedEvents.set(eventId, now);
+
+    for (const [id, appliedAt] of this.appliedEvents) {
+      if (appliedAt > now - REPLAY_OVERLAP_MS) break;
+      this.appliedEvents.delete(id);
+    }
+  }
+
+  /**
+   * Windowed state from before the restart: the Redis snapshot plus events
+   * logged after it, or, without a usable snapshot, every logged event within
+   * the longest active policy window. Replay goes by when an event was logged
+   * rather than its slot, so late and backfilled events are not lost; it starts
+   * REPLAY_OVERLAP_MS before the snapshot and skips the events it already holds.
+   */
+  private async restore(): Promise<void> {
+    const { logger } = this.container;
+    const since = new Date(Date.now() - (await this.rebuildWindowMs()));
+    const snapshot = await this.loadSnapshot();
+
+    if (snapshot) {
+      this.applySnapshot(snapshot);
+      const replayed = await this.replayEventLog(
+        { processedAt: { gte: since, gt: new Date(snapshot.timestamp - REPLAY_OVERLAP_MS) } },
+        new Set(snapshot.appliedEventIds),
+      );
+      logger.info(
+        { snapshotAt: new Date(snapshot.timestamp).toISOString(), eventsReplayed: replayed },
+        'State restored from snapshot',
+      );
+      return;
+    }
+
+    const replayed = await this.replayEventLog({ processedAt: { gte: since } });
+    logger.info(
+      { since: since.toISOString(), eventsReplayed: replayed },
+      'State rebuilt from event log',
+    );
+  }
+
+  private async rebuildWindowMs(): Promise<number> {
+    const policies = await this.container.db.policy.findMany({ where: { isActive: true } });
+    return Math.max(
+      DEFAULT_REBUILD_WINDOW_MS,
+      ...policies.map((p) => longestWindowMs(toPolicyDefinition(p), DEFAULT_REBUILD_WINDOW_MS)),
+    );
+  }
+
+  private async loadSnapshot(): Promise<StateSnapshot | null> {
+    const { redis, logger } = this.container;
+
+    try {
+      const raw = await redis.get(SNAPSHOT_KEY);
+      if (!raw) return null;
+
+      const snapshot = JSON.parse(raw) as StateSnapshot;
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        logger.warn({ version: snapshot.version }, 'Ignoring state snapshot of another version');
+        return null;
+      }
+      return snapshot;
+    } catch (err) {
+      logger.warn({ err }, 'Unreadable state snapshot, rebuilding from event log');
+      return null;
+    }
+  }
+
+  /** Positions come from the database; the snapshot only restores windowed state. */
+  private applySnapshot(snapshot: StateSnapshot): void {
+    for (const [key, metrics] of snapshot.devMetrics) {
+      this.devMetrics.set(key, metrics);
+    }
+    for (const [key, state] of snapshot.lpStates) {
+      this.lpStates.set(key, {
+        ...state,
+        totalLiquidity: BigInt(state.totalLiquidity),
+        solReserve: BigInt(state.solReserve),
+        tokenReserve: BigInt(state.tokenReserve),
+      });
+    }
+    for (const [key, samples] of snapshot.priceHistory) {
+      this.priceHistory.set(key, samples);
+    }
+    for (const [key, records] of snapshot.walletOutflows) {
+      this.walletOutflows.set(
+        key,
+        records.map((r) => ({ ...r, amount: BigInt(r.amount) })),
+      );
+    }
+    for (const [key, records] of snapshot.supplyChanges) {
+      this.supplyChanges.set(key, records);
+    }
+    for (const [positionId, price] of snapshot.highWaterMarks) {
+      if (this.positions.get(positionId)?.status === 'OPEN') {
+        this.highWaterMarks.set(positionId, price);
+      }
+    }
+    for (const id of snapshot.appliedEventIds) {
+      this.appliedEvents.set(id, snapshot.timestamp);
+    }
+  }
+
+  private async replayEventLog(
+    where: Prisma.EventLogWhereInput,
+    skip: ReadonlySet<string> = new Set(),
+  ): Promise<number> {
+    const { db } = this.container;
+    let cursor: string | undefined;
+    let replayed = 0;
+
+    for (;;) {
+      const rows = await db.eventLog.findMany({
+        where: { ...where, eventType: { in: STATE_EVENT_TYPES } },
+        orderBy: [{ processedAt: 'asc' }, { id: 'asc' }],
+        take: REBUILD_PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      for (const row of rows) {
+        const event = row.payload as unknown as InternalEvent;
+        if (skip.has(event.id)) continue;
+        this.applyEvent(event);
+        replayed++;
+      }
+
+      if (rows.length < REBUILD_PAGE_SIZE) return replayed;
+      cursor = rows[rows.length - 1]!.id;
+    }
+  }
+
   private handleDevSell(event: DevWalletEvent): void {
     const key = `${event.mintAddress}:${event.devWallet}`;
     const existing = this.devMetrics.get(key);
@@ -114,30 +409,93 @@ export class StateEngine {
     );
   }
 
-  private handleLPRemoval(event: InternalEvent): void {
-    if (event.type !== 'LP_REMOVE') return;
-
-    const key = event.poolAddress;
-    const existing = this.lpStates.get(key);
+  private handleLPChange(event: LPEvent): void {
+    const state: LPState = this.lpStates.get(event.poolAddress) ?? {
+      poolAddress: event.poolAddress,
+      mintAddress: event.mintAddress,
+      totalLiquidity: 0n,
+      solReserve: 0n,
+      tokenReserve: 0n,
+      changes: [],
+      totalRemovedPercentage: 0,
+    };
+    const adding = event.type === 'LP_ADD';
+    const liquidityBefore = lpSupplyBefore(event);
 
-    if (existing) {
-      existing.removals.push({
-        timestamp: event.timestamp,
-        amount: event.liquidityAmount,
-        slot: event.slot,
-      });
-      existing.totalRemovedPercentage += parseFloat(event.liquidityAmount);
+    let percentage: number;
+    if (liquidityBefore === null) {
+      percentage = adding ? 0 : parseFloat(event.liquidityAmount);
     } else {
-      this.lpStates.set(key, {
-        poolAddress: event.poolAddress,
-        mintAddress: event.mintAddress,
-        totalLiquidity: BigInt(0),
-        removals: [
-          { timestamp: event.timestamp, amount: event.liquidityAmount, slot: event.slot },
-        ],
-        totalRemovedPercentage: parseFloat(event.liquidityAmount),
-      });
+      const amount = BigInt(event.liquidityAmount);
+      percentage = percentageOf(amount, liquidityBefore);
+      state.totalLiquidity = adding ? liquidityBefore + amount : liquidityBefore - amount;
     }
+
+    if (event.solReserve !== undefined && event.tokenReserve !== undefined) {
+      const sign = adding ? 1n : -1n;
+      state.solReserve = BigInt(event.solReserve) + sign * BigInt(event.solAmount);
+      state.tokenReserve = BigInt(event.tokenReserve) + sign * BigInt(event.tokenAmount);
+    }
+
+    state.changes.push({
+      type: event.type,
+      timestamp: event.timestamp,
+      slot: event.slot,
+      amount: event.liquidityAmount,
+      solAmount: event.solAmount,
+      tokenAmount: event.tokenAmount,
+      liquidityBefore: liquidityBefore?.toString() ?? null,
+      percentage,
+    });
+    if (state.changes.length > MAX_LP_CHANGES) {
+      state.changes.splice(0, state.changes.length - MAX_LP_CHANGES);
+    }
+    state.totalRemovedPercentage = removedPercentage(state.changes);
+    this.lpStates.set(event.poolAddress, state);
+  }
+
+  private handlePriceUpdate(event: PriceUpdateEvent): void {
+    const samples = this.priceHistory.get(event.mintAddress) ?? [];
+    samples.push({ timestamp: event.timestamp, price: event.price, slot: event.slot });
+    // Keep only the most recent samples
+    if (samples.length > MAX_PRICE_SAMPLES) {
+      samples.splice(0, samples.length - MAX_PRICE_SAMPLES);
+    }
+    this.priceHistory.set(event.mintAddress, samples);
+
+    for (const position of this.getPositionsByMint(event.mintAddress)) {
+      const current = this.highWaterMarks.get(position.id) ?? position.entryPrice ?? 0;
+      this.highWaterMarks.set(position.id, Math.max(current, event.price));
+    }
+  }
+
+  private handleWalletTransaction(event: WalletTransactionEvent): void {
+    if (event.direction !== 'OUT') return;
+
+    const key = `${event.walletAddress}:${event.mintAddress ?? 'SOL'}`;
+    const records = this.walletOutflows.get(key) ?? [];
+    records.push({
+      timestamp: event.timestamp,
+      amount: BigInt(event.amountLamports),
+      slot: event.slot,
+    });
+    if (records.length > MAX_OUTFLOW_RECORDS) {
+      records.splice(0, records.length - MAX_OUTFLOW_RECORDS);
+    }
+    this.walletOutflows.set(key, records);
+  }
+
+  private handleSupplyChange(event: SupplyChangeEvent): void {
+    const records = this.supplyChanges.get(event.mintAddress) ?? [];
+    records.push({
+      timestamp: event.timestamp,
+      changePercentage: event.changePercentage,
+      slot: event.slot,
+    });
+    if (records.length > MAX_SUPPLY_RECORDS) {
+      records.splice(0, records.length - MAX_SUPPLY_RECORDS);
+    }
+    this.supplyChanges.set(event.mintAddress, records);
   }
 
   getPosition(positionId: string): PositionState | undefined {
@@ -154,33 +512,210 @@ export class StateEngine {
     );
   }
 
+  getPositionsByWallet(walletId: string): PositionState[] {
+    return Array.from(this.positions.values()).filter(
+      (p) => p.walletId === walletId && p.status === 'OPEN',
+    );
+  }
+
+  /**
+   * Open positions an event concerns, or null when it names neither a mint nor
+   * a wallet. Movements on a tracked wallet affect only that wallet's positions
+   * (of the moved token, for token transfers), never other wallets' holdings.
+   */
+  async getPositionsAffectedBy(event: InternalEvent): Promise<PositionState[] | null> {
+    if (event.type === 'WALLET_TRANSACTION') {
+      const wallet = await this.container.db.wallet.findUnique({
+        where: { address: event.walletAddress },
+      });
+      if (!wallet) return [];
+      const positions = this.getPositionsByWallet(wallet.id);
+      return event.mintAddress
+        ? positions.filter((p) => p.mintAddress === event.mintAddress)
+        : positions;
+    }
+
+    const mintAddress = getEventMint(event);
+    return mintAddress ? this.getPositionsByMint(mintAddress) : null;
+  }
+
   getDevMetrics(mintAddress: string, devWallet: string): DevWalletMetrics | undefined {
     return this.devMetrics.get(`${mintAddress}:${devWallet}`);
   }
 
+  getDevWalletsForMint(mintAddress: string): string[] {
+    return Array.from(this.devMetrics.values())
+      .filter((m) => m.mintAddress === mintAddress)
+      .map((m) => m.devWallet);
+  }
+
   getDevSellPercentageInWindow(
     mintAddress: string,
     devWallet: string,
     windowMs: number,
+    now = Date.now(),
+  ): number {
+    const metrics = this.devMetrics.get(`${mintAddress}:${devWallet}`);
+    if (!metrics) return 0;
+
+    const cutoff = now - windowMs;
+    return metrics.recentSells
+      .filter((s) => s.timestamp >= cutoff && s.timestamp <= now)
+      .reduce((sum, s) => sum + s.percentage, 0);
+  }
+
+  /** Cumulative supply increase for a mint, optionally limited to a trailing window. */
+  getSupplyIncreaseInWindow(mintAddress: string, windowMs?: number, now = Date.now()): number {
+    const records = this.supplyChanges.get(mintAddress);
+    if (!records) return 0;
+
+    const cutoff = windowMs !== undefined ? now - windowMs : -Infinity;
+    return records
+      .filter((r) => r.timestamp >= cutoff && r.timestamp <= now && r.changePercentage > 0)
+      .reduce((sum, r) => sum + r.changePercentage, 0);
+  }
+
+  getLatestPrice(mintAddress: string): PricePoint | undefined {
+    const samples = this.priceHistory.get(mintAddress);
+    return samples?.[samples.length - 1];
+  }
+
+  getPeakPriceInWindow(mintAddress: string, windowMs: number, now = Date.now()): number | null {
+    const samples = this.priceHistory.get(mintAddress);
+    if (!samples) return null;
+
+    const cutoff = now - windowMs;
+    let peak: number | null = null;
+    for (const s of samples) {
+      if (s.timestamp >= cutoff && s.timestamp <= now && (peak === null || s.price > peak)) {
+        peak = s.price;
+      }
+    }
+    return peak;
+  }
+
+  /** Like getDevSellPercentageInWindow, but judged by event slot rather than wall-clock time. */
+  getDevSellPercentageInSlotWindow(
+    mintAddress: string,
+    devWallet: string,
+    windowSlots: number,
+    referenceSlot: number,
   ): number {
     const metrics = this.devMetrics.get(`${mintAddress}:${devWallet}`);
     if (!metrics) return 0;
 
-    const cutoff = Date.now() - windowMs;
     return metrics.recentSells
-      .filter((s) => s.timestamp >= cutoff)
+      .filter((s) => inSlotWindow(s.slot, windowSlots, referenceSlot))
       .reduce((sum, s) => sum + s.percentage, 0);
   }
 
+  getDevSellCountInSlotWindow(
+    mintAddress: string,
+    devWallet: string,
+    windowSlots: number,
+    referenceSlot: number,
+  ): number {
+    const metrics = this.devMetrics.get(`${mintAddress}:${devWallet}`);
+    if (!metrics) return 0;
+
+    return metrics.recentSells.filter((s) => inSlotWindow(s.slot, windowSlots, referenceSlot))
+      .length;
+  }
+
   getLPState(poolAddress: string): LPState | undefined {
     return this.lpStates.get(poolAddress);
   }
 
+  getLPStatesByMint(mintAddress: string): LPState[] {
+    return Array.from(this.lpStates.values()).filter((s) => s.mintAddress === mintAddress);
+  }
+
+  /**
+   * Share of a pool's liquidity removed within a trailing window (or ever),
+   * relative to the liquidity at the start of the window plus any added during it.
+   */
+  getLPRemovedPercentageInWindow(poolAddress: string, windowMs?: number, now = Date.now()): number {
+    const state = this.lpStates.get(poolAddress);
+    if (!state) return 0;
+
+    const cutoff = windowMs !== undefined ? now - windowMs : -Infinity;
+    return removedPercentage(
+      state.changes.filter((c) => c.timestamp >= cutoff && c.timestamp <= now),
+    );
+  }
+
+  /** SOL removed from a pool, optionally limited to a trailing window. */
+  getLPRemovedSolInWindow(poolAddress: string, windowMs?: number, now = Date.now()): number {
+    const state = this.lpStates.get(poolAddress);
+    if (!state) return 0;
+
+    const cutoff = windowMs !== undefined ? now - windowMs : -Infinity;
+    const lamports = state.changes
+      .filter((c) => c.type === 'LP_REMOVE' && c.timestamp >= cutoff && c.timestamp <= now)
+      .reduce((sum, c) => sum + BigInt(c.solAmount || '0'), 0n);
+    return Number(lamports) / LAMPORTS_PER_SOL;
+  }
+
+  /** Like getLPRemovedPercentageInWindow, but judged by event slot rather than wall-clock time. */
+  getLPRemovedPercentageInSlotWindow(
+    poolAddress: string,
+    windowSlots: number,
+    referenceSlot: number,
+  ): number {
+    const state = this.lpStates.get(poolAddress);
+    if (!state) return 0;
+
+    return removedPercentage(
+      state.changes.filter((c) => inSlotWindow(c.slot, windowSlots, referenceSlot)),
+    );
+  }
+
+  getLPRemovedSolInSlotWindow(
+    poolAddress: string,
+    windowSlots: number,
+    referenceSlot: number,
+  ): number {
+    const state = this.lpStates.get(poolAddress);
+    if (!state) return 0;
+
+    const lamports = state.changes
+      .filter((c) => c.type === 'LP_REMOVE' && inSlotWindow(c.slot, windowSlots, referenceSlot))
+      .reduce((sum, c) => sum + BigInt(c.solAmount || '0'), 0n);
+    return Number(lamports) / LAMPORTS_PER_SOL;
+  }
+
+  /**
+   * Outflow from a wallet within a trailing window. Returns lamports for SOL
+   * (mintAddress undefined) or raw token units for a mint.
+   */
+  getWalletOutflowInWindow(
+    walletAddress: string,
+    mintAddress: string | undefined,
+    windowMs: number,
+    now = Date.now(),
+  ): bigint {
+    const records = this.walletOutflows.get(`${walletAddress}:${mintAddress ?? 'SOL'}`);
+    if (!records) return 0n;
+
+    const cutoff = now - windowMs;
+    return records
+      .filter((r) => r.timestamp >= cutoff && r.timestamp <= now)
+      .reduce((sum, r) => sum + r.amount, 0n);
+  }
+
+  /** Highest price since entry (never below entry price), or undefined before any price is seen. */
+  getHighWaterPrice(positionId: string): number | undefined {
+    return this.highWaterMarks.get(positionId);
+  }
+
   updatePosition(positionId: string, update: Partial<PositionState>): void {
     const existing = this.positions.get(positionId);
     if (existing) {
       Object.assign(existing, update);
     }
+    if (update.status === 'CLOSED') {
+      this.highWaterMarks.delete(positionId);
+    }
   }
 
   addPosition(position: PositionState): void {
@@ -190,16 +725,35 @@ export class StateEngine {
   private async persistSnapshot(): Promise<void> {
     const { redis, logger } = this.container;
 
-    const snapshot = {
-      positions: Array.from(this.positions.entries()).map(([_key, pos]) => ({
+    const snapshot: StateSnapshot = {
+      version: SNAPSHOT_VERSION,
+      timestamp: Date.now(),
+      appliedEventIds: Array.from(this.appliedEvents.keys()),
+      positions: Array.from(this.positions.values()).map((pos) => ({
         ...pos,
         tokenBalance: pos.tokenBalance.toString(),
       })),
       devMetrics: Array.from(this.devMetrics.entries()),
-      timestamp: Date.now(),
+      lpStates: Array.from(this.lpStates.entries()).map(([key, state]) => [
+        key,
+        {
+          ...state,
+          totalLiquidity: state.totalLiquidity.toString(),
+          solReserve: state.solReserve.toString(),
+          tokenReserve: state.tokenReserve.toString(),
+        },
+      ]),
+      priceHistory: Array.from(this.priceHistory.entries()),
+      walletOutflows: Array.from(this.walletOutflows.entries()).map(([key, records]) => [
+        key,
+        records.map((r) => ({ ...r, amount: r.amount.toString() })),
+      ]),
+      supplyChanges: Array.from(this.supplyChanges.entries()),
+      highWaterMarks: Array.from(this.highWaterMarks.entries()),
     };
 
-    await redis.set('clawops:state:snapshot', JSON.stringify(snapshot), 'EX', 300);
+    // No expiry: the snapshot is what a restart restores windowed state from
+    await redis.set(SNAPSHOT_KEY, JSON.stringify(snapshot));
     logger.debug({ positionCount: this.positions.size }, 'State snapshot persisted');
   }
 
@@ -212,3 +766,18 @@ export class StateEngine {
     this.container.logger.info('State engine stopped');
   }
 }
+
+export function toPositionState(record: Position): PositionState {
+  return {
+    id: record.id,
+    walletId: record.walletId,
+    trackedTokenId: record.trackedTokenId,
+    mintAddress: record.mintAddress,
+    entryAmountSol: record.entryAmountSol,
+    tokenBalance: BigInt(record.tokenBalance),
+    entryPrice: record.entryPrice,
+    status: record.status as PositionState['status'],
+    openedAt: record.openedAt,
+    closedAt: record.closedAt,
+  };
+}
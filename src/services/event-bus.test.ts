@@ -112,3 +112,94 @@ describe('EventBus', () => {
     expect(h2).not.toHaveBeenCalled();
   });
 });
+
+describe('EventBus delivery', () => {
+  const event: DevWalletEvent = {
+    id: 'e1',
+    type: 'DEV_WALLET_SELL',
+    timestamp: Date.now(),
+    slot: 100,
+    signature: 'sig1',
+    devWallet: 'dev',
+    mintAddress: 'mint',
+    amount: '1000',
+    percentageOfHoldings: 10,
+  };
+
+  it('keeps delivering to other handlers when one throws', () => {
+    const bus = new EventBus(createMockLogger(), { maxAttempts: 1, retryDelayMs: 10 });
+    const after = vi.fn();
+
+    bus.onType(
+      'DEV_WALLET_SELL',
+      () => {
+        throw new Error('boom');
+      },
+      'broken',
+    );
+    bus.on(after, 'after');
+    bus.emit(event);
+
+    expect(after).toHaveBeenCalledWith(event);
+    expect(bus.handlerMetrics()).toEqual([
+      expect.objectContaining({
+        name: 'broken',
+        eventType: 'DEV_WALLET_SELL',
+        failures: 1,
+        dropped: 1,
+        lastError: 'boom',
+      }),
+      expect.objectContaining({ name: 'after', eventType: '*', delivered: 1, failures: 0 }),
+    ]);
+  });
+
+  it('retries a rejecting handler with backoff until it succeeds', async () => {
+    vi.useFakeTimers();
+    try {
+      const bus = new EventBus(createMockLogger(), { maxAttempts: 3, retryDelayMs: 100 });
+      const handler = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('db down'))
+        .mockRejectedValueOnce(new Error('db down'))
+        .mockResolvedValue(undefined);
+
+      bus.on(handler, 'flaky');
+      bus.emit(event);
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(handler).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(handler).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(200);
+      expect(handler).toHaveBeenCalledTimes(3);
+
+      expect(bus.handlerMetrics()[0]).toMatchObject({
+        delivered: 1,
+        failures: 2,
+        retries: 2,
+        dropped: 0,
+        inFlight: 0,
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('drops pending retries when listeners are removed', async () => {
+    vi.useFakeTimers();
+    try {
+      const bus = new EventBus(createMockLogger(), { maxAttempts: 3, retryDelayMs: 100 });
+      const handler = vi.fn().mockRejectedValue(new Error('boom'));
+
+      bus.on(handler);
+      bus.emit(event);
+      await vi.advanceTimersByTimeAsync(0);
+      bus.removeAllListeners();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -1,39 +1,151 @@
 import { EventEmitter } from 'node:events';
-import type { InternalEvent } from '../types/events.js';
+import type { EventHandlerMetrics, EventType, InternalEvent } from '../types/events.js';
 import type { Logger } from '../infra/logger.js';
 import type { AgentMessage, AgentRole } from '../agents/types.js';
 
 type EventHandler = (event: InternalEvent) => void | Promise<void>;
 type AgentMessageHandler = (msg: AgentMessage) => void | Promise<void>;
 
+export interface EventBusConfig {
+  maxAttempts: number;
+  retryDelayMs: number; // doubled on every further attempt
+}
+
+interface Subscription {
+  handler: EventHandler;
+  active: boolean;
+  metrics: EventHandlerMetrics;
+  totalLatencyMs: number;
+}
+
+const DEFAULT_CONFIG: EventBusConfig = { maxAttempts: 3, retryDelayMs: 250 };
+
+/**
+ * In-process fan-out of on-chain events and agent messages. Every event
+ * handler runs in isolation: a throw or rejection is caught, counted against
+ * that handler and retried with backoff, so delivery is at-least-once and
+ * handlers should tolerate seeing an event twice.
+ */
 export class EventBus {
   private readonly emitter: EventEmitter;
   private readonly logger: Logger;
+  private readonly config: EventBusConfig;
+  private readonly typeHandlers: Map<EventType, Subscription[]> = new Map();
+  private readonly handlers: Subscription[] = [];
+  private readonly retryTimers: Set<NodeJS.Timeout> = new Set();
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, config: EventBusConfig = DEFAULT_CONFIG) {
     this.emitter = new EventEmitter();
     this.emitter.setMaxListeners(100);
     this.logger = logger;
+    this.config = config;
   }
 
   // --- On-chain events ---
 
   emit(event: InternalEvent): void {
     this.logger.debug({ eventType: event.type, eventId: event.id }, 'Event emitted');
-    this.emitter.emit('event', event);
-    this.emitter.emit(event.type, event);
+    // Type handlers (state updates) run before global handlers (policy evaluation)
+    // so policies always see state that already includes this event
+    for (const subscription of [...(this.typeHandlers.get(event.type) ?? [])]) {
+      this.deliver(subscription, event, 1);
+    }
+    for (const subscription of [...this.handlers]) {
+      this.deliver(subscription, event, 1);
+    }
   }
 
-  on(handler: EventHandler): void {
-    this.emitter.on('event', handler);
+  on(handler: EventHandler, name = handler.name || 'anonymous'): void {
+    this.handlers.push(createSubscription(handler, name, '*'));
   }
 
-  onType(type: InternalEvent['type'], handler: EventHandler): void {
-    this.emitter.on(type, handler);
+  onType(
+    type: InternalEvent['type'],
+    handler: EventHandler,
+    name = handler.name || 'anonymous',
+  ): void {
+    const subscriptions = this.typeHandlers.get(type) ?? [];
+    subscriptions.push(createSubscription(handler, name, type));
+    this.typeHandlers.set(type, subscriptions);
   }
 
   off(handler: EventHandler): void {
-    this.emitter.off('event', handler);
+    const index = this.handlers.findIndex((s) => s.handler === handler);
+    if (index === -1) return;
+    this.handlers[index]!.active = false;
+    this.handlers.splice(index, 1);
+  }
+
+  /** Delivery counters per subscriber, type handlers first. */
+  handlerMetrics(): EventHandlerMetrics[] {
+    const subscriptions = [...[...this.typeHandlers.values()].flat(), ...this.handlers];
+    return subscriptions.map((s) => ({ ...s.metrics }));
+  }
+
+  private deliver(subscription: Subscription, event: InternalEvent, attempt: number): void {
+    if (!subscription.active) return;
+    const startedAt = Date.now();
+
+    let result: void | Promise<void>;
+    try {
+      result = subscription.handler(event);
+    } catch (err) {
+      this.handleFailure(subscription, event, attempt, err);
+      return;
+    }
+
+    if (!(result instanceof Promise)) {
+      recordDelivery(subscription, startedAt);
+      return;
+    }
+
+    subscription.metrics.inFlight++;
+    result.then(
+      () => {
+        subscription.metrics.inFlight--;
+        recordDelivery(subscription, startedAt);
+      },
+      (err: unknown) => {
+        subscription.metrics.inFlight--;
+        this.handleFailure(subscription, event, attempt, err);
+      },
+    );
+  }
+
+  private handleFailure(
+    subscription: Subscription,
+    event: InternalEvent,
+    attempt: number,
+    err: unknown,
+  ): void {
+    const { metrics } = subscription;
+    metrics.failures++;
+    metrics.lastError = err instanceof Error ? err.message : String(err);
+    metrics.lastErrorAt = new Date().toISOString();
+
+    const context = {
+      err,
+      handler: metrics.name,
+      eventId: event.id,
+      eventType: event.type,
+      attempt,
+    };
+    if (attempt >= this.config.maxAttempts) {
+      metrics.dropped++;
+      this.logger.error(context, 'Event handler failed, giving up');
+      return;
+    }
+
+    metrics.retries++;
+    this.logger.warn(context, 'Event handler failed, retrying');
+    const timer = setTimeout(
+      () => {
+        this.retryTimers.delete(timer);
+        this.deliver(subscription, event, attempt + 1);
+      },
+      this.config.retryDelayMs * 2 ** (attempt - 1),
+    );
+    this.retryTimers.add(timer);
   }
 
   // --- Agent messaging ---
@@ -60,5 +172,43 @@ export class EventBus {
 
   removeAllListeners(): void {
     this.emitter.removeAllListeners();
+    for (const subscription of [...[...this.typeHandlers.values()].flat(), ...this.handlers]) {
+      subscription.active = false;
+    }
+    this.typeHandlers.clear();
+    this.handlers.length = 0;
+    for (const timer of this.retryTimers) clearTimeout(timer);
+    this.retryTimers.clear();
   }
 }
+
+function createSubscription(
+  handler: EventHandler,
+  name: string,
+  eventType: EventHandlerMetrics['eventType'],
+): Subscription {
+  return {
+    handler,
+    active: true,
+    totalLatencyMs: 0,
+    metrics: {
+      name,
+      eventType,
+      delivered: 0,
+      failures: 0,
+      retries: 0,
+      dropped: 0,
+      inFlight: 0,
+      avgLatencyMs: 0,
+      lastError: null,
+      lastErrorAt: null,
+    },
+  };
+}
+
+function recordDelivery(subscription: Subscription, startedAt: number): void {
+  const { metrics } = subscription;
+  metrics.delivered++;
+  subscription.totalLatencyMs += Date.now() - startedAt;
+  metrics.avgLatencyMs = subscription.totalLatencyMs / metrics.delivered;
+}
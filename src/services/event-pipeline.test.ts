@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventPipeline } from './event-pipeline.js';
+import type { EventBus } from './event-bus.js';
+import type { Logger } from '../infra/logger.js';
+import type { TokenBalanceChangeEvent, TokenTransferEvent } from '../types/events.js';
+
+function createMockLogger(): Logger {
+  return {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  } as unknown as Logger;
+}
+
+function transfer(id: string, slot: number, signature = `sig-${id}`): TokenTransferEvent {
+  return {
+    id,
+    type: 'TOKEN_TRANSFER',
+    timestamp: Date.now(),
+    slot,
+    signature,
+    mintAddress: 'mint1',
+    from: 'a',
+    to: 'b',
+    amount: '100',
+  };
+}
+
+describe('EventPipeline', () => {
+  let emit: ReturnType<typeof vi.fn>;
+  let pipeline: EventPipeline;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    emit = vi.fn();
+    pipeline = new EventPipeline(createMockLogger(), { emit } as unknown as EventBus, {
+      dedupWindowMs: 60_000,
+      reorderWindowMs: 500,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const emittedIds = (): string[] => emit.mock.calls.map(([event]) => event.id);
+
+  it('drops an event with the same signature, type and mint', () => {
+    expect(pipeline.push(transfer('e1', 10, 'sig1'))).toBe(true);
+    expect(pipeline.push(transfer('e2', 10, 'sig1'))).toBe(false);
+    vi.advanceTimersByTime(500);
+
+    expect(emittedIds()).toEqual(['e1']);
+    expect(pipeline.metrics()).toMatchObject({ received: 2, duplicates: 1, released: 1 });
+  });
+
+  it('keeps per-wallet events of one transaction apart', () => {
+    const change = (id: string, walletAddress: string): TokenBalanceChangeEvent => ({
+      id,
+      type: 'TOKEN_BALANCE_CHANGE',
+      timestamp: Date.now(),
+      slot: 10,
+      signature: 'sig1',
+      walletAddress,
+      mintAddress: 'mint1',
+      previousBalance: '100',
+      newBalance: '0',
+    });
+
+    pipeline.push(change('e1', 'w1'));
+    pipeline.push(change('e2', 'w2'));
+    vi.advanceTimersByTime(500);
+
+    expect(emittedIds()).toEqual(['e1', 'e2']);
+  });
+
+  it('accepts a duplicate again once the dedup window has passed', () => {
+    pipeline.push(transfer('e1', 10, 'sig1'));
+    vi.advanceTimersByTime(60_001);
+
+    expect(pipeline.push(transfer('e2', 10, 'sig1'))).toBe(true);
+  });
+
+  it('publishes events buffered within the reorder window in slot order', () => {
+    pipeline.push(transfer('e3', 30));
+    pipeline.push(transfer('e1', 10));
+    vi.advanceTimersByTime(200);
+    pipeline.push(transfer('e2', 20));
+
+    vi.advanceTimersByTime(299);
+    expect(emit).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(emittedIds()).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('holds back younger events above the released slots until their own window ends', () => {
+    pipeline.push(transfer('e1', 10));
+    vi.advanceTimersByTime(300);
+    pipeline.push(transfer('e2', 40));
+
+    vi.advanceTimersByTime(200);
+    expect(emittedIds()).toEqual(['e1']);
+
+    vi.advanceTimersByTime(300);
+    expect(emittedIds()).toEqual(['e1', 'e2']);
+  });
+
+  it('still publishes an event that arrives after a higher slot, counted as late', () => {
+    pipeline.push(transfer('e2', 20));
+    vi.advanceTimersByTime(500);
+    pipeline.push(transfer('e1', 10));
+    vi.advanceTimersByTime(500);
+
+    expect(emittedIds()).toEqual(['e2', 'e1']);
+    expect(pipeline.metrics().late).toBe(1);
+  });
+
+  it('publishes whatever is buffered on stop', async () => {
+    pipeline.push(transfer('e2', 20));
+    pipeline.push(transfer('e1', 10));
+
+    await pipeline.stop();
+
+    expect(emittedIds()).toEqual(['e1', 'e2']);
+    expect(pipeline.metrics().buffered).toBe(0);
+  });
+});
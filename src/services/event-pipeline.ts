@@ -0,0 +1,143 @@
+import type { Logger } from '../infra/logger.js';
+import type { EventBus } from './event-bus.js';
+import { getEventMint } from './event-utils.js';
+import type { EventPipelineMetrics, InternalEvent } from '../types/events.js';
+
+export interface EventPipelineConfig {
+  dedupWindowMs: number;
+  reorderWindowMs: number; // 0 publishes every event as soon as it is accepted
+}
+
+interface BufferedEvent {
+  event: InternalEvent;
+  receivedAt: number;
+}
+
+const MAX_BUFFERED = 10_000;
+const MAX_SEEN = 200_000;
+
+/**
+ * Stage between the event sources and the EventBus. Sources overlap (two
+ * sources, a backfill after a reconnect, two tracked wallets in one
+ * transaction), so an event is dropped when the same (signature, type, mint)
+ * was seen within the dedup window. Accepted events wait out a short reorder
+ * window and are then published in slot order; one that arrives after a
+ * higher slot was already published still goes out, counted as late.
+ */
+export class EventPipeline {
+  private readonly logger: Logger;
+  private readonly eventBus: EventBus;
+  private readonly config: EventPipelineConfig;
+  private readonly seen: Map<string, number> = new Map();
+  private buffer: BufferedEvent[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private lastReleasedSlot = 0;
+  private readonly counters = { received: 0, duplicates: 0, released: 0, late: 0 };
+
+  constructor(logger: Logger, eventBus: EventBus, config: EventPipelineConfig) {
+    this.logger = logger;
+    this.eventBus = eventBus;
+    this.config = config;
+  }
+
+  /** Queue an event for publishing; false when it duplicates one already accepted. */
+  push(event: InternalEvent): boolean {
+    const now = Date.now();
+    this.counters.received++;
+    this.forgetBefore(now - this.config.dedupWindowMs);
+
+    const key = dedupKey(event);
+    if (key) {
+      if (this.seen.has(key)) {
+        this.counters.duplicates++;
+        this.logger.debug(
+          { eventId: event.id, eventType: event.type, key },
+          'Duplicate event dropped',
+        );
+        return false;
+      }
+      this.seen.set(key, now);
+    }
+
+    this.buffer.push({ event, receivedAt: now });
+    if (this.config.reorderWindowMs === 0 || this.buffer.length >= MAX_BUFFERED) {
+      this.release(Infinity);
+    } else {
+      this.scheduleFlush(now);
+    }
+    return true;
+  }
+
+  metrics(): EventPipelineMetrics {
+    return { ...this.counters, buffered: this.buffer.length };
+  }
+
+  /** Publish everything still buffered. */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.release(Infinity);
+    this.logger.info(this.metrics(), 'Event pipeline stopped');
+  }
+
+  private scheduleFlush(now: number): void {
+    if (this.flushTimer || this.buffer.length === 0) return;
+    const delay = Math.max(0, this.buffer[0]!.receivedAt + this.config.reorderWindowMs - now);
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushDue();
+    }, delay);
+  }
+
+  /**
+   * Publish the events that have waited out the window, together with any
+   * younger ones at or below their highest slot: holding those back would
+   * only make them late.
+   */
+  private flushDue(): void {
+    const now = Date.now();
+    const due = this.buffer.filter((b) => now - b.receivedAt >= this.config.reorderWindowMs);
+    if (due.length > 0) {
+      this.release(Math.max(...due.map((b) => b.event.slot)));
+    }
+    this.scheduleFlush(now);
+  }
+
+  private release(maxSlot: number): void {
+    const ready = this.buffer.filter((b) => b.event.slot <= maxSlot);
+    this.buffer = this.buffer.filter((b) => b.event.slot > maxSlot);
+
+    // Stable sort, so events of one slot keep their arrival order
+    ready.sort((a, b) => a.event.slot - b.event.slot);
+    for (const { event } of ready) {
+      if (event.slot < this.lastReleasedSlot) this.counters.late++;
+      this.lastReleasedSlot = Math.max(this.lastReleasedSlot, event.slot);
+      this.counters.released++;
+      this.eventBus.emit(event);
+    }
+  }
+
+  private forgetBefore(cutoff: number): void {
+    // Insertion order is arrival order, so the oldest keys come first
+    for (const [key, seenAt] of this.seen) {
+      if (seenAt >= cutoff && this.seen.size <= MAX_SEEN) break;
+      this.seen.delete(key);
+    }
+  }
+}
+
+/**
+ * Identity of an on-chain event across sources. Per-wallet events also carry
+ * the wallet, since one transaction yields one of each for every tracked
+ * wallet it touches. Events without a signature are never deduplicated.
+ */
+function dedupKey(event: InternalEvent): string | null {
+  if (!event.signature) return null;
+  const parts = [event.signature, event.type, getEventMint(event) ?? ''];
+  if (event.type === 'WALLET_TRANSACTION' || event.type === 'TOKEN_BALANCE_CHANGE') {
+    parts.push(event.walletAddress);
+  }
+  return parts.join(':');
+}
@@ -0,0 +1,26 @@
+import type { InternalEvent } from '../types/events.js';
+
+/** Mint an event concerns, or null for events that are not mint-specific. */
+export function getEventMint(event: InternalEvent): string | null {
+  switch (event.type) {
+    case 'DEV_WALLET_SELL':
+    case 'DEV_WALLET_TRANSFER':
+      return event.mintAddress;
+    case 'TOKEN_TRANSFER':
+      return event.mintAddress;
+    case 'TOKEN_BALANCE_CHANGE':
+      return event.mintAddress;
+    case 'LP_ADD':
+    case 'LP_REMOVE':
+      return event.mintAddress;
+    case 'SUPPLY_CHANGE':
+      return event.mintAddress;
+    case 'PRICE_UPDATE':
+    case 'CLOCK_TICK':
+      return event.mintAddress;
+    case 'WALLET_TRANSACTION':
+      return event.mintAddress ?? null;
+    default:
+      return null;
+  }
+}
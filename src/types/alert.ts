@@ -0,0 +1,33 @@
+export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type AlertSource = 'POLICY' | 'THREAT' | 'EXECUTION' | 'RISK';
+
+export interface Alert {
+  source: AlertSource;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  mintAddress?: string;
+  positionId?: string;
+  policyId?: string;
+  details?: Record<string, unknown>;
+  timestamp: number;
+  /** Alerts sharing a key are delivered once per dedup window. */
+  dedupKey: string;
+}
+
+export interface ExecutionFailure {
+  action: string;
+  error: string;
+  positionId?: string;
+  mintAddress?: string;
+  policyId?: string;
+}
+
+/** Mint or freeze authority found on a tracked mint; `previous` is set when it changed. */
+export interface MintAuthorityFlag {
+  mintAddress: string;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  previous?: { mintAuthority: string | null; freezeAuthority: string | null };
+}
@@ -0,0 +1,43 @@
+import type { EventType } from './events.js';
+import type { ExecutionAction } from './execution.js';
+import type { HaltScope } from './halt.js';
+import type { PolicyAction } from './policy.js';
+
+export interface DryRunOptions {
+  from: Date;
+  to: Date;
+  /** Only replay events for this mint. */
+  mintAddress?: string;
+}
+
+export interface DryRunPositionAction {
+  positionId: string;
+  walletId: string;
+  mintAddress: string;
+  /** The sell the orchestrator would have requested; null for actions that do not trade. */
+  execution: { action: ExecutionAction; sellPercentage: number } | null;
+}
+
+export interface DryRunTrigger {
+  eventId: string;
+  eventType: EventType;
+  timestamp: number;
+  slot: number;
+  signature: string;
+  action: PolicyAction;
+  triggerValue: number;
+  threshold: number;
+  reason: string;
+  positions: DryRunPositionAction[];
+  haltScope?: HaltScope;
+}
+
+export interface DryRunReport {
+  policyId: string;
+  from: Date;
+  to: Date;
+  eventsReplayed: number;
+  /** True when the range held more events than a single dry run replays. */
+  truncated: boolean;
+  triggers: DryRunTrigger[];
+}
@@ -7,6 +7,8 @@ export type EventType =
   | 'DEV_WALLET_SELL'
   | 'DEV_WALLET_TRANSFER'
   | 'SUPPLY_CHANGE'
+  | 'PRICE_UPDATE'
+  | 'CLOCK_TICK'
   | 'POSITION_OPENED'
   | 'POSITION_CLOSED';
 
@@ -23,7 +25,7 @@ export interface WalletTransactionEvent extends BaseEvent {
   walletAddress: string;
   mintAddress?: string;
   direction: 'IN' | 'OUT';
-  amountLamports: string;
+  amountLamports: string; // raw token units when mintAddress is set
 }
 
 export interface TokenTransferEvent extends BaseEvent {
@@ -46,17 +48,22 @@ export interface LPEvent extends BaseEvent {
   type: 'LP_ADD' | 'LP_REMOVE';
   poolAddress: string;
   mintAddress: string;
-  liquidityAmount: string;
+  liquidityAmount: string; // raw LP tokens minted or burned
   solAmount: string;
   tokenAmount: string;
+  solReserve?: string; // pool reserves before the change
+  tokenReserve?: string;
+  lpSupply?: string; // LP supply before the change, read from the pool account
 }
 
 export interface DevWalletEvent extends BaseEvent {
   type: 'DEV_WALLET_SELL' | 'DEV_WALLET_TRANSFER';
   devWallet: string;
   mintAddress: string;
-  amount: string;
-  percentageOfHoldings: number;
+  amount: string; // raw token units that left the dev wallet
+  percentageOfHoldings: number; // of the dev's balance before the transaction
+  recipient?: string; // DEV_WALLET_TRANSFER: owner that received the tokens
+  solReceived?: string; // DEV_WALLET_SELL: lamports the dev got back
 }
 
 export interface SupplyChangeEvent extends BaseEvent {
@@ -64,7 +71,22 @@ export interface SupplyChangeEvent extends BaseEvent {
   mintAddress: string;
   previousSupply: string;
   newSupply: string;
-  changePercentage: number;
+  changePercentage: number; // relative to previousSupply
+  initialSupply?: string;
+  changeFromInitialPercentage?: number;
+}
+
+export interface PriceUpdateEvent extends BaseEvent {
+  type: 'PRICE_UPDATE';
+  mintAddress: string;
+  price: number; // lamports per raw token unit — same basis as PositionState.entryPrice
+  source: 'bonding_curve' | 'amm';
+}
+
+/** Synthetic per-mint tick so time-based policies evaluate when the chain is quiet (slot is 0). */
+export interface ClockTickEvent extends BaseEvent {
+  type: 'CLOCK_TICK';
+  mintAddress: string;
 }
 
 export type InternalEvent =
@@ -73,4 +95,29 @@ export type InternalEvent =
   | TokenBalanceChangeEvent
   | LPEvent
   | DevWalletEvent
-  | SupplyChangeEvent;
+  | SupplyChangeEvent
+  | PriceUpdateEvent
+  | ClockTickEvent;
+
+/** Delivery counters of one EventBus subscriber; eventType is '*' for handlers of every event. */
+export interface EventHandlerMetrics {
+  name: string;
+  eventType: EventType | '*';
+  delivered: number;
+  failures: number; // attempts that threw or rejected, retries included
+  retries: number;
+  dropped: number; // events given up on after the last attempt
+  inFlight: number;
+  avgLatencyMs: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+/** Counters of the ingestion stage that dedups and orders events before the EventBus. */
+export interface EventPipelineMetrics {
+  received: number;
+  duplicates: number;
+  released: number;
+  late: number; // released after an event with a higher slot
+  buffered: number;
+}
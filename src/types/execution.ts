@@ -1,10 +1,11 @@
 export type ExecutionStatus = 'PENDING' | 'SIMULATING' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED';
 
-export type ExecutionAction = 'FULL_EXIT' | 'PARTIAL_SELL' | 'HALT';
+export type ExecutionAction = 'FULL_EXIT' | 'PARTIAL_SELL';
 
 export interface ExecutionRequest {
   positionId: string;
   policyId: string;
+  policyVersionId?: string;
   action: ExecutionAction;
   sellPercentage: number;
   maxSlippageBps: number;
@@ -0,0 +1,28 @@
+/** Token halts are keyed by mint, wallet halts by wallet id. */
+export type HaltScope = 'TOKEN' | 'WALLET' | 'GLOBAL';
+
+export interface TradingHaltState {
+  id: string;
+  scope: HaltScope;
+  mintAddress: string | null;
+  walletId: string | null;
+  reason: string;
+  policyId: string | null;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface HaltRequest {
+  scope: HaltScope;
+  mintAddress?: string;
+  walletId?: string;
+  reason: string;
+  policyId?: string;
+  createdBy: string;
+}
+
+/** What a new entry would trade: any matching global, wallet or token halt blocks it. */
+export interface HaltTarget {
+  mintAddress?: string;
+  walletId?: string;
+}
@@ -1,5 +1,9 @@
-export type { EventType, BaseEvent, InternalEvent, WalletTransactionEvent, TokenTransferEvent, TokenBalanceChangeEvent, LPEvent, DevWalletEvent, SupplyChangeEvent } from './events.js';
-export type { PolicyTrigger, PolicyAction, PolicyActionParams, PolicyDefinition, PolicyEvaluationResult } from './policy.js';
-export type { PositionStatus, PositionState, PositionSnapshot } from './position.js';
+export type { EventType, BaseEvent, InternalEvent, WalletTransactionEvent, TokenTransferEvent, TokenBalanceChangeEvent, LPEvent, DevWalletEvent, SupplyChangeEvent, PriceUpdateEvent, ClockTickEvent, EventHandlerMetrics, EventPipelineMetrics } from './events.js';
+export type { PolicyTrigger, PolicyAction, PolicyActionParams, PolicyDefinition, PolicyEvaluationResult, PolicyScope, ApplicablePolicy, PositionTrigger, PrimitiveTrigger, LadderRung, TriggerCondition, PolicyCondition, PolicyFiringState, PolicyChangeType, PolicyFieldChange, PolicyChange, PolicyPackEntry, PolicyPack, PolicyPackChange, PolicyPackDiff, PolicyPackImportResult } from './policy.js';
+export type { PositionStatus, PositionState, PositionSnapshot, PositionAdjustment, ReconciliationReport } from './position.js';
 export type { ExecutionStatus, ExecutionAction, ExecutionRequest, ExecutionResult, SimulationResult } from './execution.js';
 export type { RiskParameters, RiskCheckResult, RiskViolation } from './risk.js';
+export type { HaltScope, TradingHaltState, HaltRequest, HaltTarget } from './halt.js';
+export type { AlertSeverity, AlertSource, Alert, ExecutionFailure, MintAuthorityFlag } from './alert.js';
+export type { DryRunOptions, DryRunPositionAction, DryRunTrigger, DryRunReport } from './dry-run.js';
+export type { ReplayOptions, ReplayTrigger, ReplayReport } from './replay.js';
@@ -1,3 +1,6 @@
+import type { HaltScope } from './halt.js';
+import type { AlertSeverity } from './alert.js';
+
 export type PolicyTrigger =
   | 'DEV_SELL_PERCENTAGE'
   | 'DEV_SELL_COUNT'
@@ -5,7 +8,41 @@ export type PolicyTrigger =
   | 'LP_REMOVAL_TOTAL'
   | 'SUPPLY_INCREASE'
   | 'PRICE_DROP_PERCENTAGE'
-  | 'WALLET_OUTFLOW';
+  | 'WALLET_OUTFLOW'
+  | 'TRAILING_STOP'
+  | 'TAKE_PROFIT'
+  | 'TAKE_PROFIT_LADDER'
+  | 'MAX_HOLD_TIME'
+  | 'TIME_STOP'
+  | 'COMPOSITE';
+
+/** Exit triggers judged per position against its entry price and openedAt rather than per mint. */
+export type PositionTrigger =
+  | 'TRAILING_STOP'
+  | 'TAKE_PROFIT'
+  | 'TAKE_PROFIT_LADDER'
+  | 'MAX_HOLD_TIME'
+  | 'TIME_STOP';
+
+/** Triggers that measure a single mint-level metric; COMPOSITE combines these. */
+export type PrimitiveTrigger = Exclude<PolicyTrigger, 'COMPOSITE' | PositionTrigger>;
+
+export interface TriggerCondition {
+  trigger: PrimitiveTrigger;
+  threshold: number;
+  /** Window in slots, judged by event slot (chain time); takes precedence over windowSeconds. */
+  windowBlocks?: number;
+  windowSeconds?: number;
+  /** WALLET_OUTFLOW: measure this token in raw units instead of SOL. */
+  mintAddress?: string;
+}
+
+/** Condition tree for COMPOSITE policies: nested all/any/not over trigger primitives. */
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | TriggerCondition;
 
 export type PolicyAction =
   | 'EXIT_POSITION'
@@ -13,10 +50,23 @@ export type PolicyAction =
   | 'HALT_STRATEGY'
   | 'ALERT_ONLY';
 
+export interface LadderRung {
+  /** Price as a multiple of entry price, e.g. 2 for 2x. */
+  multiple: number;
+  /** Share of the original position to sell at this rung. */
+  sellPercentage: number;
+}
+
 export interface PolicyActionParams {
   sellPercentage?: number;
   maxSlippageBps?: number;
   priorityFeeLamports?: number;
+  /** TAKE_PROFIT_LADDER rungs, ascending by multiple. */
+  ladder?: LadderRung[];
+  /** HALT_STRATEGY: what to halt — the triggering token (default), its wallet, or everything. */
+  haltScope?: HaltScope;
+  /** Overrides the alert severity implied by the action. */
+  alertSeverity?: AlertSeverity;
 }
 
 export interface PolicyDefinition {
@@ -31,6 +81,86 @@ export interface PolicyDefinition {
   priority: number;
   isActive: boolean;
   trackedTokenId?: string;
+  walletId?: string;
+  /** Set only for COMPOSITE policies; threshold and windows are then per-condition. */
+  conditions?: PolicyCondition;
+  /** Minimum time between fires for the same position. */
+  cooldownSeconds?: number;
+  /** Hysteresis: after firing, re-arm only once the metric falls below this value. */
+  rearmBelow?: number;
+  /** WALLET_OUTFLOW: measure this token in raw units instead of SOL. */
+  mintAddress?: string;
+  /** Current version; absent for drafts that were never saved. */
+  version?: number;
+  versionId?: string;
+}
+
+export type PolicyChangeType = 'CREATED' | 'UPDATED' | 'ACTIVATED' | 'DEACTIVATED';
+
+export interface PolicyFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface PolicyChange {
+  changeType: PolicyChangeType;
+  changedBy: string;
+  changeReason?: string;
+}
+
+/** A pack entry, the same shape as the body of POST /policies. */
+export type PolicyPackEntry = Omit<PolicyDefinition, 'id' | 'isActive' | 'version' | 'versionId'>;
+
+export interface PolicyPack {
+  name: string;
+  description?: string;
+  policies: PolicyPackEntry[];
+}
+
+export interface PolicyPackChange {
+  name: string;
+  policyId: string;
+  changes: PolicyFieldChange[];
+}
+
+/** A pack compared by name with the policies loaded in the engine. */
+export interface PolicyPackDiff {
+  pack: string;
+  added: string[];
+  changed: PolicyPackChange[];
+  unchanged: string[];
+  notInPack: string[];
+}
+
+export interface PolicyPackImportResult {
+  pack: string;
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+}
+
+/**
+ * Firing state of a policy for one position. With neither cooldownSeconds nor
+ * rearmBelow set a policy fires once per position.
+ */
+export interface PolicyFiringState {
+  policyId: string;
+  positionId: string;
+  armed: boolean;
+  fireCount: number;
+  lastFiredAt: Date | null;
+  lastReason: string | null;
+  lastValue: number | null;
+  rearmedAt: Date | null;
+}
+
+/** Most specific first: token overrides wallet overrides global. */
+export type PolicyScope = 'TOKEN' | 'WALLET' | 'GLOBAL';
+
+export interface ApplicablePolicy {
+  policy: PolicyDefinition;
+  scope: PolicyScope;
 }
 
 export interface PolicyEvaluationResult {
@@ -41,4 +171,10 @@ export interface PolicyEvaluationResult {
   triggerValue: number;
   threshold: number;
   reason: string;
+  /** Set for position triggers: the result applies to this position only. */
+  positionId?: string;
+  /** Ladder rungs (or 0 for single-shot exits) this result fills; each fires once per position. */
+  rungs?: number[];
+  /** The policy version that produced this result, linked from the resulting executions. */
+  policyVersionId?: string;
 }
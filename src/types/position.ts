@@ -19,3 +19,19 @@ export interface PositionSnapshot {
   estimatedValueSol: number | null;
   timestamp: number;
 }
+
+/** A correction of a position's tokenBalance to what the chain holds. */
+export interface PositionAdjustment {
+  positionId: string;
+  mintAddress: string;
+  previousBalance: bigint;
+  newBalance: bigint;
+  closed: boolean;
+  slot: number;
+}
+
+export interface ReconciliationReport {
+  checked: number;
+  skipped: number; // positions left alone this pass, see PositionReconciler
+  adjustments: PositionAdjustment[];
+}
@@ -0,0 +1,42 @@
+import type { DryRunTrigger } from './dry-run.js';
+import type { PolicyDefinition } from './policy.js';
+
+/**
+ * A replay range is given either in time (`from`/`to`, by when events were
+ * ingested) or in slots (`fromSlot`/`toSlot`).
+ */
+export interface ReplayOptions {
+  from?: Date;
+  to?: Date;
+  fromSlot?: number;
+  toSlot?: number;
+  /** Events before this time only build up state; nothing is evaluated for them. */
+  evaluateFrom?: Date;
+  /** Only replay events for this mint. */
+  mintAddress?: string;
+  /** Policies to evaluate instead of the active ones, e.g. a proposed change. */
+  policies?: PolicyDefinition[];
+  /** Pace relative to the recorded gaps between events: 1 is real time, 10 ten times faster, 0 no waiting. */
+  speed?: number;
+  /** Total wall-clock ms a paced replay may wait; the rest of the range then runs unpaced. */
+  maxPacedMs?: number;
+  /** Emit CLOCK_TICK on this interval of replay time, as the scheduler does live. */
+  tickIntervalMs?: number;
+  maxEvents?: number;
+}
+
+export interface ReplayTrigger extends DryRunTrigger {
+  policyId: string;
+  policyVersionId?: string;
+}
+
+export interface ReplayReport {
+  eventsReplayed: number;
+  ticksEmitted: number;
+  /** True when the range held more events than maxEvents. */
+  truncated: boolean;
+  /** Replay clock at the first and last event, in ms; null when nothing was replayed. */
+  startedAt: number | null;
+  endedAt: number | null;
+  triggers: ReplayTrigger[];
+}